@@ -4,6 +4,8 @@ import Login from "./components/Login";
 import Register from "./components/Register";
 import Home from "./components/home";
 import Profile from "./components/Profile";
+import MonthlyReport from "./components/MonthlyReport";
+import InvitationPage from "./components/InvitationPage";
 import { useAuth } from "./contexts/AuthContext";
 import { useEffect } from "react";
 
@@ -58,6 +60,7 @@ function App() {
           <Routes>
             <Route path="/login" element={<Login />} />
             <Route path="/register" element={<Register />} />
+            <Route path="/convite/:token" element={<InvitationPage />} />
             <Route
               path="/"
               element={
@@ -74,6 +77,14 @@ function App() {
                 </PrivateRoute>
               }
             />
+            <Route
+              path="/relatorio"
+              element={
+                <PrivateRoute>
+                  <MonthlyReport />
+                </PrivateRoute>
+              }
+            />
           </Routes>
           <Toaster />
         </div>
@@ -0,0 +1,250 @@
+import React, { useState } from "react";
+import { endOfMonth, format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Plus, Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Account, AccountType, accountTypeLabels, createAccount } from "@/services/accounts";
+import { attachAccountBalances } from "@/lib/balances";
+
+interface AccountBalancesProps {
+  accounts: Account[];
+  // Saldo de cada conta no fim do mês selecionado, calculado pelo banco
+  balances: Record<string, number>;
+  selectedDate: Date;
+  onAccountCreated: (account: Account) => void;
+}
+
+const formatCurrency = (amount: number, currency = "BRL") => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency,
+  }).format(amount);
+};
+
+const AccountBalances: React.FC<AccountBalancesProps> = ({
+  accounts,
+  balances: accountBalances,
+  selectedDate,
+  onAccountCreated,
+}) => {
+  const { user } = useAuth();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("checking");
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [currency, setCurrency] = useState("BRL");
+  const [closingDay, setClosingDay] = useState("");
+  const [dueDay, setDueDay] = useState("");
+
+  const balances = attachAccountBalances(accounts, accountBalances);
+
+  const handleCreateAccount = async () => {
+    if (!user || !name.trim()) {
+      toast({
+        title: "Erro",
+        description: "Por favor, insira um nome para a conta",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const parsedBalance = openingBalance ? parseFloat(openingBalance.replace(",", ".")) : 0;
+    if (isNaN(parsedBalance)) {
+      toast({
+        title: "Erro",
+        description: "Saldo inicial inválido",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const isCreditCard = type === "credit_card";
+    const parsedClosingDay = parseInt(closingDay);
+    const parsedDueDay = parseInt(dueDay);
+    if (
+      isCreditCard &&
+      (!(parsedClosingDay >= 1 && parsedClosingDay <= 31) || !(parsedDueDay >= 1 && parsedDueDay <= 31))
+    ) {
+      toast({
+        title: "Erro",
+        description: "Informe os dias de fechamento e de vencimento do cartão (1 a 31)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const account = await createAccount({
+        user_id: user.id,
+        name,
+        type,
+        opening_balance: parsedBalance,
+        currency,
+        closing_day: isCreditCard ? parsedClosingDay : null,
+        due_day: isCreditCard ? parsedDueDay : null,
+      });
+      onAccountCreated(account);
+
+      toast({
+        title: "Sucesso",
+        description: "Conta criada com sucesso",
+      });
+
+      setIsCreateOpen(false);
+      setName("");
+      setType("checking");
+      setOpeningBalance("");
+      setCurrency("BRL");
+      setClosingDay("");
+      setDueDay("");
+    } catch (error: any) {
+      console.error('Erro ao criar conta:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível criar a conta",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Saldo por Conta</CardTitle>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {balances.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Cadastre suas contas para acompanhar o saldo de cada uma.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {balances.map(({ account, balance }) => (
+              <div key={account.id} className="flex justify-between items-center gap-2">
+                <span className="text-sm text-muted-foreground flex items-center gap-1 truncate">
+                  <Wallet className="h-3 w-3 shrink-0" />
+                  {account.name}
+                </span>
+                <span className={`text-sm font-medium ${balance >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {formatCurrency(balance, account.currency)}
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground pt-1">
+              Em {format(endOfMonth(selectedDate), "dd 'de' MMMM", { locale: ptBR })}
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Modal de Nova Conta */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nova Conta</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input
+                placeholder="Ex: Nubank, Carteira, Poupança"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={type} onValueChange={(value) => setType(value as AccountType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(accountTypeLabels) as AccountType[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {accountTypeLabels[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Moeda</Label>
+                <Input
+                  value={currency}
+                  maxLength={3}
+                  onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Saldo Inicial</Label>
+              <Input
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value.replace(/[^0-9.,-]/g, ""))}
+                placeholder="0,00"
+                className="text-right"
+              />
+            </div>
+            {type === "credit_card" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Dia de Fechamento</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={closingDay}
+                    onChange={(e) => setClosingDay(e.target.value)}
+                    placeholder="Ex: 25"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Dia de Vencimento</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={dueDay}
+                    onChange={(e) => setDueDay(e.target.value)}
+                    placeholder="Ex: 5"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleCreateAccount}>Criar Conta</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AccountBalances;
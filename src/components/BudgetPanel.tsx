@@ -0,0 +1,282 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { Budget, createBudget, deleteBudget, updateBudget } from "@/services/budgets";
+import { BudgetStatus, calculateBudgetProgress, toBudgetMonth } from "@/lib/budgets";
+import { getCategoryIcon } from "@/lib/categories";
+import { GroupRole, canManageGroup, canWriteToGroup } from "@/lib/groupRoles";
+
+// Transações ou totais do banco por mês e categoria: o cálculo só olha data, valor, tipo e categoria
+interface Transaction {
+  date: Date;
+  amount: number;
+  type: string;
+  category: string;
+}
+
+interface BudgetPanelProps {
+  budgets: Budget[];
+  transactions: Transaction[];
+  selectedDate: Date;
+  // Orçamentos do grupo quando informado; senão, os pessoais
+  groupId?: string | null;
+  // Papel do usuário no grupo: leitores só consultam e membros alteram só os orçamentos que criaram
+  groupRole?: GroupRole | null;
+  onBudgetsChange: (budgets: Budget[]) => void;
+}
+
+type BudgetPeriod = "month" | "every_month";
+
+const statusColors: Record<BudgetStatus, string> = {
+  ok: "[&>div]:bg-green-600",
+  warning: "[&>div]:bg-yellow-500",
+  exceeded: "[&>div]:bg-red-600",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const BudgetPanel: React.FC<BudgetPanelProps> = ({
+  budgets,
+  transactions,
+  selectedDate,
+  groupId = null,
+  groupRole = null,
+  onBudgetsChange,
+}) => {
+  const { user } = useAuth();
+  const { getCategoryOptions, findCategory, getCategoryKeys } = useCategories();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [category, setCategory] = useState("");
+  const [period, setPeriod] = useState<BudgetPeriod>("every_month");
+  const [amount, setAmount] = useState("");
+  const [rollover, setRollover] = useState(false);
+
+  const progress = calculateBudgetProgress(
+    budgets,
+    transactions,
+    selectedDate,
+    (key) => getCategoryKeys(key, "expense", groupId),
+  );
+  const monthLabel = format(selectedDate, "MMMM 'de' yyyy", { locale: ptBR });
+  const canCreate = !groupId || canWriteToGroup(groupRole);
+  const canEdit = (budget: Budget) =>
+    !groupId || canManageGroup(groupRole) || (budget.user_id === user?.id && canWriteToGroup(groupRole));
+
+  const openDialog = (budget: Budget | null) => {
+    setEditingBudget(budget);
+    setCategory(budget?.category || "");
+    setPeriod(budget && !budget.month ? "every_month" : budget ? "month" : "every_month");
+    setAmount(budget ? String(budget.amount) : "");
+    setRollover(budget?.rollover || false);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const parsedAmount = parseFloat(amount.replace(",", "."));
+    if (!user || !category || isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast({
+        title: "Erro",
+        description: "Selecione a categoria e informe um limite válido",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const changes = {
+      category,
+      month: period === "month" ? editingBudget?.month || toBudgetMonth(selectedDate) : null,
+      amount: parsedAmount,
+      rollover,
+    };
+
+    try {
+      if (editingBudget) {
+        const updated = await updateBudget(editingBudget.id, changes);
+        onBudgetsChange(budgets.map((b) => (b.id === updated.id ? updated : b)));
+      } else {
+        const created = await createBudget({ ...changes, user_id: user.id, group_id: groupId });
+        onBudgetsChange([...budgets, created]);
+      }
+
+      toast({
+        title: "Sucesso",
+        description: "Orçamento salvo com sucesso",
+      });
+      setIsDialogOpen(false);
+    } catch (error: any) {
+      console.error('Erro ao salvar orçamento:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível salvar o orçamento",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    try {
+      await deleteBudget(budget.id);
+      onBudgetsChange(budgets.filter((b) => b.id !== budget.id));
+    } catch (error: any) {
+      console.error('Erro ao excluir orçamento:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível excluir o orçamento",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle>Orçamentos de {monthLabel}</CardTitle>
+        {canCreate && (
+          <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Orçamento
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {progress.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Defina limites de gastos por categoria para acompanhar o mês.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {progress.map(({ budget, category: key, available, carryOver, spent, percentage, status }) => {
+              const categoryInfo = findCategory(key, "expense", groupId);
+              const Icon = getCategoryIcon(categoryInfo?.icon);
+              return (
+                <div key={key} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 text-sm font-medium">
+                      <Icon className="h-4 w-4" style={{ color: categoryInfo?.color }} />
+                      {categoryInfo?.name || key}
+                      {!budget.month && (
+                        <span className="text-xs text-muted-foreground">(todo mês)</span>
+                      )}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <span className={`text-sm ${status === "exceeded" ? "text-red-600" : "text-muted-foreground"}`}>
+                        {formatCurrency(spent)} de {formatCurrency(available)}
+                      </span>
+                      {canEdit(budget) && (
+                        <>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openDialog(budget)}>
+                            <Edit className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDelete(budget)}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <Progress value={Math.min(percentage, 100)} className={statusColors[status]} />
+                  {carryOver !== 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {carryOver > 0 ? "Sobra" : "Estouro"} do mês anterior: {formatCurrency(Math.abs(carryOver))}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Modal de Orçamento */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingBudget ? "Editar Orçamento" : "Novo Orçamento"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione uma categoria" />
+                </SelectTrigger>
+                <SelectContent>
+                  {getCategoryOptions("expense", groupId).map(({ category: cat, depth }) => (
+                    <SelectItem key={cat.id} value={cat.key}>
+                      <span className={depth > 0 ? "pl-4" : ""}>{cat.name}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Período</Label>
+              <RadioGroup value={period} onValueChange={(value) => setPeriod(value as BudgetPeriod)}>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="every_month" id="budget-every-month" />
+                  <Label htmlFor="budget-every-month">Todo mês</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="month" id="budget-month" />
+                  <Label htmlFor="budget-month">Somente em {monthLabel}</Label>
+                </div>
+              </RadioGroup>
+            </div>
+            <div className="space-y-2">
+              <Label>Limite</Label>
+              <Input
+                value={amount}
+                onChange={(e) => setAmount(e.target.value.replace(/[^0-9.,]/g, ""))}
+                placeholder="0,00"
+                className="text-right"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="budget-rollover" checked={rollover} onCheckedChange={setRollover} />
+              <Label htmlFor="budget-rollover">Levar a sobra ou o estouro para o mês seguinte</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave}>Salvar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default BudgetPanel;
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { Category, CategoryType } from "@/services/categories";
+import {
+  DEFAULT_CATEGORY_COLOR,
+  DEFAULT_CATEGORY_ICON,
+  categoryColorOptions,
+  categoryIcons,
+} from "@/lib/categories";
+
+interface CategoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  type: CategoryType;
+  groupId?: string | null;
+  // Quando informado, o diálogo edita a categoria em vez de criar uma nova
+  category?: Category | null;
+  onSaved?: (category: Category) => void;
+}
+
+const NO_PARENT = "no_parent";
+
+const CategoryDialog: React.FC<CategoryDialogProps> = ({
+  open,
+  onOpenChange,
+  type,
+  groupId = null,
+  category = null,
+  onSaved,
+}) => {
+  const { categories, addCategory, updateCategory } = useCategories();
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState(NO_PARENT);
+  const [color, setColor] = useState(DEFAULT_CATEGORY_COLOR);
+  const [icon, setIcon] = useState(DEFAULT_CATEGORY_ICON);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(category?.name || "");
+      setParentId(category?.parent_id || NO_PARENT);
+      setColor(category?.color || DEFAULT_CATEGORY_COLOR);
+      setIcon(category?.icon || DEFAULT_CATEGORY_ICON);
+    }
+  }, [open, category]);
+
+  // Só um nível de subcategorias: o pai precisa ser uma categoria principal do mesmo tipo
+  const parentOptions = categories.filter(
+    (c) =>
+      c.type === type &&
+      !c.parent_id &&
+      !c.archived &&
+      c.id !== category?.id &&
+      (!c.group_id || c.group_id === groupId)
+  );
+  const hasChildren = !!category && categories.some((c) => c.parent_id === category.id);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Erro",
+        description: "Por favor, insira o nome da categoria",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const changes = {
+        name,
+        parent_id: parentId === NO_PARENT ? null : parentId,
+        color,
+        icon,
+      };
+      const saved = category
+        ? await updateCategory(category.id, changes)
+        : await addCategory({ ...changes, type, group_id: groupId });
+
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Erro ao salvar categoria:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível salvar a categoria",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{category ? "Editar Categoria" : "Nova Categoria"}</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="categoryName">Nome da Categoria</Label>
+            <Input
+              id="categoryName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Digite o nome da categoria"
+            />
+          </div>
+
+          {!hasChildren && (
+            <div className="grid gap-2">
+              <Label>Subcategoria de</Label>
+              <Select value={parentId} onValueChange={setParentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>Nenhuma (categoria principal)</SelectItem>
+                  {parentOptions.map((parent) => (
+                    <SelectItem key={parent.id} value={parent.id}>
+                      {parent.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label>Cor</Label>
+            <div className="flex flex-wrap gap-2">
+              {categoryColorOptions.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-label={option}
+                  onClick={() => setColor(option)}
+                  className={`h-6 w-6 rounded-full border-2 ${color === option ? "border-foreground" : "border-transparent"}`}
+                  style={{ backgroundColor: option }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Ícone</Label>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(categoryIcons).map(([iconName, Icon]) => (
+                <Button
+                  key={iconName}
+                  type="button"
+                  variant={icon === iconName ? "default" : "ghost"}
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setIcon(iconName)}
+                >
+                  <Icon className="h-4 w-4" />
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {category ? "Salvar" : "Adicionar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryDialog;
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { Archive, ArchiveRestore, Edit, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { Category, CategoryType } from "@/services/categories";
+import { getCategoryIcon, sortCategoryTree } from "@/lib/categories";
+import CategoryDialog from "./CategoryDialog";
+
+const CategoryManager: React.FC = () => {
+  const { user } = useAuth();
+  const { categories, archiveCategory } = useCategories();
+  const [type, setType] = useState<CategoryType>("expense");
+  const [showArchived, setShowArchived] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+
+  const openDialog = (category: Category | null) => {
+    setEditingCategory(category);
+    setIsDialogOpen(true);
+  };
+
+  const handleArchive = async (category: Category) => {
+    try {
+      await archiveCategory(category.id, !category.archived);
+      toast({
+        title: "Sucesso",
+        description: category.archived ? "Categoria restaurada" : "Categoria arquivada",
+      });
+    } catch (error: any) {
+      console.error('Erro ao arquivar categoria:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível atualizar a categoria",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderList = (listType: CategoryType) => {
+    const rows = sortCategoryTree(
+      categories.filter((c) => c.type === listType && (showArchived || !c.archived))
+    );
+
+    return (
+      <div className="space-y-1">
+        {rows.map(({ category, depth }) => {
+          const Icon = getCategoryIcon(category.icon);
+          // Categorias padrão são compartilhadas por todos e não podem ser alteradas
+          const isDefault = !category.user_id && !category.group_id;
+          const canEdit = !isDefault && (category.user_id === user?.id || !!category.group_id);
+
+          return (
+            <div
+              key={category.id}
+              className={`flex items-center justify-between rounded-md border p-2 ${depth > 0 ? "ml-6" : ""}`}
+            >
+              <div className="flex items-center gap-2">
+                <Icon className="h-4 w-4" style={{ color: category.color }} />
+                <span className={category.archived ? "text-muted-foreground line-through" : ""}>
+                  {category.name}
+                </span>
+                {isDefault && <Badge variant="outline">Padrão</Badge>}
+                {category.group_id && <Badge variant="secondary">Grupo</Badge>}
+              </div>
+              {canEdit && (
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(category)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleArchive(category)}>
+                    {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+          <Label htmlFor="show-archived">Mostrar arquivadas</Label>
+        </div>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Categoria
+        </Button>
+      </div>
+
+      <Tabs value={type} onValueChange={(value) => setType(value as CategoryType)}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="expense">Despesas</TabsTrigger>
+          <TabsTrigger value="income">Receitas</TabsTrigger>
+        </TabsList>
+        <TabsContent value="expense">{renderList("expense")}</TabsContent>
+        <TabsContent value="income">{renderList("income")}</TabsContent>
+      </Tabs>
+
+      <CategoryDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        type={editingCategory?.type || type}
+        groupId={editingCategory?.group_id}
+        category={editingCategory}
+      />
+    </div>
+  );
+};
+
+export default CategoryManager;
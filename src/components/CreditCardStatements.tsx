@@ -0,0 +1,326 @@
+import React, { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Calendar as CalendarIcon, CreditCard } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Account } from "@/services/accounts";
+import { Transaction as SavedTransaction } from "@/services/transactions";
+import { useTransactions } from "@/hooks/useTransactions";
+import { CardStatementPayment, payCardStatement } from "@/services/cardStatements";
+import { CardStatement, buildCardStatements, statementStatusLabels } from "@/lib/creditCard";
+
+interface Transaction {
+  id: string;
+  date: Date;
+  description: string;
+  amount: number;
+  type: string;
+  account_id?: string;
+  statement_month?: string;
+}
+
+interface CreditCardStatementsProps {
+  accounts: Account[];
+  payments: CardStatementPayment[];
+  onStatementPaid: (payment: CardStatementPayment, transactions: SavedTransaction[]) => void;
+}
+
+type Statement = CardStatement<Transaction, CardStatementPayment>;
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const formatStatementMonth = (statementMonth: string) =>
+  format(parseISO(statementMonth), "MMMM 'de' yyyy", { locale: ptBR });
+
+const CreditCardStatements: React.FC<CreditCardStatementsProps> = ({
+  accounts,
+  payments,
+  onStatementPaid,
+}) => {
+  const { user } = useAuth();
+  const [statementToPay, setStatementToPay] = useState<Statement | null>(null);
+  const [fromAccount, setFromAccount] = useState("");
+  const [paymentDate, setPaymentDate] = useState<Date>(new Date());
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isPaying, setIsPaying] = useState(false);
+
+  const cards = accounts.filter((account) => account.type === "credit_card");
+  const paymentAccounts = accounts.filter((account) => account.type !== "credit_card");
+  const cardIds = cards.map((card) => card.id).join(",");
+
+  // Só os lançamentos dos cartões entram nas faturas
+  const { data } = useTransactions(user?.id, { accountIds: cardIds.split(",") }, !!cardIds);
+  const transactions = useMemo<Transaction[]>(
+    () => (cardIds ? data || [] : []).map((transaction) => ({ ...transaction, date: parseISO(transaction.date) })),
+    [data, cardIds]
+  );
+
+  const openPayDialog = (statement: Statement) => {
+    setStatementToPay(statement);
+    setFromAccount(paymentAccounts[0]?.id || "");
+    setPaymentDate(new Date());
+  };
+
+  const handlePay = async () => {
+    if (!user || !statementToPay) return;
+
+    if (!fromAccount) {
+      toast({
+        title: "Erro",
+        description: "Selecione a conta usada para pagar a fatura",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const card = cards.find((account) => account.id === statementToPay.account_id);
+
+    try {
+      setIsPaying(true);
+      const { payment, transactions: savedTransactions } = await payCardStatement({
+        user_id: user.id,
+        account_id: statementToPay.account_id,
+        from_account_id: fromAccount,
+        statement_month: statementToPay.statement_month,
+        amount: statementToPay.total,
+        paid_at: format(paymentDate, "yyyy-MM-dd"),
+        description: `Pagamento da fatura ${card?.name || ""} - ${formatStatementMonth(statementToPay.statement_month)}`,
+      });
+      onStatementPaid(payment, savedTransactions);
+
+      toast({
+        title: "Sucesso",
+        description: "Fatura paga com sucesso",
+      });
+      setStatementToPay(null);
+    } catch (error: any) {
+      console.error('Erro ao pagar fatura:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível pagar a fatura",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  if (cards.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Cadastre um cartão de crédito em "Saldo por Conta" para acompanhar as faturas.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {cards.map((card) => {
+        const statements = buildCardStatements(card, transactions, payments);
+
+        return (
+          <Card key={card.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="h-5 w-5" />
+                {card.name}
+              </CardTitle>
+              {card.closing_day && card.due_day && (
+                <p className="text-sm text-muted-foreground">
+                  Fecha no dia {card.closing_day} e vence no dia {card.due_day}
+                </p>
+              )}
+            </CardHeader>
+            <CardContent>
+              {!card.closing_day || !card.due_day ? (
+                <p className="text-sm text-muted-foreground">
+                  Este cartão não tem os dias de fechamento e vencimento cadastrados.
+                </p>
+              ) : statements.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma fatura ainda.</p>
+              ) : (
+                <Accordion type="multiple" className="w-full">
+                  {statements.map((statement) => (
+                    <AccordionItem key={statement.statement_month} value={statement.statement_month}>
+                      <AccordionTrigger className="hover:no-underline">
+                        <div className="flex items-center justify-between w-full pr-4">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium capitalize">
+                              {formatStatementMonth(statement.statement_month)}
+                            </span>
+                            <Badge
+                              variant={statement.status === "closed" ? "destructive" : "outline"}
+                              className={statement.status === "paid" ? "bg-green-600 text-white hover:bg-green-700" : ""}
+                            >
+                              {statementStatusLabels[statement.status]}
+                            </Badge>
+                            <span className="text-sm text-muted-foreground">
+                              Vence em {format(statement.due_date, "dd/MM/yyyy")}
+                            </span>
+                          </div>
+                          <span className="font-semibold">{formatCurrency(statement.total)}</span>
+                        </div>
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <div className="flex justify-between items-center mb-2">
+                          <span className="text-sm text-muted-foreground">
+                            {statement.status === "paid" && statement.payment
+                              ? `Paga em ${format(parseISO(statement.payment.paid_at), "dd/MM/yyyy")}`
+                              : `Fecha em ${format(statement.closing_date, "dd/MM/yyyy")}`}
+                          </span>
+                          {statement.status !== "paid" && statement.total > 0 && (
+                            <Button size="sm" onClick={() => openPayDialog(statement)}>
+                              Pagar Fatura
+                            </Button>
+                          )}
+                        </div>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Data</TableHead>
+                              <TableHead>Descrição</TableHead>
+                              <TableHead className="text-right">Valor</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {statement.transactions.map((transaction) => (
+                              <TableRow key={transaction.id}>
+                                <TableCell>{format(transaction.date, "dd/MM/yyyy")}</TableCell>
+                                <TableCell>{transaction.description}</TableCell>
+                                <TableCell
+                                  className={`text-right ${transaction.type === "income" ? "text-green-600" : ""}`}
+                                >
+                                  {transaction.type === "income" ? "-" : ""}
+                                  {formatCurrency(transaction.amount)}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {/* Modal de Pagamento da Fatura */}
+      <Dialog open={!!statementToPay} onOpenChange={(open) => !open && setStatementToPay(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Pagar Fatura</DialogTitle>
+            {statementToPay && (
+              <DialogDescription>
+                Fatura de {formatStatementMonth(statementToPay.statement_month)}:{" "}
+                {formatCurrency(statementToPay.total)}. O pagamento é registrado como uma
+                transferência e não conta de novo como despesa.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Pagar com</Label>
+              <Select value={fromAccount} onValueChange={setFromAccount}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a conta" />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Data do Pagamento</Label>
+              <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(paymentDate, "dd/MM/yyyy")}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={paymentDate}
+                    onSelect={(date) => {
+                      setPaymentDate(date || new Date());
+                      setIsCalendarOpen(false);
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatementToPay(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handlePay} disabled={isPaying}>
+              {isPaying ? "Pagando..." : "Confirmar Pagamento"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CreditCardStatements;
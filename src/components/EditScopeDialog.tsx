@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+export interface EditScopeOption<T extends string> {
+  value: T;
+  label: string;
+}
+
+interface EditScopeDialogProps<T extends string> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  options: EditScopeOption<T>[];
+  confirmLabel: string;
+  destructive?: boolean;
+  onConfirm: (scope: T) => void;
+}
+
+const EditScopeDialog = <T extends string>({
+  open,
+  onOpenChange,
+  title,
+  description,
+  options,
+  confirmLabel,
+  destructive = false,
+  onConfirm,
+}: EditScopeDialogProps<T>) => {
+  const [scope, setScope] = useState<T>(options[0].value);
+
+  // Sempre começar pela opção menos abrangente
+  useEffect(() => {
+    if (open) {
+      setScope(options[0].value);
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <RadioGroup
+          value={scope}
+          onValueChange={(value) => setScope(value as T)}
+          className="py-2"
+        >
+          {options.map((option) => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <RadioGroupItem value={option.value} id={`scope-${option.value}`} />
+              <Label htmlFor={`scope-${option.value}`}>{option.label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            variant={destructive ? "destructive" : "default"}
+            onClick={() => onConfirm(scope)}
+          >
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditScopeDialog;
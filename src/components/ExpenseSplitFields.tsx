@@ -0,0 +1,148 @@
+import React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SplitMethod, calculateSplitAmounts, splitMethodLabels } from "@/lib/splits";
+
+export interface SplitMember {
+  user_id: string;
+  name: string;
+}
+
+export interface ExpenseSplitState {
+  paidBy: string;
+  method: SplitMethod;
+  // Membros que entram na divisão
+  participants: string[];
+  // Valor digitado por membro (valor exato, percentual ou cotas)
+  values: Record<string, string>;
+}
+
+interface ExpenseSplitFieldsProps {
+  members: SplitMember[];
+  amount: number;
+  value: ExpenseSplitState;
+  onChange: (value: ExpenseSplitState) => void;
+}
+
+const valueSuffixes: Record<SplitMethod, string> = {
+  equal: "",
+  exact: "R$",
+  percentage: "%",
+  shares: "cotas",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+export const getSplitEntries = (state: ExpenseSplitState) =>
+  state.participants.map((userId) => ({
+    user_id: userId,
+    value: state.method === "equal" ? 1 : parseFloat((state.values[userId] || "0").replace(",", ".")),
+  }));
+
+const ExpenseSplitFields: React.FC<ExpenseSplitFieldsProps> = ({ members, amount, value, onChange }) => {
+  const entries = getSplitEntries(value);
+  const canPreview = amount > 0 && entries.length > 0 && entries.every((entry) => !isNaN(entry.value));
+  const preview = canPreview ? calculateSplitAmounts(amount, value.method, entries) : [];
+
+  const toggleParticipant = (userId: string, checked: boolean) => {
+    onChange({
+      ...value,
+      participants: checked
+        ? members.map((member) => member.user_id).filter((id) => id === userId || value.participants.includes(id))
+        : value.participants.filter((id) => id !== userId),
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label>Quem pagou</Label>
+          <Select value={value.paidBy} onValueChange={(paidBy) => onChange({ ...value, paidBy })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {members.map((member) => (
+                <SelectItem key={member.user_id} value={member.user_id}>
+                  {member.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Dividir</Label>
+          <Select
+            value={value.method}
+            onValueChange={(method) => onChange({ ...value, method: method as SplitMethod, values: {} })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(splitMethodLabels) as SplitMethod[]).map((method) => (
+                <SelectItem key={method} value={method}>
+                  {splitMethodLabels[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {members.map((member) => {
+          const isParticipant = value.participants.includes(member.user_id);
+          const share = preview.find((split) => split.user_id === member.user_id);
+          return (
+            <div key={member.user_id} className="flex items-center gap-2">
+              <Checkbox
+                id={`split-${member.user_id}`}
+                checked={isParticipant}
+                onCheckedChange={(checked) => toggleParticipant(member.user_id, checked === true)}
+              />
+              <Label htmlFor={`split-${member.user_id}`} className="flex-1 truncate font-normal">
+                {member.name}
+              </Label>
+              {value.method !== "equal" && isParticipant && (
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={value.values[member.user_id] || ""}
+                    onChange={(e) =>
+                      onChange({
+                        ...value,
+                        values: { ...value.values, [member.user_id]: e.target.value.replace(/[^0-9.,]/g, "") },
+                      })
+                    }
+                    placeholder="0"
+                    className="h-8 w-20 text-right"
+                  />
+                  <span className="text-xs text-muted-foreground w-8">{valueSuffixes[value.method]}</span>
+                </div>
+              )}
+              <span className="text-sm text-muted-foreground w-24 text-right">
+                {isParticipant && share ? formatCurrency(share.amount) : "-"}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseSplitFields;
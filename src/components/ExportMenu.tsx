@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/components/ui/use-toast";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { Account } from "@/services/accounts";
+import { getProfileName, getProfiles } from "@/services/profiles";
+import { ExportFormat, buildExportRows, downloadExport, exportFormatLabels } from "@/lib/exporters";
+
+interface Transaction {
+  id: string;
+  date: Date;
+  description: string;
+  amount: number;
+  type: string;
+  category: string;
+  account_id?: string | null;
+  group_id?: string | null;
+  user_id?: string | null;
+  transfer_direction?: "out" | "in" | null;
+}
+
+interface ExportMenuProps {
+  // Já filtradas e ordenadas como aparecem na tela
+  transactions: Transaction[];
+  fileName: string;
+  accounts?: Account[];
+  // Listas paginadas: baixa todas as páginas dos filtros atuais antes de gerar o arquivo
+  loadAllTransactions?: () => Promise<Transaction[]>;
+  // Quantidade total com os filtros atuais, quando nem todas as páginas foram carregadas
+  totalCount?: number;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  transactions: visibleTransactions,
+  fileName,
+  accounts = [],
+  loadAllTransactions,
+  totalCount,
+}) => {
+  const { getCategoryLabel } = useCategories();
+  const [isExporting, setIsExporting] = useState(false);
+  const count = totalCount ?? visibleTransactions.length;
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    try {
+      setIsExporting(true);
+      const transactions = loadAllTransactions ? await loadAllTransactions() : visibleTransactions;
+
+      // Em transações de grupo, cada linha informa o membro que a criou
+      let getCreatorName: ((userId?: string | null) => string) | undefined;
+      if (transactions.some((t) => t.group_id)) {
+        const userIds = Array.from(new Set(transactions.map((t) => t.user_id).filter(Boolean))) as string[];
+        const profiles = await getProfiles(userIds);
+        getCreatorName = (userId) => getProfileName(profiles.find((p) => p.id === userId));
+      }
+
+      const rows = buildExportRows(transactions, {
+        getCategoryLabel: (t) => getCategoryLabel(t.category, t.type, t.group_id),
+        getAccountName: (accountId) => accounts.find((a) => a.id === accountId)?.name || "",
+        getCreatorName,
+      });
+      await downloadExport(exportFormat, rows, fileName);
+    } catch (error: any) {
+      console.error('Erro ao exportar transações:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível exportar as transações",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting || count === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? "Exportando..." : "Exportar"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{count} transações</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(exportFormatLabels) as ExportFormat[]).map((exportFormat) => (
+          <DropdownMenuItem key={exportFormat} onClick={() => handleExport(exportFormat)}>
+            {exportFormatLabels[exportFormat]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
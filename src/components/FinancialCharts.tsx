@@ -0,0 +1,198 @@
+import React from "react";
+import { format, isSameMonth } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { DEFAULT_CATEGORY_COLOR } from "@/lib/categories";
+import { getCategoryBreakdown, getMonthlyTrend, getMonthTransactions } from "@/lib/monthlyMetrics";
+
+// Totais do banco por mês, tipo e categoria; date é o mês em que contam (fatura do cartão ou regime de caixa)
+interface MonthTotal {
+  date: Date;
+  amount: number;
+  type: string;
+  category: string;
+  count: number;
+}
+
+interface FinancialChartsProps {
+  totals: MonthTotal[];
+  // Saldo acumulado antes do primeiro mês dos totais
+  openingBalance: number;
+  selectedDate: Date;
+  onCategorySelect: (category: string) => void;
+  onMonthSelect: (month: Date) => void;
+}
+
+interface CategorySlice {
+  category: string | null;
+  name: string;
+  value: number;
+  color: string;
+}
+
+// Fatias além dessas são somadas em "Outras" para o gráfico continuar legível
+const MAX_CATEGORY_SLICES = 7;
+export const TREND_MONTHS = 12;
+const OTHERS_COLOR = "#94a3b8";
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const formatCompactCurrency = (amount: number) =>
+  new Intl.NumberFormat("pt-BR", { notation: "compact", maximumFractionDigits: 1 }).format(amount);
+
+const FinancialCharts: React.FC<FinancialChartsProps> = ({
+  totals,
+  openingBalance,
+  selectedDate,
+  onCategorySelect,
+  onMonthSelect,
+}) => {
+  const { findCategory } = useCategories();
+
+  const expenses = getCategoryBreakdown(
+    getMonthTransactions(totals, selectedDate, (total) => total.date)
+  ).filter((line) => line.type === "expense");
+
+  const slices: CategorySlice[] = expenses.slice(0, MAX_CATEGORY_SLICES).map((line) => {
+    const category = findCategory(line.category, "expense");
+    return {
+      category: line.category,
+      name: category?.name || line.category,
+      value: Math.round(line.total * 100) / 100,
+      color: category?.color || DEFAULT_CATEGORY_COLOR,
+    };
+  });
+  const othersTotal = expenses.slice(MAX_CATEGORY_SLICES).reduce((sum, line) => sum + line.total, 0);
+  if (othersTotal > 0) {
+    slices.push({ category: null, name: "Outras", value: Math.round(othersTotal * 100) / 100, color: OTHERS_COLOR });
+  }
+
+  const trend = getMonthlyTrend(totals, selectedDate, TREND_MONTHS, (total) => total.date, openingBalance).map((point) => ({
+    ...point,
+    label: format(point.month, "MMM/yy", { locale: ptBR }),
+  }));
+
+  const handleSliceClick = (_: unknown, index: number) => {
+    const category = slices[index]?.category;
+    if (category) onCategorySelect(category);
+  };
+
+  const handleMonthClick = (_: unknown, index: number) => {
+    const point = trend[index];
+    if (point) onMonthSelect(point.month);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Despesas por Categoria</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {slices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma despesa neste mês.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={280}>
+              <PieChart>
+                <Pie
+                  data={slices}
+                  dataKey="value"
+                  nameKey="name"
+                  innerRadius={60}
+                  outerRadius={100}
+                  paddingAngle={2}
+                  onClick={handleSliceClick}
+                  className="cursor-pointer"
+                >
+                  {slices.map((slice) => (
+                    <Cell key={slice.category || "others"} fill={slice.color} />
+                  ))}
+                </Pie>
+                <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                <Legend />
+              </PieChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Receitas x Despesas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" fontSize={12} />
+              <YAxis tickFormatter={formatCompactCurrency} fontSize={12} width={50} />
+              <Tooltip formatter={(value: number) => formatCurrency(value)} />
+              <Legend />
+              <Bar dataKey="income" name="Receitas" fill="#16a34a" onClick={handleMonthClick} className="cursor-pointer">
+                {trend.map((point) => (
+                  <Cell key={point.label} fillOpacity={isSameMonth(point.month, selectedDate) ? 1 : 0.6} />
+                ))}
+              </Bar>
+              <Bar dataKey="expenses" name="Despesas" fill="#dc2626" onClick={handleMonthClick} className="cursor-pointer">
+                {trend.map((point) => (
+                  <Cell key={point.label} fillOpacity={isSameMonth(point.month, selectedDate) ? 1 : 0.6} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>Saldo Acumulado</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart
+              data={trend}
+              onClick={(state) => handleMonthClick(null, state?.activeTooltipIndex ?? -1)}
+              className="cursor-pointer"
+            >
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" fontSize={12} />
+              <YAxis tickFormatter={formatCompactCurrency} fontSize={12} width={50} />
+              <Tooltip formatter={(value: number) => formatCurrency(value)} />
+              <Line
+                type="monotone"
+                dataKey="cumulativeBalance"
+                name="Saldo acumulado"
+                stroke="#2563eb"
+                strokeWidth={2}
+                activeDot={{ r: 6 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default FinancialCharts;
@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from "react";
-import { format } from "date-fns";
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { Users, Plus, UserPlus, Share2 } from "lucide-react";
+import { Users, Plus, UserPlus, Share2, PiggyBank, HandCoins, Settings } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,13 +15,31 @@ import {
 } from "@/components/ui/dialog";
 import { toast } from "@/components/ui/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
-import { createFinancialGroup, getFinancialGroups, inviteToGroup, FinancialGroup as IFinancialGroup, GroupMember } from "@/services/financialGroups";
+import { createFinancialGroup, FinancialGroup as IFinancialGroup, GroupMember } from "@/services/financialGroups";
+import { useFinancialGroups, useInvalidateGroups } from "@/hooks/useFinancialGroups";
+import { Transaction, getGroupTransactions } from "@/services/transactions";
+import { Budget, getGroupBudgets } from "@/services/budgets";
+import BudgetPanel from "./BudgetPanel";
+import ExportMenu from "./ExportMenu";
+import SettleUpDialog from "./SettleUpDialog";
+import PixPaymentDialog, { PixPaymentRequest } from "./PixPaymentDialog";
+import GroupSettingsDialog from "./GroupSettingsDialog";
+import GroupInviteDialog from "./GroupInviteDialog";
+import { simplifyDebts } from "@/lib/settlements";
+import { canManageGroup, groupRoleLabels } from "@/lib/groupRoles";
+import { getGroupErrorMessage } from "@/lib/groupErrors";
+import { getProfileName } from "@/services/profiles";
 
 interface FinancialGroupProps {
   userId: string;
+  // Mês escolhido na tela inicial; receitas e despesas dos cards seguem esse mês
+  selectedDate?: Date;
   onShareGroup?: (groupId: string) => void;
 }
 
+// Transação do grupo com a data já convertida, como o painel de orçamentos e a exportação esperam
+type GroupTransaction = Omit<Transaction, "date"> & { date: Date };
+
 interface GroupSummary {
   totalIncome: number;
   totalExpenses: number;
@@ -31,46 +49,26 @@ interface GroupSummary {
 
 const FinancialGroup: React.FC<FinancialGroupProps> = ({
   userId,
+  selectedDate,
   onShareGroup,
 }) => {
   const { user } = useAuth();
   const [isCreateGroupOpen, setIsCreateGroupOpen] = useState(false);
-  const [isInviteOpen, setIsInviteOpen] = useState(false);
   const [groupName, setGroupName] = useState("");
-  const [inviteEmail, setInviteEmail] = useState("");
-  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
-  const [groups, setGroups] = useState<IFinancialGroup[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [inviteGroup, setInviteGroup] = useState<IFinancialGroup | null>(null);
+  const [budgetGroup, setBudgetGroup] = useState<IFinancialGroup | null>(null);
+  const [groupBudgets, setGroupBudgets] = useState<Budget[]>([]);
+  const [groupTransactions, setGroupTransactions] = useState<GroupTransaction[]>([]);
+  // Guarda só o id: o diálogo acompanha os saldos recarregados depois de cada acerto
+  const [settleUpGroupId, setSettleUpGroupId] = useState<string | null>(null);
+  const [pixRequest, setPixRequest] = useState<PixPaymentRequest | null>(null);
+  // Guarda só o id para o modal acompanhar o grupo recarregado depois de cada alteração
+  const [settingsGroupId, setSettingsGroupId] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (user) {
-      loadGroups();
-    }
-  }, [user]);
-
-  const loadGroups = async () => {
-    if (!user) return;
-    
-    try {
-      setIsLoading(true);
-      setError(null);
-      console.log('Iniciando carregamento de grupos para usuário:', user.id);
-      const data = await getFinancialGroups(user.id);
-      console.log('Grupos carregados:', data);
-      setGroups(data);
-    } catch (error: any) {
-      console.error('Erro ao carregar grupos:', error);
-      setError(error.message || 'Não foi possível carregar os grupos');
-      toast({
-        title: "Erro",
-        description: error.message || "Não foi possível carregar os grupos.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  // Trocar de mês só atualiza os totais, sem voltar para a tela de carregamento
+  const groupsQuery = useFinancialGroups(user?.id, selectedDate);
+  const groups = groupsQuery.data || [];
+  const invalidateGroups = useInvalidateGroups();
 
   const handleCreateGroup = async () => {
     if (!user || !groupName.trim()) {
@@ -88,7 +86,7 @@ const FinancialGroup: React.FC<FinancialGroupProps> = ({
       console.log('Grupo criado:', newGroup);
       
       // Recarregar todos os grupos após criar um novo
-      await loadGroups();
+      await invalidateGroups();
       
       toast({
         title: "Sucesso",
@@ -101,38 +99,28 @@ const FinancialGroup: React.FC<FinancialGroupProps> = ({
       console.error('Erro ao criar grupo:', error);
       toast({
         title: "Erro",
-        description: error.message || "Não foi possível criar o grupo",
+        description: getGroupErrorMessage(error, "Não foi possível criar o grupo"),
         variant: "destructive",
       });
     }
   };
 
-  const handleInviteMember = async () => {
-    if (!selectedGroup || !inviteEmail.trim()) {
-      toast({
-        title: "Erro",
-        description: "Por favor, insira um email válido",
-        variant: "destructive",
-      });
-      return;
-    }
-
+  const openGroupBudgets = async (group: IFinancialGroup) => {
     try {
-      await inviteToGroup(selectedGroup, inviteEmail);
-      
-      toast({
-        title: "Sucesso",
-        description: "Convite enviado com sucesso",
-      });
-      
-      setIsInviteOpen(false);
-      setInviteEmail("");
-      loadGroups(); // Recarregar grupos para atualizar a lista de membros
-    } catch (error) {
-      console.error('Erro ao convidar membro:', error);
+      const [budgets, transactions] = await Promise.all([
+        getGroupBudgets(group.id),
+        getGroupTransactions(group.id),
+      ]);
+      setGroupBudgets(budgets);
+      setGroupTransactions(
+        transactions.map((transaction) => ({ ...transaction, date: parseISO(transaction.date) }))
+      );
+      setBudgetGroup(group);
+    } catch (error: any) {
+      console.error('Erro ao carregar orçamentos do grupo:', error);
       toast({
         title: "Erro",
-        description: "Não foi possível enviar o convite",
+        description: error.message || "Não foi possível carregar os orçamentos do grupo",
         variant: "destructive",
       });
     }
@@ -145,7 +133,32 @@ const FinancialGroup: React.FC<FinancialGroupProps> = ({
     }).format(amount);
   };
 
-  if (isLoading) {
+  const settingsGroup = groups.find((group) => group.id === settingsGroupId) || null;
+
+  const getMyRole = (group: IFinancialGroup) =>
+    group.group_members?.find((member) => member.user_id === user?.id)?.role;
+
+  const getMemberName = (group: IFinancialGroup, memberId: string) => {
+    if (memberId === user?.id) return "Você";
+    return getProfileName(group.group_members?.find((member) => member.user_id === memberId)?.user || undefined);
+  };
+
+  // Clicar no membro abre o PIX para pagá-lo, já com o valor que você deve a ele no acerto sugerido
+  const openMemberPix = (group: IFinancialGroup, memberId: string) => {
+    const member = group.group_members?.find((m) => m.user_id === memberId);
+    if (!member || memberId === user?.id) return;
+
+    const payment = simplifyDebts(group.summary?.memberBalances || []).find(
+      (p) => p.from === user?.id && p.to === memberId
+    );
+    setPixRequest({
+      receiver: { ...member.user, id: memberId },
+      amount: payment?.amount,
+      description: `Acerto ${group.name}`,
+    });
+  };
+
+  if (groupsQuery.isLoading) {
     return (
       <div className="flex items-center justify-center p-8">
         <div className="text-center">
@@ -156,11 +169,11 @@ const FinancialGroup: React.FC<FinancialGroupProps> = ({
     );
   }
 
-  if (error) {
+  if (groupsQuery.isError) {
     return (
       <div className="p-8 text-center">
-        <p className="text-red-500 mb-4">{error}</p>
-        <Button onClick={loadGroups}>Tentar novamente</Button>
+        <p className="text-red-500 mb-4">{groupsQuery.error.message || 'Não foi possível carregar os grupos'}</p>
+        <Button onClick={() => groupsQuery.refetch()}>Tentar novamente</Button>
       </div>
     );
   }
@@ -188,16 +201,38 @@ const FinancialGroup: React.FC<FinancialGroupProps> = ({
               <CardHeader className="pb-2">
                 <div className="flex justify-between items-start">
                   <CardTitle className="text-lg">{group.name}</CardTitle>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => {
-                      setSelectedGroup(group.id);
-                      setIsInviteOpen(true);
-                    }}
-                  >
-                    <UserPlus className="h-4 w-4" />
-                  </Button>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setSettleUpGroupId(group.id)}
+                    >
+                      <HandCoins className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openGroupBudgets(group)}
+                    >
+                      <PiggyBank className="h-4 w-4" />
+                    </Button>
+                    {canManageGroup(getMyRole(group)) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setInviteGroup(group)}
+                      >
+                        <UserPlus className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setSettingsGroupId(group.id)}
+                    >
+                      <Settings className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -210,6 +245,11 @@ const FinancialGroup: React.FC<FinancialGroupProps> = ({
                   </div>
 
                   <div className="space-y-2">
+                    {selectedDate && (
+                      <span className="text-sm font-medium capitalize">
+                        {format(selectedDate, "MMMM yyyy", { locale: ptBR })}
+                      </span>
+                    )}
                     <div className="flex justify-between items-center">
                       <span className="text-sm text-muted-foreground">Receitas</span>
                       <span className="font-medium text-green-600">
@@ -222,14 +262,26 @@ const FinancialGroup: React.FC<FinancialGroupProps> = ({
                         {formatCurrency(group.summary?.totalExpenses || 0)}
                       </span>
                     </div>
-                    <div className="flex justify-between items-center pt-2 border-t">
-                      <span className="text-sm font-medium">Saldo</span>
-                      <span className={`font-medium ${
-                        (group.summary?.balance || 0) >= 0 ? "text-green-600" : "text-red-600"
-                      }`}>
-                        {formatCurrency(group.summary?.balance || 0)}
-                      </span>
-                    </div>
+                  </div>
+
+                  <div className="space-y-2 pt-2 border-t">
+                    <span className="text-sm font-medium">Saldo por membro</span>
+                    {(group.summary?.memberBalances || []).map((balance) => (
+                      <div key={balance.user_id} className="flex justify-between items-center gap-2">
+                        <span className="text-sm text-muted-foreground truncate">
+                          {getMemberName(group, balance.user_id)}
+                        </span>
+                        <span className={`text-sm font-medium whitespace-nowrap ${
+                          balance.net > 0 ? "text-green-600" : balance.net < 0 ? "text-red-600" : "text-muted-foreground"
+                        }`}>
+                          {balance.net > 0
+                            ? `a receber ${formatCurrency(balance.net)}`
+                            : balance.net < 0
+                            ? `deve ${formatCurrency(Math.abs(balance.net))}`
+                            : "quite"}
+                        </span>
+                      </div>
+                    ))}
                   </div>
 
                   <div className="flex flex-wrap gap-2">
@@ -237,8 +289,15 @@ const FinancialGroup: React.FC<FinancialGroupProps> = ({
                       <Badge
                         key={member.user_id}
                         variant={member.role === "owner" ? "default" : "secondary"}
+                        className={member.user_id !== user?.id ? "cursor-pointer" : ""}
+                        title={
+                          member.user_id !== user?.id
+                            ? `${groupRoleLabels[member.role]} — pagar com PIX`
+                            : groupRoleLabels[member.role]
+                        }
+                        onClick={() => openMemberPix(group, member.user_id)}
                       >
-                        {member.users?.user_metadata?.name || member.users?.email}
+                        {getMemberName(group, member.user_id)}
                       </Badge>
                     ))}
                   </div>
@@ -274,31 +333,55 @@ const FinancialGroup: React.FC<FinancialGroupProps> = ({
         </DialogContent>
       </Dialog>
 
-      {/* Modal de Convite */}
-      <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Convidar Membro</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Email do Membro</label>
-              <Input
-                type="email"
-                placeholder="email@exemplo.com"
-                value={inviteEmail}
-                onChange={(e) => setInviteEmail(e.target.value)}
+      {/* Modal de Orçamentos do Grupo */}
+      <Dialog open={!!budgetGroup} onOpenChange={(open) => !open && setBudgetGroup(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader className="flex flex-row items-center justify-between space-y-0 pr-6">
+            <DialogTitle>Orçamentos do Grupo {budgetGroup?.name}</DialogTitle>
+            {budgetGroup && (
+              <ExportMenu
+                transactions={groupTransactions}
+                fileName={`transacoes-grupo-${format(new Date(), "yyyy-MM-dd")}`}
               />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setIsInviteOpen(false)}>
-              Cancelar
-            </Button>
-            <Button onClick={handleInviteMember}>Enviar Convite</Button>
-          </DialogFooter>
+            )}
+          </DialogHeader>
+          {budgetGroup && (
+            <BudgetPanel
+              budgets={groupBudgets}
+              transactions={groupTransactions}
+              selectedDate={new Date()}
+              groupId={budgetGroup.id}
+              groupRole={getMyRole(budgetGroup)}
+              onBudgetsChange={setGroupBudgets}
+            />
+          )}
         </DialogContent>
       </Dialog>
+
+      {/* Modal de Acerto de Contas */}
+      <SettleUpDialog
+        group={groups.find((group) => group.id === settleUpGroupId) || null}
+        onOpenChange={(open) => !open && setSettleUpGroupId(null)}
+        onSettlementsChange={invalidateGroups}
+      />
+
+      <PixPaymentDialog
+        request={pixRequest}
+        onOpenChange={(open) => !open && setPixRequest(null)}
+      />
+
+      {/* Modal de Configurações do Grupo */}
+      <GroupSettingsDialog
+        group={settingsGroup}
+        onOpenChange={(open) => !open && setSettingsGroupId(null)}
+        onGroupChange={invalidateGroups}
+      />
+
+      {/* Modal de Convite */}
+      <GroupInviteDialog
+        group={inviteGroup}
+        onOpenChange={(open) => !open && setInviteGroup(null)}
+      />
     </div>
   );
 };
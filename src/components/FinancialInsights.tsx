@@ -1,9 +1,14 @@
 import React, { useMemo } from "react";
 import { format, subMonths, isSameMonth } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { AlertCircle, TrendingUp, TrendingDown, Lightbulb, AlertTriangle, Info } from "lucide-react";
+import { AlertCircle, TrendingUp, TrendingDown, Lightbulb, AlertTriangle, Info, Target } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { Budget } from "@/services/budgets";
+import { calculateBudgetProgress } from "@/lib/budgets";
+import { Goal, GoalContribution } from "@/services/goals";
+import { calculateGoalsProgress } from "@/lib/goals";
 
 interface Transaction {
   id: string;
@@ -11,21 +16,41 @@ interface Transaction {
   description: string;
   amount: number;
   category: string;
-  type: "income" | "expense";
+  type: "income" | "expense" | "transfer";
   is_recurring?: boolean;
   recurring_start_date?: Date;
   recurring_end_date?: Date;
+  series_id?: string;
+  group_id?: string;
+}
+
+interface BudgetTotal {
+  date: Date;
+  amount: number;
+  type: string;
+  category: string;
 }
 
 interface FinancialInsightsProps {
   transactions: Transaction[];
   selectedDate: Date;
+  budgets?: Budget[];
+  // Gastos pessoais por mês e categoria usados nos orçamentos (o rollover olha meses fora da janela carregada)
+  budgetTotals?: BudgetTotal[];
+  goals?: Goal[];
+  goalContributions?: GoalContribution[];
 }
 
 const FinancialInsights: React.FC<FinancialInsightsProps> = ({
   transactions,
   selectedDate,
+  budgets = [],
+  budgetTotals,
+  goals = [],
+  goalContributions = [],
 }) => {
+  const { categories, getCategoryLabel, getCategoryKeys } = useCategories();
+
   const insights = useMemo(() => {
     const currentMonthTransactions = transactions.filter((t) =>
       isSameMonth(t.date, selectedDate)
@@ -56,7 +81,7 @@ const FinancialInsights: React.FC<FinancialInsightsProps> = ({
         title: "Categoria com Maior Gasto",
         description: `Você gastou R$ ${highestExpenseCategory[1].toFixed(
           2
-        )} em ${highestExpenseCategory[0]} este mês. Considere revisar estes gastos.`,
+        )} em ${getCategoryLabel(highestExpenseCategory[0], "expense")} este mês. Considere revisar estes gastos.`,
         icon: AlertCircle,
       });
     }
@@ -114,9 +139,9 @@ const FinancialInsights: React.FC<FinancialInsightsProps> = ({
       });
     }
 
-    // Análise de gastos recorrentes
+    // Análise de gastos recorrentes (cada ocorrência de uma série é uma transação do mês)
     const recurringExpenses = currentMonthTransactions.filter(
-      (t) => t.type === "expense" && t.is_recurring
+      (t) => t.type === "expense" && (t.is_recurring || t.series_id)
     );
 
     if (recurringExpenses.length > 0) {
@@ -138,8 +163,66 @@ const FinancialInsights: React.FC<FinancialInsightsProps> = ({
       }
     }
 
+    // Alertas de orçamento: a partir de 80% e ao passar de 100% do limite
+    const budgetProgress = calculateBudgetProgress(
+      budgets,
+      budgetTotals || transactions.filter((t) => !t.group_id),
+      selectedDate,
+      (key) => getCategoryKeys(key, "expense"),
+    );
+
+    budgetProgress.forEach(({ category, spent, available, percentage, status }) => {
+      const label = getCategoryLabel(category, "expense");
+      if (status === "exceeded") {
+        insightsList.push({
+          type: "alert",
+          title: `Orçamento Estourado: ${label}`,
+          description: `Você gastou R$ ${spent.toFixed(2)} de R$ ${available.toFixed(2)} (${percentage.toFixed(
+            0
+          )}%) em ${label} este mês.`,
+          icon: AlertCircle,
+        });
+      } else if (status === "warning") {
+        insightsList.push({
+          type: "warning",
+          title: `Orçamento Quase no Limite: ${label}`,
+          description: `Você já usou ${percentage.toFixed(0)}% do orçamento de ${label}. Restam R$ ${(
+            available - spent
+          ).toFixed(2)} para o mês.`,
+          icon: AlertTriangle,
+        });
+      }
+    });
+
+    // Metas que ficaram para trás no ritmo de aportes ou que venceram sem chegar ao valor alvo
+    calculateGoalsProgress(goals, goalContributions, new Date()).forEach(
+      ({ goal, saved, requiredMonthly, monthsLeft, status }) => {
+        if (status === "behind") {
+          insightsList.push({
+            type: "warning",
+            title: `Meta Atrasada: ${goal.name}`,
+            description: `Você juntou R$ ${saved.toFixed(2)} de R$ ${Number(goal.target_amount).toFixed(
+              2
+            )}. Para chegar lá no prazo, aporte R$ ${requiredMonthly.toFixed(2)} por mês nos próximos ${monthsLeft} ${
+              monthsLeft === 1 ? "mês" : "meses"
+            }.`,
+            icon: Target,
+          });
+        } else if (status === "overdue") {
+          insightsList.push({
+            type: "alert",
+            title: `Meta Vencida: ${goal.name}`,
+            description: `A data alvo passou e ainda faltam R$ ${requiredMonthly.toFixed(
+              2
+            )} para completar a meta. Considere adiar a data ou reforçar os aportes.`,
+            icon: Target,
+          });
+        }
+      }
+    );
+
     return insightsList;
-  }, [transactions, selectedDate]);
+  }, [transactions, selectedDate, categories, budgets, budgetTotals, goals, goalContributions]);
 
   if (insights.length === 0) {
     return null;
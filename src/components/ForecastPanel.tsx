@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { format, isBefore, parseISO, startOfMonth, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AlertTriangle } from "lucide-react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { Account } from "@/services/accounts";
+import { useTransactionBalance, useTransactions } from "@/hooks/useTransactions";
+import { AccountingRegime, CARD_LOOKBACK_MONTHS } from "@/lib/creditCard";
+import { FORECAST_HORIZONS, ForecastStatus, TRAILING_MONTHS, calculateForecast } from "@/lib/forecast";
+
+interface Transaction {
+  id: string;
+  date: Date;
+  amount: number;
+  type: string;
+  category: string;
+  is_recurring?: boolean;
+  recurring_start_date?: Date;
+  recurring_end_date?: Date;
+  series_id?: string;
+  installment_purchase_id?: string;
+  account_id?: string;
+  transfer_direction?: "out" | "in";
+  statement_month?: string;
+}
+
+interface ForecastPanelProps {
+  accounts: Account[];
+  regime: AccountingRegime;
+  getReportingDate: (transaction: Transaction) => Date | null;
+}
+
+const statusRowClasses: Record<ForecastStatus, string> = {
+  ok: "",
+  below_cushion: "bg-yellow-50",
+  negative: "bg-red-50",
+};
+
+const statusDotColors: Record<ForecastStatus, string> = {
+  ok: "#2563eb",
+  below_cushion: "#eab308",
+  negative: "#dc2626",
+};
+
+// A reserva mínima é uma preferência de tela, guardada por usuário no navegador
+const getCushionStorageKey = (userId?: string) => `forecast-safety-cushion:${userId || "anonymous"}`;
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const formatCompactCurrency = (amount: number) =>
+  new Intl.NumberFormat("pt-BR", { notation: "compact", maximumFractionDigits: 1 }).format(amount);
+
+const ForecastPanel: React.FC<ForecastPanelProps> = ({ accounts, regime, getReportingDate }) => {
+  const { user } = useAuth();
+  const [horizon, setHorizon] = useState(6);
+  const [cushionInput, setCushionInput] = useState("");
+
+  // Só a janela da média dos gastos avulsos em diante; o que vem antes chega somado do banco
+  const windowStart = startOfMonth(subMonths(new Date(), TRAILING_MONTHS));
+  const windowStartKey = format(windowStart, "yyyy-MM-dd");
+
+  const { data } = useTransactions(user?.id, {
+    startDate: format(subMonths(windowStart, CARD_LOOKBACK_MONTHS), "yyyy-MM-dd"),
+    groupId: null,
+  });
+  // Efeito no saldo de tudo que conta antes da janela, calculado pelo banco
+  const { data: balanceBeforeWindow = 0 } = useTransactionBalance(
+    windowStartKey,
+    { regime, personalOnly: true },
+    !!user,
+  );
+
+  const transactions = useMemo<Transaction[]>(
+    () =>
+      (data || []).map((transaction) => ({
+        ...transaction,
+        date: parseISO(transaction.date),
+        recurring_start_date: transaction.recurring_start_date ? parseISO(transaction.recurring_start_date) : undefined,
+        recurring_end_date: transaction.recurring_end_date ? parseISO(transaction.recurring_end_date) : undefined,
+      })),
+    [data]
+  );
+
+  useEffect(() => {
+    setCushionInput(localStorage.getItem(getCushionStorageKey(user?.id)) || "");
+  }, [user?.id]);
+
+  const handleCushionChange = (value: string) => {
+    const sanitized = value.replace(/[^0-9.,]/g, "");
+    setCushionInput(sanitized);
+    localStorage.setItem(getCushionStorageKey(user?.id), sanitized);
+  };
+
+  const safetyCushion = parseFloat(cushionInput.replace(",", ".")) || 0;
+  // Linhas que contam antes da janela já estão no saldo vindo do banco
+  const windowTransactions = transactions.filter((transaction) => {
+    const date = getReportingDate(transaction);
+    return !!date && !isBefore(date, windowStart);
+  });
+  const forecast = calculateForecast({
+    transactions: windowTransactions,
+    openingBalance:
+      accounts.reduce((sum, account) => sum + Number(account.opening_balance), 0) + balanceBeforeWindow,
+    today: new Date(),
+    months: horizon,
+    safetyCushion,
+    getDate: getReportingDate,
+  });
+
+  const chartData = forecast.months.map((month) => ({
+    ...month,
+    label: format(month.month, "MMM/yy", { locale: ptBR }),
+  }));
+  const alerts = forecast.months.filter((month) => month.status !== "ok");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 space-y-0 pb-2">
+        <div>
+          <CardTitle>Previsão de Caixa</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Saldo atual: {formatCurrency(forecast.startingBalance)}
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="forecast-cushion" className="text-xs">Reserva mínima</Label>
+            <Input
+              id="forecast-cushion"
+              value={cushionInput}
+              onChange={(e) => handleCushionChange(e.target.value)}
+              placeholder="0,00"
+              className="w-28 text-right"
+            />
+          </div>
+          <Select value={String(horizon)} onValueChange={(value) => setHorizon(Number(value))}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORECAST_HORIZONS.map((months) => (
+                <SelectItem key={months} value={String(months)}>
+                  {months} meses
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {alerts.length > 0 && (
+          <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              {alerts.some((month) => month.status === "negative")
+                ? `Saldo previsto negativo em ${format(
+                    alerts.find((month) => month.status === "negative")!.month,
+                    "MMMM 'de' yyyy",
+                    { locale: ptBR }
+                  )}.`
+                : `Saldo previsto abaixo da reserva mínima em ${alerts.length} ${alerts.length === 1 ? "mês" : "meses"}.`}
+            </span>
+          </div>
+        )}
+
+        <ResponsiveContainer width="100%" height={240}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" fontSize={12} />
+            <YAxis tickFormatter={formatCompactCurrency} fontSize={12} width={50} />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} />
+            <ReferenceLine y={0} stroke="#dc2626" strokeDasharray="4 4" />
+            {safetyCushion > 0 && (
+              <ReferenceLine y={safetyCushion} stroke="#eab308" strokeDasharray="4 4" label="Reserva" />
+            )}
+            <Line
+              type="monotone"
+              dataKey="balance"
+              name="Saldo previsto"
+              stroke="#2563eb"
+              strokeWidth={2}
+              dot={({ cx, cy, payload }) => (
+                <circle
+                  key={payload.label}
+                  cx={cx}
+                  cy={cy}
+                  r={4}
+                  fill={statusDotColors[payload.status as ForecastStatus]}
+                />
+              )}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Mês</TableHead>
+              <TableHead className="text-right">Receitas previstas</TableHead>
+              <TableHead className="text-right">Despesas previstas</TableHead>
+              <TableHead className="text-right">Gastos variáveis</TableHead>
+              <TableHead className="text-right">Saldo no fim do mês</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {forecast.months.map((month) => (
+              <TableRow key={month.month.toISOString()} className={statusRowClasses[month.status]}>
+                <TableCell className="capitalize">
+                  {format(month.month, "MMMM 'de' yyyy", { locale: ptBR })}
+                </TableCell>
+                <TableCell className="text-right text-green-600">{formatCurrency(month.scheduledIncome)}</TableCell>
+                <TableCell className="text-right text-red-600">{formatCurrency(month.scheduledExpenses)}</TableCell>
+                <TableCell className="text-right text-red-600">{formatCurrency(month.variableExpenses)}</TableCell>
+                <TableCell className={`text-right font-medium ${month.balance < 0 ? "text-red-600" : ""}`}>
+                  {formatCurrency(month.balance)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ForecastPanel;
@@ -0,0 +1,484 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Calendar as CalendarIcon, Edit, History, PiggyBank, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Account } from "@/services/accounts";
+import {
+  Goal,
+  GoalContribution,
+  createGoal,
+  createGoalContribution,
+  deleteGoal,
+  deleteGoalContribution,
+  updateGoal,
+} from "@/services/goals";
+import { GoalStatus, calculateGoalsProgress } from "@/lib/goals";
+import { attachAccountBalances } from "@/lib/balances";
+
+interface GoalsPanelProps {
+  goals: Goal[];
+  contributions: GoalContribution[];
+  accounts: Account[];
+  // Saldo atual de cada conta, calculado pelo banco
+  balances: Record<string, number>;
+  onGoalsChange: (goals: Goal[]) => void;
+  onContributionsChange: (contributions: GoalContribution[]) => void;
+}
+
+const NO_ACCOUNT = "none";
+
+const statusLabels: Record<GoalStatus, string> = {
+  on_track: "No ritmo",
+  behind: "Atrasada",
+  overdue: "Vencida",
+  completed: "Concluída",
+};
+
+const statusBadgeClasses: Record<GoalStatus, string> = {
+  on_track: "bg-blue-100 text-blue-800",
+  behind: "bg-yellow-100 text-yellow-800",
+  overdue: "bg-red-100 text-red-800",
+  completed: "bg-green-100 text-green-800",
+};
+
+const statusColors: Record<GoalStatus, string> = {
+  on_track: "[&>div]:bg-blue-600",
+  behind: "[&>div]:bg-yellow-500",
+  overdue: "[&>div]:bg-red-600",
+  completed: "[&>div]:bg-green-600",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const parseAmount = (value: string) => parseFloat(value.replace(",", "."));
+
+const GoalsPanel: React.FC<GoalsPanelProps> = ({
+  goals,
+  contributions,
+  accounts,
+  balances,
+  onGoalsChange,
+  onContributionsChange,
+}) => {
+  const { user } = useAuth();
+  const [isGoalDialogOpen, setIsGoalDialogOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [name, setName] = useState("");
+  const [targetAmount, setTargetAmount] = useState("");
+  const [targetDate, setTargetDate] = useState<Date | undefined>();
+  const [accountId, setAccountId] = useState(NO_ACCOUNT);
+  const [isTargetCalendarOpen, setIsTargetCalendarOpen] = useState(false);
+
+  const [contributionGoal, setContributionGoal] = useState<Goal | null>(null);
+  const [contributionAmount, setContributionAmount] = useState("");
+  const [contributionDate, setContributionDate] = useState(new Date());
+  const [contributionNote, setContributionNote] = useState("");
+  const [isWithdrawal, setIsWithdrawal] = useState(false);
+  const [isContributionCalendarOpen, setIsContributionCalendarOpen] = useState(false);
+
+  const [historyGoal, setHistoryGoal] = useState<Goal | null>(null);
+
+  const progress = calculateGoalsProgress(goals, contributions, new Date());
+  const accountBalances = attachAccountBalances(accounts, balances);
+
+  const getAccountBalance = (id?: string | null) => accountBalances.find(({ account }) => account.id === id);
+
+  const openGoalDialog = (goal: Goal | null) => {
+    setEditingGoal(goal);
+    setName(goal?.name || "");
+    setTargetAmount(goal ? String(goal.target_amount) : "");
+    setTargetDate(goal ? parseISO(goal.target_date) : undefined);
+    setAccountId(goal?.account_id || NO_ACCOUNT);
+    setIsGoalDialogOpen(true);
+  };
+
+  const openContributionDialog = (goal: Goal) => {
+    setContributionGoal(goal);
+    setContributionAmount("");
+    setContributionDate(new Date());
+    setContributionNote("");
+    setIsWithdrawal(false);
+  };
+
+  const handleSaveGoal = async () => {
+    const parsedAmount = parseAmount(targetAmount);
+    if (!user || !name.trim() || !targetDate || isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast({
+        title: "Erro",
+        description: "Informe o nome, o valor e a data da meta",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const changes = {
+      name: name.trim(),
+      target_amount: parsedAmount,
+      target_date: format(targetDate, "yyyy-MM-dd"),
+      account_id: accountId === NO_ACCOUNT ? null : accountId,
+    };
+
+    try {
+      if (editingGoal) {
+        const updated = await updateGoal(editingGoal.id, changes);
+        onGoalsChange(goals.map((g) => (g.id === updated.id ? updated : g)));
+      } else {
+        const created = await createGoal({ ...changes, user_id: user.id });
+        onGoalsChange([...goals, created]);
+      }
+
+      toast({
+        title: "Sucesso",
+        description: "Meta salva com sucesso",
+      });
+      setIsGoalDialogOpen(false);
+    } catch (error: any) {
+      console.error('Erro ao salvar meta:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível salvar a meta",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteGoal = async (goal: Goal) => {
+    try {
+      await deleteGoal(goal.id);
+      onGoalsChange(goals.filter((g) => g.id !== goal.id));
+      onContributionsChange(contributions.filter((c) => c.goal_id !== goal.id));
+    } catch (error: any) {
+      console.error('Erro ao excluir meta:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível excluir a meta",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveContribution = async () => {
+    const parsedAmount = parseAmount(contributionAmount);
+    if (!user || !contributionGoal || isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast({
+        title: "Erro",
+        description: "Informe um valor válido",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const created = await createGoalContribution({
+        goal_id: contributionGoal.id,
+        user_id: user.id,
+        amount: isWithdrawal ? -parsedAmount : parsedAmount,
+        date: format(contributionDate, "yyyy-MM-dd"),
+        note: contributionNote.trim() || null,
+      });
+      onContributionsChange([created, ...contributions]);
+
+      toast({
+        title: "Sucesso",
+        description: isWithdrawal ? "Resgate registrado com sucesso" : "Aporte registrado com sucesso",
+      });
+      setContributionGoal(null);
+    } catch (error: any) {
+      console.error('Erro ao registrar aporte:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível registrar o aporte",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteContribution = async (contribution: GoalContribution) => {
+    try {
+      await deleteGoalContribution(contribution.id);
+      onContributionsChange(contributions.filter((c) => c.id !== contribution.id));
+    } catch (error: any) {
+      console.error('Erro ao excluir aporte:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível excluir o aporte",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const historyContributions = historyGoal
+    ? contributions
+        .filter((c) => c.goal_id === historyGoal.id)
+        .sort((a, b) => b.date.localeCompare(a.date))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle>Metas de Economia</CardTitle>
+        <Button size="sm" variant="outline" onClick={() => openGoalDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Meta
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {progress.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Crie metas para a viagem, o carro ou a reserva de emergência e acompanhe os aportes.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {progress.map(({ goal, saved, percentage, requiredMonthly, monthsLeft, status }) => {
+              const linkedAccount = getAccountBalance(goal.account_id);
+              return (
+                <div key={goal.id} className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-sm font-medium truncate">{goal.name}</span>
+                      <Badge variant="secondary" className={statusBadgeClasses[status]}>
+                        {statusLabels[status]}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openContributionDialog(goal)}>
+                        <PiggyBank className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setHistoryGoal(goal)}>
+                        <History className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openGoalDialog(goal)}>
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDeleteGoal(goal)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Progress value={Math.min(percentage, 100)} className={statusColors[status]} />
+                  <div className="flex flex-wrap justify-between gap-x-4 text-xs text-muted-foreground">
+                    <span>
+                      {formatCurrency(saved)} de {formatCurrency(Number(goal.target_amount))} ({percentage.toFixed(0)}%)
+                    </span>
+                    <span>Até {format(parseISO(goal.target_date), "dd/MM/yyyy")}</span>
+                  </div>
+                  {status !== "completed" && (
+                    <p className="text-xs">
+                      {monthsLeft > 0
+                        ? `Aporte necessário: ${formatCurrency(requiredMonthly)}/mês nos próximos ${monthsLeft} ${
+                            monthsLeft === 1 ? "mês" : "meses"
+                          }`
+                        : `Faltam ${formatCurrency(requiredMonthly)} e a data alvo já passou`}
+                    </p>
+                  )}
+                  {linkedAccount && (
+                    <p className="text-xs text-muted-foreground">
+                      Saldo em {linkedAccount.account.name}: {formatCurrency(linkedAccount.balance)}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Modal de Meta */}
+      <Dialog open={isGoalDialogOpen} onOpenChange={setIsGoalDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingGoal ? "Editar Meta" : "Nova Meta"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: Reserva de emergência" />
+            </div>
+            <div className="space-y-2">
+              <Label>Valor alvo</Label>
+              <Input
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value.replace(/[^0-9.,]/g, ""))}
+                placeholder="0,00"
+                className="text-right"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Data alvo</Label>
+              <Popover open={isTargetCalendarOpen} onOpenChange={setIsTargetCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {targetDate ? format(targetDate, "dd/MM/yyyy") : "Selecione uma data"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={targetDate}
+                    onSelect={(date) => {
+                      setTargetDate(date);
+                      setIsTargetCalendarOpen(false);
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <Label>Conta vinculada (opcional)</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ACCOUNT}>Nenhuma</SelectItem>
+                  {accounts
+                    .filter((account) => account.type !== "credit_card")
+                    .map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsGoalDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveGoal}>Salvar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Modal de Aporte */}
+      <Dialog open={!!contributionGoal} onOpenChange={(open) => !open && setContributionGoal(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {isWithdrawal ? "Resgatar de" : "Aportar em"} {contributionGoal?.name}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Valor</Label>
+              <Input
+                value={contributionAmount}
+                onChange={(e) => setContributionAmount(e.target.value.replace(/[^0-9.,]/g, ""))}
+                placeholder="0,00"
+                className="text-right"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Data</Label>
+              <Popover open={isContributionCalendarOpen} onOpenChange={setIsContributionCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(contributionDate, "dd/MM/yyyy")}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={contributionDate}
+                    onSelect={(date) => {
+                      setContributionDate(date || new Date());
+                      setIsContributionCalendarOpen(false);
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <Label>Observação (opcional)</Label>
+              <Input value={contributionNote} onChange={(e) => setContributionNote(e.target.value)} />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="goal-withdrawal" checked={isWithdrawal} onCheckedChange={setIsWithdrawal} />
+              <Label htmlFor="goal-withdrawal">É um resgate</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setContributionGoal(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveContribution}>Salvar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Histórico de Aportes */}
+      <Dialog open={!!historyGoal} onOpenChange={(open) => !open && setHistoryGoal(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Aportes em {historyGoal?.name}</DialogTitle>
+          </DialogHeader>
+          {historyContributions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">Nenhum aporte registrado.</p>
+          ) : (
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto py-2">
+              {historyContributions.map((contribution) => (
+                <div key={contribution.id} className="flex items-center justify-between gap-2 border-b pb-2">
+                  <div className="min-w-0">
+                    <p className="text-sm">{format(parseISO(contribution.date), "dd/MM/yyyy")}</p>
+                    {contribution.note && (
+                      <p className="text-xs text-muted-foreground truncate">{contribution.note}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className={`text-sm ${Number(contribution.amount) < 0 ? "text-red-600" : "text-green-600"}`}>
+                      {formatCurrency(Number(contribution.amount))}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => handleDeleteContribution(contribution)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default GoalsPanel;
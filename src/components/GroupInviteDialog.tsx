@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Copy, Link2, Mail, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { FinancialGroup } from "@/services/financialGroups";
+import {
+  GroupInvitation,
+  InvitationStatus,
+  createGroupInvitation,
+  deleteGroupInvitation,
+  getGroupInvitations,
+  getInvitationLink,
+  getInvitationStatus,
+} from "@/services/invitations";
+import { ASSIGNABLE_ROLES, GroupRole, groupRoleLabels } from "@/lib/groupRoles";
+import { getGroupErrorMessage } from "@/lib/groupErrors";
+
+interface GroupInviteDialogProps {
+  group: FinancialGroup | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const statusLabels: Record<InvitationStatus, string> = {
+  pending: "Pendente",
+  accepted: "Aceito",
+  declined: "Recusado",
+  expired: "Expirado",
+};
+
+const statusVariants: Record<InvitationStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  accepted: "secondary",
+  declined: "destructive",
+  expired: "outline",
+};
+
+const GroupInviteDialog: React.FC<GroupInviteDialogProps> = ({ group, onOpenChange }) => {
+  const { user } = useAuth();
+  const [invitations, setInvitations] = useState<GroupInvitation[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<GroupRole>("member");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isOwner = group?.group_members?.find((member) => member.user_id === user?.id)?.role === "owner";
+
+  useEffect(() => {
+    const loadInvitations = async () => {
+      if (!group) return;
+      setEmail("");
+      setRole("member");
+      try {
+        setInvitations(await getGroupInvitations(group.id));
+      } catch (error) {
+        console.error('Erro ao carregar convites do grupo:', error);
+        toast({
+          title: "Erro",
+          description: "Não foi possível carregar os convites do grupo",
+          variant: "destructive",
+        });
+      }
+    };
+
+    loadInvitations();
+  }, [group?.id]);
+
+  const copyLink = async (invitation: GroupInvitation) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationLink(invitation.token));
+      toast({
+        title: "Sucesso",
+        description: "Link do convite copiado",
+      });
+    } catch (error) {
+      console.error('Erro ao copiar link do convite:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível copiar o link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Sem e-mail o convite vale para quem abrir o link primeiro, inclusive quem ainda vai criar a conta
+  const handleCreateInvitation = async (byLink: boolean) => {
+    if (!group || !user) return;
+
+    const trimmedEmail = email.trim();
+    if (!byLink && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail)) {
+      toast({
+        title: "Erro",
+        description: "Por favor, insira um email válido",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const invitation = await createGroupInvitation({
+        group_id: group.id,
+        email: byLink ? null : trimmedEmail,
+        role: role as GroupInvitation["role"],
+      });
+      setInvitations((current) => [invitation, ...current]);
+      setEmail("");
+
+      if (byLink) {
+        await copyLink(invitation);
+      } else {
+        toast({
+          title: "Sucesso",
+          description: "Convite criado. A pessoa verá o convite ao entrar com este e-mail",
+        });
+      }
+    } catch (error: any) {
+      console.error('Erro ao criar convite:', error);
+      toast({
+        title: "Erro",
+        description: getGroupErrorMessage(error, "Não foi possível criar o convite"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteInvitation = async (invitation: GroupInvitation) => {
+    try {
+      await deleteGroupInvitation(invitation.id);
+      setInvitations((current) => current.filter((item) => item.id !== invitation.id));
+    } catch (error: any) {
+      console.error('Erro ao cancelar convite:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível cancelar o convite",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!group} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Convidar para {group?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_150px] gap-2">
+              <div className="space-y-2">
+                <Label>Email</Label>
+                <Input
+                  type="email"
+                  placeholder="email@exemplo.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Papel</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as GroupRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASSIGNABLE_ROLES.filter((assignable) => isOwner || assignable !== "admin").map((assignable) => (
+                      <SelectItem key={assignable} value={assignable}>
+                        {groupRoleLabels[assignable]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button className="flex-1" onClick={() => handleCreateInvitation(false)} disabled={isSaving}>
+                <Mail className="h-4 w-4 mr-2" />
+                Convidar por e-mail
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={() => handleCreateInvitation(true)} disabled={isSaving}>
+                <Link2 className="h-4 w-4 mr-2" />
+                Gerar link
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Ninguém entra no grupo sem aceitar. Os convites expiram em 7 dias; o link serve para uma única pessoa,
+              mesmo que ela ainda não tenha conta.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Convites enviados</h3>
+            {invitations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum convite enviado.</p>
+            ) : (
+              invitations.map((invitation) => {
+                const status = getInvitationStatus(invitation);
+                return (
+                  <div key={invitation.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate">{invitation.email || "Convite por link"}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {groupRoleLabels[invitation.role]} · expira em {format(parseISO(invitation.expires_at), "dd/MM/yyyy")}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Badge variant={statusVariants[status]}>{statusLabels[status]}</Badge>
+                      {status === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Copiar link"
+                          onClick={() => copyLink(invitation)}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {status !== "accepted" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title={status === "pending" ? "Cancelar convite" : "Remover"}
+                          onClick={() => handleDeleteInvitation(invitation)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroupInviteDialog;
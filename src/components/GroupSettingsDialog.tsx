@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from "react";
+import { Crown, LogOut, Trash2, UserMinus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  FinancialGroup,
+  deleteGroup,
+  leaveGroup,
+  removeMember,
+  renameGroup,
+  transferOwnership,
+  updateMemberRole,
+} from "@/services/financialGroups";
+import { getProfileName } from "@/services/profiles";
+import {
+  ASSIGNABLE_ROLES,
+  GroupRole,
+  canManageGroup,
+  canManageMember,
+  groupRoleLabels,
+} from "@/lib/groupRoles";
+import { getGroupErrorMessage } from "@/lib/groupErrors";
+
+interface GroupSettingsDialogProps {
+  group: FinancialGroup | null;
+  onOpenChange: (open: boolean) => void;
+  // Chamado depois de qualquer alteração, para recarregar a lista de grupos
+  onGroupChange?: () => void;
+}
+
+type PendingAction =
+  | { kind: "remove"; userId: string }
+  | { kind: "transfer"; userId: string }
+  | { kind: "leave" }
+  | { kind: "delete" };
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const GroupSettingsDialog: React.FC<GroupSettingsDialogProps> = ({ group, onOpenChange, onGroupChange }) => {
+  const { user } = useAuth();
+  const [name, setName] = useState("");
+  const [newOwner, setNewOwner] = useState("");
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setName(group?.name || "");
+    setNewOwner("");
+  }, [group]);
+
+  const members = group?.group_members || [];
+  const myRole = members.find((member) => member.user_id === user?.id)?.role;
+  const isOwner = myRole === "owner";
+
+  const getMemberName = (memberId: string) => {
+    if (memberId === user?.id) return "Você";
+    return getProfileName(members.find((member) => member.user_id === memberId)?.user || undefined);
+  };
+
+  const getMemberNet = (memberId: string) =>
+    group?.summary?.memberBalances?.find((balance) => balance.user_id === memberId)?.net || 0;
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string, closeDialog = false) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast({
+        title: "Sucesso",
+        description: successMessage,
+      });
+      if (closeDialog) onOpenChange(false);
+      onGroupChange?.();
+    } catch (error: any) {
+      console.error('Erro ao atualizar grupo:', error);
+      toast({
+        title: "Erro",
+        description: getGroupErrorMessage(error, "Não foi possível atualizar o grupo"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = () => {
+    if (!group) return;
+    runAction(() => renameGroup(group.id, name), "Grupo renomeado com sucesso");
+  };
+
+  const handleRoleChange = (memberId: string, role: GroupRole) => {
+    if (!group) return;
+    runAction(() => updateMemberRole(group.id, memberId, role), "Papel atualizado com sucesso");
+  };
+
+  const confirmPendingAction = () => {
+    if (!group || !user || !pendingAction) return;
+
+    switch (pendingAction.kind) {
+      case "remove":
+        runAction(() => removeMember(group.id, pendingAction.userId), "Membro removido do grupo");
+        break;
+      case "transfer":
+        runAction(() => transferOwnership(group.id, pendingAction.userId), "Posse do grupo transferida");
+        setNewOwner("");
+        break;
+      case "leave":
+        runAction(() => leaveGroup(group.id, user.id), "Você saiu do grupo", true);
+        break;
+      case "delete":
+        runAction(() => deleteGroup(group.id), "Grupo excluído com sucesso", true);
+        break;
+    }
+    setPendingAction(null);
+  };
+
+  const getPendingDescription = () => {
+    if (!pendingAction) return "";
+
+    switch (pendingAction.kind) {
+      case "remove": {
+        const net = getMemberNet(pendingAction.userId);
+        return `${getMemberName(pendingAction.userId)} deixará de ver o grupo. As transações que lançou continuam no grupo e seguem contando nos saldos${
+          net !== 0 ? ` (saldo atual: ${formatCurrency(net)})` : ""
+        }.`;
+      }
+      case "transfer":
+        return `${getMemberName(pendingAction.userId)} passará a ser o dono do grupo e você passará a administrador.`;
+      case "leave": {
+        const net = user ? getMemberNet(user.id) : 0;
+        return `Você deixará de ver o grupo. As transações que você lançou continuam no grupo e seguem contando nos saldos${
+          net !== 0 ? ` (seu saldo atual: ${formatCurrency(net)})` : ""
+        }.`;
+      }
+      case "delete":
+        return "Orçamentos, categorias e acertos do grupo serão excluídos. As transações voltam a ser pessoais de quem as lançou.";
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={!!group} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Configurações — {group?.name}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            {canManageGroup(myRole) && (
+              <div className="space-y-2">
+                <Label>Nome do Grupo</Label>
+                <div className="flex gap-2">
+                  <Input value={name} onChange={(e) => setName(e.target.value)} />
+                  <Button onClick={handleRename} disabled={isSaving || !name.trim() || name.trim() === group?.name}>
+                    Salvar
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Membros</h3>
+              {members.map((member) => {
+                const isSelf = member.user_id === user?.id;
+                const canManage = canManageMember(myRole, member.role, isSelf);
+
+                return (
+                  <div key={member.user_id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                    <span className="truncate">{getMemberName(member.user_id)}</span>
+                    <div className="flex items-center gap-2">
+                      {canManage ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => handleRoleChange(member.user_id, value as GroupRole)}
+                          disabled={isSaving}
+                        >
+                          <SelectTrigger className="h-8 w-[150px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ASSIGNABLE_ROLES.filter((role) => isOwner || role !== "admin").map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {groupRoleLabels[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant={member.role === "owner" ? "default" : "secondary"}>
+                          {groupRoleLabels[member.role]}
+                        </Badge>
+                      )}
+                      {canManage && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Remover do grupo"
+                          onClick={() => setPendingAction({ kind: "remove", userId: member.user_id })}
+                          disabled={isSaving}
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="text-xs text-muted-foreground">
+                Administradores gerenciam membros e editam qualquer transação do grupo; membros editam só as que
+                lançaram; leitores apenas consultam.
+              </p>
+            </div>
+
+            {isOwner && members.length > 1 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Transferir posse</h3>
+                <div className="flex gap-2">
+                  <Select value={newOwner} onValueChange={setNewOwner}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Novo dono" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {members
+                        .filter((member) => member.user_id !== user?.id)
+                        .map((member) => (
+                          <SelectItem key={member.user_id} value={member.user_id}>
+                            {getMemberName(member.user_id)}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={() => setPendingAction({ kind: "transfer", userId: newOwner })}
+                    disabled={isSaving || !newOwner}
+                  >
+                    <Crown className="h-4 w-4 mr-2" />
+                    Transferir
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2 border-t">
+              {isOwner ? (
+                <Button
+                  variant="destructive"
+                  onClick={() => setPendingAction({ kind: "delete" })}
+                  disabled={isSaving}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Excluir grupo
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={() => setPendingAction({ kind: "leave" })}
+                  disabled={isSaving}
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sair do grupo
+                </Button>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Tem certeza?</AlertDialogTitle>
+            <AlertDialogDescription>{getPendingDescription()}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPendingAction}
+              className={pendingAction?.kind === "transfer" ? "" : "bg-destructive text-destructive-foreground"}
+            >
+              Confirmar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default GroupSettingsDialog;
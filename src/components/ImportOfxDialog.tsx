@@ -0,0 +1,305 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { Account } from "@/services/accounts";
+import {
+  Transaction as SavedTransaction,
+  getTransactionsByExternalIds,
+  importTransactions,
+} from "@/services/transactions";
+import { readStatementFile } from "@/lib/csvImport";
+import { OfxImportItem, OfxImportStatus, classifyOfxTransactions, parseOfx } from "@/lib/ofxImport";
+
+interface ImportOfxDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: Account[];
+  onImported: (transactions: SavedTransaction[]) => void;
+}
+
+const statusLabels: Record<OfxImportStatus, string> = {
+  new: "Novo",
+  skipped: "Já importado",
+  conflict: "Conflito",
+};
+
+const statusVariants: Record<OfxImportStatus, "default" | "secondary" | "destructive"> = {
+  new: "default",
+  skipped: "secondary",
+  conflict: "destructive",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const ImportOfxDialog: React.FC<ImportOfxDialogProps> = ({
+  open,
+  onOpenChange,
+  accounts,
+  onImported,
+}) => {
+  const { user } = useAuth();
+  const { getCategoryOptions } = useCategories();
+  const [accountId, setAccountId] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [items, setItems] = useState<OfxImportItem<SavedTransaction>[] | null>(null);
+  const [incomeCategory, setIncomeCategory] = useState("other");
+  const [expenseCategory, setExpenseCategory] = useState("other");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const activeAccounts = accounts.filter((a) => !a.archived);
+  const countByStatus = (status: OfxImportStatus) =>
+    (items || []).filter((item) => item.status === status).length;
+
+  const resetState = () => {
+    setFileName("");
+    setItems(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) resetState();
+    onOpenChange(value);
+  };
+
+  // Lê o extrato e compara os FITIDs com o que já foi importado na conta escolhida
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !accountId) return;
+
+    try {
+      setIsLoading(true);
+      const statement = parseOfx(await readStatementFile(file));
+      if (statement.transactions.length === 0) {
+        toast({
+          title: "Erro",
+          description: "O arquivo não possui lançamentos",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const imported = await getTransactionsByExternalIds(
+        accountId,
+        Array.from(new Set(statement.transactions.map((t) => t.external_id)))
+      );
+      setFileName(file.name);
+      setItems(classifyOfxTransactions(statement.transactions, imported));
+    } catch (error: any) {
+      console.error('Erro ao ler arquivo OFX:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível ler o arquivo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !items) return;
+
+    const newItems = items.filter((item) => item.status === "new");
+    try {
+      setIsLoading(true);
+      const saved = await importTransactions(
+        newItems.map(({ transaction }) => ({
+          user_id: user.id,
+          type: transaction.type,
+          date: transaction.date,
+          description: transaction.description,
+          amount: transaction.amount,
+          category: transaction.type === "income" ? incomeCategory : expenseCategory,
+          account_id: accountId,
+          external_id: transaction.external_id,
+        }))
+      );
+
+      // Linhas que outra importação gravou nesse meio tempo são ignoradas pelo banco
+      const skipped = countByStatus("skipped") + newItems.length - saved.length;
+      onImported(saved);
+      toast({
+        title: "Sucesso",
+        description: `${saved.length} novos, ${skipped} ignorados, ${countByStatus("conflict")} em conflito`,
+      });
+      handleOpenChange(false);
+    } catch (error: any) {
+      console.error('Erro ao importar OFX:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível importar as transações",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>Importar Extrato OFX</DialogTitle>
+          <DialogDescription>
+            {items
+              ? `${fileName}: ${countByStatus("new")} novos, ${countByStatus("skipped")} já importados, ${countByStatus("conflict")} em conflito.`
+              : "Lançamentos já importados nesta conta não são duplicados."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!items ? (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Conta</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a conta do extrato" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {activeAccounts.length === 0 && (
+                <p className="text-sm text-muted-foreground">Cadastre uma conta para importar extratos OFX.</p>
+              )}
+            </div>
+            <div className="flex flex-col items-center gap-4 py-4">
+              <Upload className="h-10 w-10 text-muted-foreground" />
+              <Input
+                type="file"
+                accept=".ofx,.qfx"
+                onChange={handleFileChange}
+                disabled={!accountId || isLoading}
+                className="max-w-sm"
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Categoria das receitas</Label>
+                <Select value={incomeCategory} onValueChange={setIncomeCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getCategoryOptions("income").map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.key}>
+                        <span className={depth > 0 ? "pl-4" : ""}>{category.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Categoria das despesas</Label>
+                <Select value={expenseCategory} onValueChange={setExpenseCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getCategoryOptions("expense").map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.key}>
+                        <span className={depth > 0 ? "pl-4" : ""}>{category.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="max-h-[400px] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Situação</TableHead>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map(({ transaction, status, existing }, index) => (
+                    <TableRow key={`${transaction.external_id}-${index}`}>
+                      <TableCell>
+                        <Badge variant={statusVariants[status]}>{statusLabels[status]}</Badge>
+                      </TableCell>
+                      <TableCell>{format(parseISO(transaction.date), "dd/MM/yyyy")}</TableCell>
+                      <TableCell>
+                        {transaction.description}
+                        {status === "conflict" && existing && (
+                          <div className="text-xs text-red-600">
+                            Já importado como {formatCurrency(Number(existing.amount))} em{" "}
+                            {format(parseISO(existing.date), "dd/MM/yyyy")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${transaction.type === "income" ? "text-green-600" : "text-red-600"}`}
+                      >
+                        {formatCurrency(transaction.amount)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {items && (
+          <DialogFooter>
+            <Button variant="outline" onClick={resetState}>
+              Voltar
+            </Button>
+            <Button onClick={handleImport} disabled={isLoading || countByStatus("new") === 0}>
+              {isLoading ? "Importando..." : `Importar ${countByStatus("new")} transações`}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportOfxDialog;
@@ -0,0 +1,486 @@
+import React, { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { Account } from "@/services/accounts";
+import { Transaction as SavedTransaction, createTransactions } from "@/services/transactions";
+import {
+  BankPreset,
+  ColumnMapping,
+  CsvDelimiter,
+  DecimalSeparator,
+  bankPresets,
+  buildImportRows,
+  detectBankPreset,
+  detectDecimalSeparator,
+  detectDelimiter,
+  findHeaderRow,
+  guessColumnMapping,
+  parseCsv,
+  readStatementFile,
+} from "@/lib/csvImport";
+
+interface ImportTransactionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: Account[];
+  onImported: (transactions: SavedTransaction[]) => void;
+}
+
+type ImportStep = "upload" | "mapping" | "preview";
+
+const NO_COLUMN = "none";
+const NO_ACCOUNT = "none";
+
+const mappingFields: { field: keyof ColumnMapping; label: string; required: boolean }[] = [
+  { field: "date", label: "Data", required: true },
+  { field: "description", label: "Descrição", required: true },
+  { field: "amount", label: "Valor", required: true },
+  { field: "type", label: "Tipo (opcional)", required: false },
+];
+
+const delimiterLabels: Record<CsvDelimiter, string> = {
+  ";": "Ponto e vírgula (;)",
+  ",": "Vírgula (,)",
+  "\t": "Tabulação",
+  "|": "Barra vertical (|)",
+};
+
+const emptyMapping: ColumnMapping = { date: null, description: null, amount: null, type: null };
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const ImportTransactionsDialog: React.FC<ImportTransactionsDialogProps> = ({
+  open,
+  onOpenChange,
+  accounts,
+  onImported,
+}) => {
+  const { user } = useAuth();
+  const { getCategoryOptions } = useCategories();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(",");
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(",");
+  const [preset, setPreset] = useState<BankPreset>("generic");
+  const [invertSign, setInvertSign] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>(emptyMapping);
+  const [accountId, setAccountId] = useState(NO_ACCOUNT);
+  const [incomeCategory, setIncomeCategory] = useState("other");
+  const [expenseCategory, setExpenseCategory] = useState("other");
+  const [excludedLines, setExcludedLines] = useState<number[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const rows = useMemo(() => (fileText ? parseCsv(fileText, delimiter) : []), [fileText, delimiter]);
+  const headerIndex = useMemo(() => findHeaderRow(rows), [rows]);
+  const headers = rows[headerIndex] || [];
+  const dataRows = rows.slice(headerIndex + 1);
+
+  const importRows = useMemo(
+    () => buildImportRows(dataRows, mapping, { decimalSeparator, invertSign }, headerIndex + 2),
+    [rows, headerIndex, mapping, decimalSeparator, invertSign]
+  );
+  const validRows = importRows.filter((row) => row.errors.length === 0);
+  const selectedRows = validRows.filter((row) => !excludedLines.includes(row.line));
+  const invalidCount = importRows.length - validRows.length;
+
+  const resetState = () => {
+    setStep("upload");
+    setFileName("");
+    setFileText("");
+    setPreset("generic");
+    setInvertSign(false);
+    setMapping(emptyMapping);
+    setAccountId(NO_ACCOUNT);
+    setExcludedLines([]);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) resetState();
+    onOpenChange(value);
+  };
+
+  // Detecta separadores e banco a partir do arquivo e sugere o mapeamento das colunas
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await readStatementFile(file);
+      const detectedDelimiter = detectDelimiter(text);
+      const parsedRows = parseCsv(text, detectedDelimiter);
+      const headerRow = findHeaderRow(parsedRows);
+      const fileHeaders = parsedRows[headerRow] || [];
+
+      if (parsedRows.length <= headerRow + 1) {
+        toast({
+          title: "Erro",
+          description: "O arquivo não possui lançamentos",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const detectedPreset = detectBankPreset(fileHeaders);
+      const guessedMapping = guessColumnMapping(fileHeaders);
+      const amountValues = guessedMapping.amount === null
+        ? []
+        : parsedRows.slice(headerRow + 1).map((row) => row[guessedMapping.amount as number] || "");
+
+      setFileName(file.name);
+      setFileText(text);
+      setDelimiter(detectedDelimiter);
+      setPreset(detectedPreset);
+      setInvertSign(!!bankPresets[detectedPreset].invertSign);
+      setDecimalSeparator(
+        detectedPreset === "generic"
+          ? detectDecimalSeparator(amountValues)
+          : bankPresets[detectedPreset].decimalSeparator
+      );
+      setMapping(guessedMapping);
+      setExcludedLines([]);
+      setStep("mapping");
+    } catch (error) {
+      console.error('Erro ao ler arquivo CSV:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível ler o arquivo",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePresetChange = (value: BankPreset) => {
+    setPreset(value);
+    if (value !== "generic") {
+      setDecimalSeparator(bankPresets[value].decimalSeparator);
+      setInvertSign(!!bankPresets[value].invertSign);
+    }
+  };
+
+  const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === NO_COLUMN ? null : Number(value) }));
+  };
+
+  const toggleRow = (line: number, checked: boolean) => {
+    setExcludedLines((prev) => (checked ? prev.filter((l) => l !== line) : [...prev, line]));
+  };
+
+  const goToPreview = () => {
+    if (mapping.date === null || mapping.description === null || mapping.amount === null) {
+      toast({
+        title: "Erro",
+        description: "Mapeie as colunas de data, descrição e valor",
+        variant: "destructive",
+      });
+      return;
+    }
+    setStep("preview");
+  };
+
+  // Todas as linhas confirmadas vão num único insert
+  const handleImport = async () => {
+    if (!user || selectedRows.length === 0) return;
+
+    try {
+      setIsImporting(true);
+      const saved = await createTransactions(
+        selectedRows.map((row) => ({
+          user_id: user.id,
+          type: row.type,
+          date: row.date as string,
+          description: row.description,
+          amount: row.amount as number,
+          category: row.type === "income" ? incomeCategory : expenseCategory,
+          account_id: accountId === NO_ACCOUNT ? null : accountId,
+        }))
+      );
+
+      onImported(saved);
+      toast({
+        title: "Sucesso",
+        description: `${saved.length} transações importadas`,
+      });
+      handleOpenChange(false);
+    } catch (error: any) {
+      console.error('Erro ao importar transações:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível importar as transações",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>Importar Extrato CSV</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Selecione o arquivo CSV exportado pelo seu banco."}
+            {step === "mapping" && `Confira as colunas de ${fileName}.`}
+            {step === "preview" && "Revise os lançamentos antes de importar."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="flex flex-col items-center gap-4 py-8">
+            <Upload className="h-10 w-10 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Aceita extratos do Nubank, Itaú, Inter, Banco do Brasil e outros bancos.
+            </p>
+            <Input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="max-w-sm" />
+          </div>
+        )}
+
+        {step === "mapping" && (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Banco</Label>
+                <Select value={preset} onValueChange={(value) => handlePresetChange(value as BankPreset)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(bankPresets) as BankPreset[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {bankPresets[key].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Separador de colunas</Label>
+                <Select value={delimiter} onValueChange={(value) => setDelimiter(value as CsvDelimiter)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(delimiterLabels) as CsvDelimiter[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {delimiterLabels[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Separador decimal</Label>
+                <Select
+                  value={decimalSeparator}
+                  onValueChange={(value) => setDecimalSeparator(value as DecimalSeparator)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=",">Vírgula (1.234,56)</SelectItem>
+                    <SelectItem value=".">Ponto (1,234.56)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {mappingFields.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>{label}</Label>
+                  <Select
+                    value={mapping[field] === null ? NO_COLUMN : String(mapping[field])}
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione a coluna" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!required && <SelectItem value={NO_COLUMN}>Usar o sinal do valor</SelectItem>}
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Coluna ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch id="import-invert-sign" checked={invertSign} onCheckedChange={setInvertSign} />
+              <Label htmlFor="import-invert-sign">Valores positivos são despesas (extrato de cartão)</Label>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Conta</Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>
+                    {accounts.filter((a) => !a.archived).map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Categoria das receitas</Label>
+                <Select value={incomeCategory} onValueChange={setIncomeCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getCategoryOptions("income").map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.key}>
+                        <span className={depth > 0 ? "pl-4" : ""}>{category.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Categoria das despesas</Label>
+                <Select value={expenseCategory} onValueChange={setExpenseCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getCategoryOptions("expense").map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.key}>
+                        <span className={depth > 0 ? "pl-4" : ""}>{category.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {selectedRows.length} de {importRows.length} lançamentos serão importados
+              {invalidCount > 0 && ` (${invalidCount} com erro)`}
+            </p>
+            <div className="max-h-[400px] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10"></TableHead>
+                    <TableHead>Linha</TableHead>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {importRows.map((row) => {
+                    const hasErrors = row.errors.length > 0;
+                    return (
+                      <TableRow key={row.line} className={hasErrors ? "bg-red-50" : undefined}>
+                        <TableCell>
+                          <Checkbox
+                            checked={!hasErrors && !excludedLines.includes(row.line)}
+                            disabled={hasErrors}
+                            onCheckedChange={(checked) => toggleRow(row.line, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.date ? format(parseISO(row.date), "dd/MM/yyyy") : "-"}</TableCell>
+                        <TableCell>
+                          {row.description || "-"}
+                          {hasErrors && (
+                            <div className="flex items-start gap-1 text-xs text-red-600">
+                              <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                              {row.errors.join("; ")}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{row.type === "income" ? "Receita" : "Despesa"}</TableCell>
+                        <TableCell
+                          className={`text-right ${row.type === "income" ? "text-green-600" : "text-red-600"}`}
+                        >
+                          {row.amount === null ? "-" : formatCurrency(row.amount)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "mapping" && (
+            <>
+              <Button variant="outline" onClick={resetState}>
+                Voltar
+              </Button>
+              <Button onClick={goToPreview}>Pré-visualizar</Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("mapping")}>
+                Voltar
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || selectedRows.length === 0}>
+                {isImporting ? "Importando..." : `Importar ${selectedRows.length} transações`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportTransactionsDialog;
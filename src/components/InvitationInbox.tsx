@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Check, Mail, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  ReceivedInvitation,
+  acceptGroupInvitation,
+  declineGroupInvitation,
+  getMyInvitations,
+} from "@/services/invitations";
+import { groupRoleLabels } from "@/lib/groupRoles";
+import { getGroupErrorMessage } from "@/lib/groupErrors";
+
+interface InvitationInboxProps {
+  // Chamado depois de aceitar um convite, para recarregar os grupos
+  onAccepted?: () => void;
+}
+
+const InvitationInbox: React.FC<InvitationInboxProps> = ({ onAccepted }) => {
+  const { user } = useAuth();
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadInvitations = async () => {
+      if (!user) return;
+      try {
+        setInvitations(await getMyInvitations());
+      } catch (error) {
+        console.error('Erro ao carregar convites:', error);
+      }
+    };
+
+    loadInvitations();
+  }, [user]);
+
+  const handleRespond = async (invitation: ReceivedInvitation, accept: boolean) => {
+    if (!invitation.token) return;
+
+    setRespondingId(invitation.id);
+    try {
+      if (accept) {
+        const status = await acceptGroupInvitation(invitation.token);
+        if (status === "expired") {
+          toast({
+            title: "Erro",
+            description: "Este convite expirou. Peça um novo a quem enviou",
+            variant: "destructive",
+          });
+        } else {
+          toast({
+            title: "Sucesso",
+            description: `Você entrou no grupo ${invitation.group_name}`,
+          });
+          onAccepted?.();
+        }
+      } else {
+        await declineGroupInvitation(invitation.token);
+        toast({
+          title: "Sucesso",
+          description: "Convite recusado",
+        });
+      }
+      setInvitations((current) => current.filter((item) => item.id !== invitation.id));
+    } catch (error: any) {
+      console.error('Erro ao responder convite:', error);
+      toast({
+        title: "Erro",
+        description: getGroupErrorMessage(error, "Não foi possível responder ao convite"),
+        variant: "destructive",
+      });
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Convites pendentes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{invitation.group_name}</p>
+              <p className="text-muted-foreground">
+                {invitation.invited_by_name ? `Convite de ${invitation.invited_by_name}` : "Convite"} · papel:{" "}
+                {groupRoleLabels[invitation.role].toLowerCase()} · expira em{" "}
+                {format(parseISO(invitation.expires_at), "dd/MM/yyyy")}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRespond(invitation, false)}
+                disabled={respondingId === invitation.id}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Recusar
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handleRespond(invitation, true)}
+                disabled={respondingId === invitation.id}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Aceitar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvitationInbox;
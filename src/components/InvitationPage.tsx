@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Check, LogIn, Users, X } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { toast } from "./ui/use-toast";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  PENDING_INVITATION_STORAGE_KEY,
+  ReceivedInvitation,
+  acceptGroupInvitation,
+  declineGroupInvitation,
+  getInvitationByToken,
+} from "@/services/invitations";
+import { groupRoleLabels } from "@/lib/groupRoles";
+import { getGroupErrorMessage } from "@/lib/groupErrors";
+
+const statusMessages: Record<string, string> = {
+  accepted: "Este convite já foi aceito.",
+  declined: "Este convite foi recusado.",
+  expired: "Este convite expirou. Peça um novo a quem enviou.",
+};
+
+// Página aberta pelo link do convite; funciona também para quem ainda não tem conta
+const InvitationPage = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const [invitation, setInvitation] = useState<ReceivedInvitation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isResponding, setIsResponding] = useState(false);
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      if (!token) return;
+      try {
+        setInvitation(await getInvitationByToken(token));
+      } catch (error) {
+        console.error('Erro ao carregar convite:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  // Sem login, guarda o token para voltar aqui depois de entrar ou criar a conta
+  const goToLogin = () => {
+    if (token) localStorage.setItem(PENDING_INVITATION_STORAGE_KEY, token);
+    navigate("/login");
+  };
+
+  const handleRespond = async (accept: boolean) => {
+    if (!token || !invitation) return;
+
+    setIsResponding(true);
+    try {
+      if (accept) {
+        const status = await acceptGroupInvitation(token);
+        if (status === "expired") {
+          setInvitation({ ...invitation, status: "expired" });
+          return;
+        }
+        toast({
+          title: "Sucesso",
+          description: `Você entrou no grupo ${invitation.group_name}`,
+        });
+      } else {
+        await declineGroupInvitation(token);
+        toast({
+          title: "Sucesso",
+          description: "Convite recusado",
+        });
+      }
+      navigate("/", { replace: true });
+    } catch (error: any) {
+      console.error('Erro ao responder convite:', error);
+      toast({
+        title: "Erro",
+        description: getGroupErrorMessage(error, "Não foi possível responder ao convite"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  if (isLoading || authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Carregando convite...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center flex items-center justify-center gap-2">
+            <Users className="h-6 w-6" />
+            {invitation ? invitation.group_name : "Convite"}
+          </CardTitle>
+          {invitation && (
+            <CardDescription className="text-center">
+              {invitation.invited_by_name ? `Convite de ${invitation.invited_by_name}` : "Convite"} para participar do
+              grupo como {groupRoleLabels[invitation.role].toLowerCase()}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="text-sm text-center space-y-2">
+          {!invitation ? (
+            <p className="text-muted-foreground">Convite não encontrado. Confira o link recebido.</p>
+          ) : invitation.status !== "pending" ? (
+            <p className="text-muted-foreground">{statusMessages[invitation.status]}</p>
+          ) : (
+            <>
+              {invitation.email && (
+                <p className="text-muted-foreground">Enviado para {invitation.email}</p>
+              )}
+              <p className="text-muted-foreground">
+                Válido até {format(parseISO(invitation.expires_at), "dd/MM/yyyy")}
+              </p>
+              {!user && (
+                <p>Entre na sua conta ou crie uma para aceitar o convite.</p>
+              )}
+            </>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center gap-2">
+          {invitation?.status === "pending" && !user ? (
+            <Button onClick={goToLogin}>
+              <LogIn className="h-4 w-4 mr-2" />
+              Entrar ou criar conta
+            </Button>
+          ) : invitation?.status === "pending" ? (
+            <>
+              <Button variant="outline" onClick={() => handleRespond(false)} disabled={isResponding}>
+                <X className="h-4 w-4 mr-2" />
+                Recusar
+              </Button>
+              <Button onClick={() => handleRespond(true)} disabled={isResponding}>
+                <Check className="h-4 w-4 mr-2" />
+                Aceitar convite
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => navigate(user ? "/" : "/login")}>
+              Voltar
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default InvitationPage;
@@ -14,6 +14,7 @@ import { Label } from "./ui/label";
 import { LogIn, UserPlus, Eye, EyeOff, Check, X } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { useAuth } from "../contexts/AuthContext";
+import { PENDING_INVITATION_STORAGE_KEY } from "@/services/invitations";
 
 const Login = () => {
   // Login state
@@ -26,6 +27,13 @@ const Login = () => {
 
   useEffect(() => {
     if (user) {
+      // Quem chegou por um link de convite volta para ele depois de entrar
+      const invitationToken = localStorage.getItem(PENDING_INVITATION_STORAGE_KEY);
+      if (invitationToken) {
+        localStorage.removeItem(PENDING_INVITATION_STORAGE_KEY);
+        navigate(`/convite/${invitationToken}`, { replace: true });
+        return;
+      }
       navigate('/', { replace: true });
     }
   }, [user, navigate]);
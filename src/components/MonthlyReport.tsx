@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from "react";
+import { endOfMonth, format, isValid, parse, parseISO, startOfMonth, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Link, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { getTransactions } from "@/services/transactions";
+import { Account, getAccounts } from "@/services/accounts";
+import { CardStatementPayment, getCardStatementPayments } from "@/services/cardStatements";
+import { AccountingRegime, CARD_LOOKBACK_MONTHS, getReportingDate } from "@/lib/creditCard";
+import {
+  calculateMonthlyTotals,
+  calculateVariations,
+  getCategoryBreakdown,
+  getMonthTransactions,
+} from "@/lib/monthlyMetrics";
+import { downloadMonthlyReportPdf, MonthlyReportData } from "@/lib/reportPdf";
+
+interface Transaction {
+  id: string;
+  date: Date;
+  description: string;
+  amount: number;
+  category: string;
+  type: "income" | "expense" | "transfer";
+  account_id?: string | null;
+  group_id?: string | null;
+  transfer_direction?: "out" | "in" | null;
+  statement_month?: string | null;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const formatVariation = (variation: number) => `${variation > 0 ? "+" : ""}${variation.toFixed(1)}%`;
+
+const formatMonth = (date: Date) => format(date, "MMMM 'de' yyyy", { locale: ptBR });
+
+const typeLabels: Record<Transaction["type"], string> = {
+  income: "Receita",
+  expense: "Despesa",
+  transfer: "Transferência",
+};
+
+// Mês do relatório vem da URL (?mes=yyyy-MM), para o link poder ser compartilhado com o contador
+const parseReportMonth = (value: string | null) => {
+  const date = value ? parse(value, "yyyy-MM", new Date()) : new Date();
+  return isValid(date) ? date : new Date();
+};
+
+const getSignedAmount = (transaction: Transaction) => {
+  if (transaction.type === "income") return transaction.amount;
+  if (transaction.type === "transfer" && transaction.transfer_direction === "in") return transaction.amount;
+  return -transaction.amount;
+};
+
+const MonthlyReport = () => {
+  const { user } = useAuth();
+  const { getCategoryLabel } = useCategories();
+  const [searchParams] = useSearchParams();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [cardPayments, setCardPayments] = useState<CardStatementPayment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+
+  const month = parseReportMonth(searchParams.get("mes"));
+  const previousMonth = subMonths(month, 1);
+  const regime: AccountingRegime = searchParams.get("regime") === "cash" ? "cash" : "accrual";
+  // Só o mês do relatório, o anterior (para as variações) e as compras no cartão que ainda caem nas faturas deles
+  const startDate = format(startOfMonth(subMonths(previousMonth, CARD_LOOKBACK_MONTHS)), "yyyy-MM-dd");
+  const endDate = format(endOfMonth(month), "yyyy-MM-dd");
+
+  useEffect(() => {
+    const loadReport = async () => {
+      if (!user) return;
+
+      try {
+        setIsLoading(true);
+        const [transactionsData, accountsData, paymentsData] = await Promise.all([
+          getTransactions(user.id, { startDate, endDate }),
+          getAccounts(user.id, true),
+          getCardStatementPayments(user.id),
+        ]);
+        setTransactions(
+          transactionsData.map((transaction) => ({
+            ...transaction,
+            amount: Number(transaction.amount),
+            date: parseISO(transaction.date),
+          }))
+        );
+        setAccounts(accountsData);
+        setCardPayments(paymentsData);
+      } catch (error) {
+        console.error('MonthlyReport: Erro ao carregar relatório:', error);
+        toast({
+          title: "Erro",
+          description: "Não foi possível carregar o relatório",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [user?.id, startDate, endDate]);
+
+  const getDate = (transaction: Transaction) => getReportingDate(transaction, regime, cardPayments);
+  const monthTransactions = getMonthTransactions(transactions, month, getDate).sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+  const current = calculateMonthlyTotals(monthTransactions);
+  const previous = calculateMonthlyTotals(getMonthTransactions(transactions, previousMonth, getDate));
+  const variation = calculateVariations(current, previous);
+  const categories = getCategoryBreakdown(monthTransactions);
+
+  const getAccountName = (accountId?: string | null) =>
+    accounts.find((account) => account.id === accountId)?.name || "-";
+
+  const getCategoryName = (transaction: Transaction) =>
+    transaction.type === "transfer" ? "-" : getCategoryLabel(transaction.category, transaction.type, transaction.group_id);
+
+  const regimeLabel = regime === "cash" ? "Regime de caixa" : "Regime de competência";
+
+  const handleDownloadPdf = async () => {
+    const report: MonthlyReportData = {
+      title: "Extrato Mensal",
+      monthLabel: formatMonth(month),
+      previousMonthLabel: formatMonth(previousMonth),
+      regimeLabel,
+      generatedAt: format(new Date(), "dd/MM/yyyy HH:mm"),
+      current,
+      previous,
+      variation,
+      categories: categories.map((line) => ({
+        ...line,
+        label: getCategoryLabel(line.category, line.type),
+      })),
+      transactions: monthTransactions.map((transaction) => ({
+        date: format(transaction.date, "dd/MM/yyyy"),
+        description: transaction.description,
+        category: getCategoryName(transaction),
+        account: getAccountName(transaction.account_id),
+        type: typeLabels[transaction.type],
+        amount: getSignedAmount(transaction),
+      })),
+    };
+
+    try {
+      setIsGeneratingPdf(true);
+      await downloadMonthlyReportPdf(report, `extrato-${format(month, "yyyy-MM")}.pdf`);
+    } catch (error) {
+      console.error('MonthlyReport: Erro ao gerar PDF:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível gerar o PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGeneratingPdf(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Carregando relatório...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="monthly-report space-y-6">
+      <div className="no-print flex items-center justify-between">
+        <Button variant="ghost" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </Link>
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Imprimir
+          </Button>
+          <Button onClick={handleDownloadPdf} disabled={isGeneratingPdf}>
+            <Download className="h-4 w-4 mr-2" />
+            {isGeneratingPdf ? "Gerando..." : "Baixar PDF"}
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h1 className="text-3xl font-bold">Extrato Mensal</h1>
+        <p className="text-muted-foreground capitalize">
+          {formatMonth(month)} · {regimeLabel}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {user?.user_metadata?.name || user?.email} · Gerado em {format(new Date(), "dd/MM/yyyy HH:mm")}
+        </p>
+      </div>
+
+      <Card className="print-avoid-break">
+        <CardHeader>
+          <CardTitle>Resumo</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                <TableHead className="text-right capitalize">{formatMonth(month)}</TableHead>
+                <TableHead className="text-right capitalize">{formatMonth(previousMonth)}</TableHead>
+                <TableHead className="text-right">Variação</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(["income", "expenses", "balance"] as const).map((key) => (
+                <TableRow key={key}>
+                  <TableCell className="font-medium">
+                    {{ income: "Receitas", expenses: "Despesas", balance: "Saldo" }[key]}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(current[key])}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(previous[key])}</TableCell>
+                  <TableCell className="text-right">{formatVariation(variation[key])}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="print-avoid-break">
+        <CardHeader>
+          <CardTitle>Por Categoria</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma receita ou despesa no mês.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Categoria</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead className="text-right">Qtd.</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">%</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categories.map((line) => (
+                  <TableRow key={`${line.type}:${line.category}`}>
+                    <TableCell>{getCategoryLabel(line.category, line.type)}</TableCell>
+                    <TableCell>{typeLabels[line.type]}</TableCell>
+                    <TableCell className="text-right">{line.count}</TableCell>
+                    <TableCell className={`text-right ${line.type === "income" ? "text-green-600" : "text-red-600"}`}>
+                      {formatCurrency(line.total)}
+                    </TableCell>
+                    <TableCell className="text-right">{line.percentage.toFixed(1)}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transações ({monthTransactions.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Descrição</TableHead>
+                <TableHead>Categoria</TableHead>
+                <TableHead>Conta</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {monthTransactions.map((transaction) => {
+                const amount = getSignedAmount(transaction);
+                return (
+                  <TableRow key={transaction.id}>
+                    <TableCell>{format(transaction.date, "dd/MM/yyyy")}</TableCell>
+                    <TableCell>{transaction.description}</TableCell>
+                    <TableCell>{getCategoryName(transaction)}</TableCell>
+                    <TableCell>{getAccountName(transaction.account_id)}</TableCell>
+                    <TableCell className={`text-right ${amount >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {formatCurrency(amount)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MonthlyReport;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { Profile, getProfileName } from "@/services/profiles";
+import { buildPixPayload, detectPixKeyType } from "@/lib/pix";
+
+export interface PixPaymentRequest {
+  receiver: Profile;
+  amount?: number;
+  description?: string;
+}
+
+interface PixPaymentDialogProps {
+  request: PixPaymentRequest | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PixPaymentDialog: React.FC<PixPaymentDialogProps> = ({ request, onOpenChange }) => {
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    setAmount(request?.amount ? request.amount.toFixed(2).replace(".", ",") : "");
+    setDescription(request?.description || "");
+  }, [request]);
+
+  const receiver = request?.receiver;
+  const hasValidKey = !!receiver?.pix_key && !!detectPixKeyType(receiver.pix_key);
+  const parsedAmount = parseFloat(amount.replace(",", "."));
+
+  // Gerado no próprio navegador: não depende de rede nem de API do banco
+  const payload =
+    receiver && hasValidKey
+      ? buildPixPayload({
+          key: receiver.pix_key!,
+          name: getProfileName(receiver),
+          city: receiver.pix_city || "",
+          amount: isNaN(parsedAmount) ? undefined : parsedAmount,
+          description,
+        })
+      : "";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(payload);
+      toast({
+        title: "Sucesso",
+        description: "Código PIX copiado",
+      });
+    } catch (error) {
+      console.error('Erro ao copiar código PIX:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível copiar. Selecione o código e copie manualmente",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Pagar {receiver ? getProfileName(receiver) : ""} com PIX</DialogTitle>
+        </DialogHeader>
+
+        {!hasValidKey ? (
+          <p className="text-sm text-muted-foreground py-4">
+            Este membro ainda não cadastrou uma chave PIX válida no perfil.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Valor</Label>
+                <Input
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value.replace(/[^0-9.,]/g, ""))}
+                  placeholder="Em aberto"
+                  className="text-right"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Descrição</Label>
+                <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="flex justify-center rounded-md border bg-white p-4">
+              <QRCodeSVG value={payload} size={220} level="M" />
+            </div>
+
+            <div className="space-y-2">
+              <Label>PIX copia e cola</Label>
+              <Textarea value={payload} readOnly rows={4} className="font-mono text-xs break-all" />
+              <Button className="w-full" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copiar código
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PixPaymentDialog;
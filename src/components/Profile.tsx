@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,7 +6,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/components/ui/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Eye, EyeOff, Mail, Lock } from "lucide-react";
+import { Eye, EyeOff, Mail, Lock, Tags, QrCode } from "lucide-react";
+import CategoryManager from "./CategoryManager";
+import { useProfile, useUpdatePixSettings } from "@/hooks/useProfile";
+import { detectPixKeyType, normalizePixKey, pixKeyTypeLabels } from "@/lib/pix";
 
 const Profile = () => {
   const { user, updateUser } = useAuth();
@@ -22,8 +25,70 @@ const Profile = () => {
   const [confirmPassword, setConfirmPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   
+  // Estados para o formulário da chave PIX
+  const [pixKey, setPixKey] = useState("");
+  const [pixCity, setPixCity] = useState("");
+
   const [isLoading, setIsLoading] = useState(false);
 
+  const { data: profile } = useProfile(user?.id);
+  const updatePixSettingsMutation = useUpdatePixSettings();
+
+  // Preenche o formulário quando o perfil chega do cache ou do banco
+  useEffect(() => {
+    setPixKey(profile?.pix_key || "");
+    setPixCity(profile?.pix_city || "");
+  }, [profile?.pix_key, profile?.pix_city]);
+
+  const pixKeyType = detectPixKeyType(pixKey);
+
+  const handlePixUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (pixKey.trim() && !pixKeyType) {
+      toast({
+        title: "Erro",
+        description: "Chave PIX inválida. Telefones devem começar com +55",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (pixKey.trim() && !pixCity.trim()) {
+      toast({
+        title: "Erro",
+        description: "Informe a cidade, exigida pelo QR Code do PIX",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await updatePixSettingsMutation.mutateAsync({
+        id: user.id,
+        email: user.email,
+        full_name: user.user_metadata?.name || null,
+        pix_key: pixKey.trim() ? normalizePixKey(pixKey) : null,
+        pix_city: pixCity.trim() || null,
+      });
+
+      toast({
+        title: "Sucesso",
+        description: "Chave PIX salva com sucesso",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível salvar a chave PIX",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleEmailUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -99,7 +164,7 @@ const Profile = () => {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="email" className="space-y-4">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="email" className="gap-2">
                 <Mail className="h-4 w-4" />
                 Email
@@ -108,6 +173,14 @@ const Profile = () => {
                 <Lock className="h-4 w-4" />
                 Senha
               </TabsTrigger>
+              <TabsTrigger value="categories" className="gap-2">
+                <Tags className="h-4 w-4" />
+                Categorias
+              </TabsTrigger>
+              <TabsTrigger value="pix" className="gap-2">
+                <QrCode className="h-4 w-4" />
+                PIX
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="email">
@@ -210,6 +283,44 @@ const Profile = () => {
                 </Button>
               </form>
             </TabsContent>
+
+            <TabsContent value="categories">
+              <CategoryManager />
+            </TabsContent>
+
+            <TabsContent value="pix">
+              <form onSubmit={handlePixUpdate} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Os membros dos seus grupos usam esta chave para gerar o QR Code ao acertar as contas com você.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="pixKey">Chave PIX</Label>
+                  <Input
+                    id="pixKey"
+                    value={pixKey}
+                    onChange={(e) => setPixKey(e.target.value)}
+                    placeholder="CPF, CNPJ, e-mail, +55 telefone ou chave aleatória"
+                  />
+                  {pixKey.trim() && (
+                    <p className={`text-xs ${pixKeyType ? "text-muted-foreground" : "text-red-600"}`}>
+                      {pixKeyType ? `Tipo: ${pixKeyTypeLabels[pixKeyType]}` : "Chave inválida"}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pixCity">Cidade</Label>
+                  <Input
+                    id="pixCity"
+                    value={pixCity}
+                    onChange={(e) => setPixCity(e.target.value)}
+                    placeholder="Ex: São Paulo"
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? "Salvando..." : "Salvar Chave PIX"}
+                </Button>
+              </form>
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,405 @@
+import React, { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ArrowRight, Calendar as CalendarIcon, QrCode, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { FinancialGroup } from "@/services/financialGroups";
+import { Transaction, getGroupTransactions } from "@/services/transactions";
+import { TransactionSplit, getTransactionSplits } from "@/services/splits";
+import {
+  GroupSettlement,
+  createGroupSettlement,
+  deleteGroupSettlement,
+  getGroupSettlements,
+} from "@/services/settlements";
+import { getProfileName } from "@/services/profiles";
+import { SuggestedPayment, simplifyDebts } from "@/lib/settlements";
+import { canWriteToGroup } from "@/lib/groupRoles";
+import PixPaymentDialog, { PixPaymentRequest } from "./PixPaymentDialog";
+
+interface SettleUpDialogProps {
+  group: FinancialGroup | null;
+  onOpenChange: (open: boolean) => void;
+  // Chamado depois de registrar ou excluir um acerto, para atualizar os saldos do cartão do grupo
+  onSettlementsChange?: () => void;
+}
+
+type HistoryItem =
+  | { kind: "transaction"; date: string; createdAt?: string; transaction: Transaction }
+  | { kind: "settlement"; date: string; createdAt?: string; settlement: GroupSettlement };
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(amount);
+};
+
+const SettleUpDialog: React.FC<SettleUpDialogProps> = ({ group, onOpenChange, onSettlementsChange }) => {
+  const { user } = useAuth();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [splits, setSplits] = useState<TransactionSplit[]>([]);
+  const [settlements, setSettlements] = useState<GroupSettlement[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fromUser, setFromUser] = useState("");
+  const [toUser, setToUser] = useState("");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(new Date());
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pixRequest, setPixRequest] = useState<PixPaymentRequest | null>(null);
+
+  useEffect(() => {
+    const loadSettleUp = async () => {
+      if (!group) return;
+
+      try {
+        setIsLoading(true);
+        const [transactionsData, settlementsData] = await Promise.all([
+          getGroupTransactions(group.id),
+          getGroupSettlements(group.id),
+        ]);
+        setTransactions(transactionsData);
+        setSettlements(settlementsData);
+        setSplits(await getTransactionSplits(transactionsData.map((transaction) => transaction.id)));
+      } catch (error: any) {
+        console.error('Erro ao carregar histórico do acerto de contas:', error);
+        toast({
+          title: "Erro",
+          description: error.message || "Não foi possível carregar o histórico do grupo",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    setFromUser("");
+    setToUser("");
+    setAmount("");
+    setDate(new Date());
+    loadSettleUp();
+  }, [group?.id]);
+
+  // Os mesmos saldos do cartão do grupo (get_group_dashboards), já descontados os acertos
+  const balances = group?.summary?.memberBalances || [];
+  const suggestedPayments = simplifyDebts(balances);
+  // Quem saiu do grupo continua nos saldos com a parte do seu tempo, e o acerto pode ser registrado
+  const partyIds = balances.map((balance) => balance.user_id);
+  // Leitores acompanham os saldos, mas não registram pagamentos
+  const canRecord = canWriteToGroup(group?.group_members?.find((member) => member.user_id === user?.id)?.role);
+
+  const getMemberName = (memberId: string) => {
+    if (memberId === user?.id) return "Você";
+    const member = group?.group_members?.find((m) => m.user_id === memberId);
+    return member ? getProfileName(member.user || undefined) : "Ex-membro";
+  };
+
+  const history: HistoryItem[] = [
+    ...transactions.map((transaction): HistoryItem => ({
+      kind: "transaction",
+      date: transaction.date,
+      createdAt: transaction.created_at,
+      transaction,
+    })),
+    ...settlements.map((settlement): HistoryItem => ({
+      kind: "settlement",
+      date: settlement.date,
+      createdAt: settlement.created_at,
+      settlement,
+    })),
+  ].sort((a, b) => b.date.localeCompare(a.date) || (b.createdAt || "").localeCompare(a.createdAt || ""));
+
+  const getPayerName = (transaction: Transaction) => {
+    const payer = splits.find((split) => split.transaction_id === transaction.id && Number(split.paid_amount) > 0);
+    return getMemberName(payer?.user_id || transaction.user_id);
+  };
+
+  const openPix = (payment: SuggestedPayment) => {
+    const receiver = group?.group_members?.find((member) => member.user_id === payment.to);
+    setPixRequest({
+      receiver: { ...receiver?.user, id: payment.to },
+      amount: payment.amount,
+      description: `Acerto ${group?.name || ""}`,
+    });
+  };
+
+  const fillPayment = (payment: SuggestedPayment) => {
+    setFromUser(payment.from);
+    setToUser(payment.to);
+    setAmount(payment.amount.toFixed(2));
+  };
+
+  const handleRecordSettlement = async () => {
+    const parsedAmount = parseFloat(amount.replace(",", "."));
+    if (!user || !group || !fromUser || !toUser || isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast({
+        title: "Erro",
+        description: "Informe quem pagou, quem recebeu e o valor",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const created = await createGroupSettlement({
+        group_id: group.id,
+        from_user_id: fromUser,
+        to_user_id: toUser,
+        amount: parsedAmount,
+        date: format(date, "yyyy-MM-dd"),
+        created_by: user.id,
+      });
+      setSettlements((prev) => [created, ...prev]);
+      setAmount("");
+
+      toast({
+        title: "Sucesso",
+        description: "Pagamento registrado com sucesso",
+      });
+      onSettlementsChange?.();
+    } catch (error: any) {
+      console.error('Erro ao registrar acerto:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível registrar o pagamento",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteSettlement = async (settlement: GroupSettlement) => {
+    try {
+      await deleteGroupSettlement(settlement.id);
+      setSettlements((prev) => prev.filter((s) => s.id !== settlement.id));
+      onSettlementsChange?.();
+    } catch (error: any) {
+      console.error('Erro ao excluir acerto:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível excluir o pagamento",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!group} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Acertar Contas — {group?.name}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Saldos</h3>
+              {balances.map((balance) => (
+                <div key={balance.user_id} className="flex justify-between items-center gap-2 text-sm">
+                  <span>{getMemberName(balance.user_id)}</span>
+                  <span className={balance.net > 0 ? "text-green-600" : balance.net < 0 ? "text-red-600" : "text-muted-foreground"}>
+                    {balance.net > 0
+                      ? `a receber ${formatCurrency(balance.net)}`
+                      : balance.net < 0
+                      ? `deve ${formatCurrency(Math.abs(balance.net))}`
+                      : "quite"}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Pagamentos para zerar os saldos</h3>
+              {suggestedPayments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Ninguém deve nada a ninguém.</p>
+              ) : (
+                suggestedPayments.map((payment) => (
+                  <div
+                    key={`${payment.from}-${payment.to}`}
+                    className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+                  >
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span className="truncate">{getMemberName(payment.from)}</span>
+                      <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <span className="truncate">{getMemberName(payment.to)}</span>
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{formatCurrency(payment.amount)}</span>
+                      {payment.from === user?.id && (
+                        <Button size="sm" variant="outline" onClick={() => openPix(payment)}>
+                          <QrCode className="h-4 w-4 mr-1" />
+                          PIX
+                        </Button>
+                      )}
+                      {canRecord && (
+                        <Button size="sm" variant="outline" onClick={() => fillPayment(payment)}>
+                          Registrar
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {canRecord && (
+              <div className="space-y-3 rounded-md border p-3">
+                <h3 className="text-sm font-medium">Registrar pagamento</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Quem pagou</Label>
+                    <Select value={fromUser} onValueChange={setFromUser}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {partyIds.map((partyId) => (
+                          <SelectItem key={partyId} value={partyId}>
+                            {getMemberName(partyId)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Quem recebeu</Label>
+                    <Select value={toUser} onValueChange={setToUser}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {partyIds
+                          .filter((partyId) => partyId !== fromUser)
+                          .map((partyId) => (
+                            <SelectItem key={partyId} value={partyId}>
+                              {getMemberName(partyId)}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Valor</Label>
+                    <Input
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value.replace(/[^0-9.,]/g, ""))}
+                      placeholder="0,00"
+                      className="text-right"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Data</Label>
+                    <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" className="w-full justify-start text-left font-normal">
+                          <CalendarIcon className="mr-2 h-4 w-4" />
+                          {format(date, "dd/MM/yyyy")}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0">
+                        <Calendar
+                          mode="single"
+                          selected={date}
+                          onSelect={(selected) => {
+                            setDate(selected || new Date());
+                            setIsCalendarOpen(false);
+                          }}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                  </div>
+                </div>
+                <Button className="w-full" onClick={handleRecordSettlement} disabled={isSaving}>
+                  {isSaving ? "Registrando..." : "Registrar Pagamento"}
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Histórico do grupo</h3>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma movimentação no grupo.</p>
+              ) : (
+                history.map((item) =>
+                  item.kind === "settlement" ? (
+                    <div key={`settlement-${item.settlement.id}`} className="flex items-center justify-between gap-2 border-b pb-2 text-sm">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">Acerto</Badge>
+                          <span className="truncate">
+                            {getMemberName(item.settlement.from_user_id)} pagou {getMemberName(item.settlement.to_user_id)}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">{format(parseISO(item.date), "dd/MM/yyyy")}</p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <span className="font-medium">{formatCurrency(Number(item.settlement.amount))}</span>
+                        {item.settlement.created_by === user?.id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => handleDeleteSettlement(item.settlement)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <div key={`transaction-${item.transaction.id}`} className="flex items-center justify-between gap-2 border-b pb-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate">{item.transaction.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(parseISO(item.date), "dd/MM/yyyy")}
+                          {item.transaction.type === "expense" && ` · pago por ${getPayerName(item.transaction)}`}
+                        </p>
+                      </div>
+                      <span className={item.transaction.type === "income" ? "text-green-600" : "text-red-600"}>
+                        {formatCurrency(Number(item.transaction.amount))}
+                      </span>
+                    </div>
+                  )
+                )
+              )}
+            </div>
+          </div>
+        )}
+
+        <PixPaymentDialog
+          request={pixRequest}
+          onOpenChange={(open) => !open && setPixRequest(null)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettleUpDialog;
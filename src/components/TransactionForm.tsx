@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { Calendar as CalendarIcon, Plus } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -21,23 +21,42 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import { DialogFooter } from "@/components/ui/dialog";
+import { createRecurringSeries } from "@/services/recurringSeries";
 import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogFooter,
-} from "@/components/ui/dialog";
-import { createTransaction } from "@/services/transactions";
+  MAX_OCCURRENCES,
+  RecurrenceFrequency,
+  exceedsMaxOccurrences,
+  recurrenceFrequencyLabels,
+} from "@/lib/recurrence";
+import { createInstallmentPurchase } from "@/services/installments";
+import {
+  InstallmentAmountMode,
+  formatInstallmentLabel,
+  getInstallmentTotal,
+  splitInstallmentAmounts,
+  validateInstallmentPlan,
+} from "@/lib/installments";
 import { useAuth } from "@/contexts/AuthContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import CategoryDialog from "@/components/CategoryDialog";
 import { toast } from "@/components/ui/use-toast";
-import { getFinancialGroups } from "@/services/financialGroups";
+import { FinancialGroup } from "@/services/financialGroups";
+import { useFinancialGroups } from "@/hooks/useFinancialGroups";
+import { useCreateTransaction, useInvalidateTransactions } from "@/hooks/useTransactions";
+import { canWriteToGroup } from "@/lib/groupRoles";
+import { Account, getAccounts } from "@/services/accounts";
+import { createTransfer } from "@/services/transfers";
 import { Switch } from "@/components/ui/switch";
+import ExpenseSplitFields, { ExpenseSplitState, SplitMember, getSplitEntries } from "@/components/ExpenseSplitFields";
+import { buildSplitRows, validateSplit } from "@/lib/splits";
+import { replaceTransactionSplits } from "@/services/splits";
+import { getProfileName } from "@/services/profiles";
 
 interface Transaction {
   id: string;
   user_id: string;
-  type: "income" | "expense";
+  type: "income" | "expense" | "transfer";
   description: string;
   amount: number;
   category: string;
@@ -45,11 +64,24 @@ interface Transaction {
   is_recurring?: boolean;
   recurring_start_date?: Date;
   recurring_end_date?: Date;
+  series_id?: string;
+  installment_purchase_id?: string;
+  installment_number?: number;
+  installment_count?: number;
   group_id?: string;
+  account_id?: string;
+  transfer_id?: string;
+  transfer_direction?: "out" | "in";
 }
 
+// Opção do seletor que abre o cadastro de uma nova categoria
+const NEW_CATEGORY = "__new_category__";
+
+// Referência estável enquanto os grupos carregam, para não disparar o efeito da divisão a cada render
+const NO_GROUPS: FinancialGroup[] = [];
+
 interface TransactionFormProps {
-  onTransactionAdded: (transaction: Omit<Transaction, "id">) => Promise<void>;
+  onTransactionAdded: (transactions: Transaction[]) => Promise<void>;
   defaultDate?: Date;
 }
 
@@ -65,31 +97,13 @@ interface TransactionData {
   group_id?: string;
 }
 
-const defaultIncomeCategories = [
-  { value: "salary", label: "Salário" },
-  { value: "freelance", label: "Freelance" },
-  { value: "investment", label: "Investimento" },
-  { value: "gift", label: "Presente" },
-  { value: "other", label: "Outro" },
-];
-
-const defaultExpenseCategories = [
-  { value: "housing", label: "Moradia" },
-  { value: "food", label: "Alimentação" },
-  { value: "transportation", label: "Transporte" },
-  { value: "entertainment", label: "Lazer" },
-  { value: "utilities", label: "Contas" },
-  { value: "healthcare", label: "Saúde" },
-  { value: "recurring", label: "Pagamento Recorrente" },
-  { value: "other", label: "Outro" },
-];
-
 const TransactionForm: React.FC<TransactionFormProps> = ({
   onTransactionAdded,
   defaultDate = new Date(),
 }) => {
   const { user } = useAuth();
-  const [transactionType, setTransactionType] = useState<"income" | "expense">(
+  const { getCategoryOptions } = useCategories();
+  const [transactionType, setTransactionType] = useState<"income" | "expense" | "transfer">(
     "income"
   );
   const [date, setDate] = useState<Date>(defaultDate);
@@ -102,30 +116,69 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
   const [recurringEndDate, setRecurringEndDate] = useState<Date>(new Date());
   const [isStartDateCalendarOpen, setIsStartDateCalendarOpen] = useState(false);
   const [isEndDateCalendarOpen, setIsEndDateCalendarOpen] = useState(false);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("monthly");
+  const [dayOfMonth, setDayOfMonth] = useState("");
+  const [isInstallment, setIsInstallment] = useState(false);
+  const [installmentAmountMode, setInstallmentAmountMode] = useState<InstallmentAmountMode>("total");
+  const [installmentCount, setInstallmentCount] = useState("2");
+  const [firstDueDate, setFirstDueDate] = useState<Date>(defaultDate);
+  const [isFirstDueDateCalendarOpen, setIsFirstDueDateCalendarOpen] = useState(false);
   const [isNewCategoryDialogOpen, setIsNewCategoryDialogOpen] = useState(false);
-  const [newCategoryName, setNewCategoryName] = useState("");
-  const [incomeCategories, setIncomeCategories] = useState([
-    ...defaultIncomeCategories,
-  ]);
-  const [expenseCategories, setExpenseCategories] = useState([
-    ...defaultExpenseCategories,
-  ]);
   const [selectedGroup, setSelectedGroup] = useState<string>("");
-  const [groups, setGroups] = useState<any[]>([]);
+  const [selectedAccount, setSelectedAccount] = useState<string>("");
+  const [toAccount, setToAccount] = useState<string>("");
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [split, setSplit] = useState<ExpenseSplitState | null>(null);
+  // Mesmo mês da tela de grupos, que assim aproveita o mesmo cache
+  const { data: groups = NO_GROUPS } = useFinancialGroups(user?.id, defaultDate);
+  const createTransactionMutation = useCreateTransaction();
+  const invalidateTransactions = useInvalidateTransactions();
 
   useEffect(() => {
     if (user) {
-      loadGroups();
+      loadAccounts();
     }
   }, [user]);
 
-  const loadGroups = async () => {
+  // Grupos em que o usuário é leitor não recebem novas transações
+  const writableGroups = groups.filter(
+    (group) =>
+      group.id === selectedGroup ||
+      canWriteToGroup(group.group_members?.find((member) => member.user_id === user?.id)?.role)
+  );
+
+  // Leitores só acompanham o grupo: não pagam nem devem parte das despesas
+  const groupMembers: SplitMember[] = (groups.find((group) => group.id === selectedGroup)?.group_members || [])
+    .filter((member) => canWriteToGroup(member.role))
+    .map((member) => ({
+      user_id: member.user_id,
+      name: member.user_id === user?.id ? "Você" : getProfileName(member.user || undefined),
+    }));
+
+  // Ao trocar de grupo, a divisão volta para "pago por mim, dividido igualmente entre todos"
+  useEffect(() => {
+    setSplit(
+      user && groupMembers.length > 0
+        ? { paidBy: user.id, method: "equal", participants: groupMembers.map((member) => member.user_id), values: {} }
+        : null
+    );
+  }, [selectedGroup, groups, user?.id]);
+
+  const isSplitActive = transactionType === "expense" && !!split && groupMembers.length > 0;
+  // O banco já grava a divisão igual entre todos, paga por quem lançou; só outra divisão precisa ser enviada
+  const isDefaultSplit =
+    !!split &&
+    split.method === "equal" &&
+    split.paidBy === user?.id &&
+    groupMembers.every((member) => split.participants.includes(member.user_id));
+
+  const loadAccounts = async () => {
     if (!user) return;
     try {
-      const data = await getFinancialGroups(user.id);
-      setGroups(data);
+      const data = await getAccounts(user.id);
+      setAccounts(data);
     } catch (error) {
-      console.error('Erro ao carregar grupos:', error);
+      console.error('Erro ao carregar contas:', error);
     }
   };
 
@@ -134,7 +187,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
     console.log('Form submitted', { description, amount, category, transactionType, selectedGroup });
 
     // Basic validation
-    if (!description || !amount || !category) {
+    if (!description || !amount || (transactionType !== "transfer" && !category)) {
       console.log('Validation failed', { description, amount, category });
       toast({
         title: "Erro",
@@ -165,30 +218,164 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
       return;
     }
 
+    const splitEntries = isSplitActive && split ? getSplitEntries(split) : [];
+    const splitError = isSplitActive && split ? validateSplit(parsedAmount, split.method, splitEntries) : null;
+    if (splitError) {
+      toast({
+        title: "Erro",
+        description: splitError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
-      const transactionData = {
-        user_id: user.id,
-        group_id: selectedGroup === "no_group" ? null : selectedGroup,
-        type: transactionType,
-        date: format(date, "yyyy-MM-dd"),
-        description,
-        amount: parsedAmount,
-        category,
-        is_recurring: isRecurring,
-        ...(isRecurring && {
-          recurring_start_date: format(recurringStartDate, "yyyy-MM-dd"),
-          recurring_end_date: format(recurringEndDate, "yyyy-MM-dd"),
-        }),
-      };
-
-      console.log('Creating/Updating transaction with data:', transactionData);
-
-      const savedTransaction = await createTransaction(transactionData);
-      console.log('Transaction saved:', savedTransaction);
+      let savedTransactions;
+      // Só a transação avulsa aparece na lista antes da resposta do servidor
+      let isOptimistic = false;
+
+      if (transactionType === "transfer") {
+        console.log('Creating transfer:', { from: selectedAccount, to: toAccount, amount: parsedAmount });
+
+        const { transactions } = await createTransfer({
+          user_id: user.id,
+          from_account_id: selectedAccount,
+          to_account_id: toAccount,
+          amount: parsedAmount,
+          date: format(date, "yyyy-MM-dd"),
+          description,
+        });
+        savedTransactions = transactions;
+      } else {
+        const baseData = {
+          user_id: user.id,
+          group_id: selectedGroup && selectedGroup !== "no_group" ? selectedGroup : null,
+          account_id: selectedAccount && selectedAccount !== "no_account" ? selectedAccount : null,
+          type: transactionType,
+          description,
+          amount: parsedAmount,
+          category,
+        };
+
+        if (isInstallment && transactionType === "expense") {
+          const parsedCount = parseInt(installmentCount, 10);
+          if (isNaN(parsedCount) || parsedCount < 2 || parsedCount > 120) {
+            toast({
+              title: "Erro",
+              description: "Informe entre 2 e 120 parcelas",
+              variant: "destructive",
+            });
+            return;
+          }
+
+          const planError = validateInstallmentPlan({
+            amount: parsedAmount,
+            amountMode: installmentAmountMode,
+            count: parsedCount,
+          });
+          if (planError) {
+            toast({
+              title: "Erro",
+              description: planError,
+              variant: "destructive",
+            });
+            return;
+          }
+
+          console.log('Creating installment purchase with data:', baseData);
+
+          const { transactions } = await createInstallmentPurchase({
+            user_id: baseData.user_id,
+            group_id: baseData.group_id,
+            account_id: baseData.account_id,
+            description,
+            category,
+            amount: parsedAmount,
+            amount_mode: installmentAmountMode,
+            installment_count: parsedCount,
+            first_due_date: format(firstDueDate, "yyyy-MM-dd"),
+          });
+          savedTransactions = transactions;
+        } else if (isRecurring) {
+          const parsedDayOfMonth = dayOfMonth ? parseInt(dayOfMonth, 10) : null;
+          if (parsedDayOfMonth !== null && (isNaN(parsedDayOfMonth) || parsedDayOfMonth < 1 || parsedDayOfMonth > 31)) {
+            toast({
+              title: "Erro",
+              description: "Dia do mês inválido",
+              variant: "destructive",
+            });
+            return;
+          }
+
+          const rule = {
+            frequency,
+            day_of_month: frequency === "monthly" ? parsedDayOfMonth : null,
+            start_date: format(recurringStartDate, "yyyy-MM-dd"),
+            end_date: format(recurringEndDate, "yyyy-MM-dd"),
+          };
+          if (exceedsMaxOccurrences(rule)) {
+            toast({
+              title: "Erro",
+              description: `A série passa de ${MAX_OCCURRENCES} ocorrências. Escolha uma data final mais próxima`,
+              variant: "destructive",
+            });
+            return;
+          }
+
+          console.log('Creating recurring series with data:', baseData);
+
+          const { transactions } = await createRecurringSeries({
+            ...baseData,
+            ...rule,
+          });
+          savedTransactions = transactions;
+        } else {
+          const transactionData = {
+            ...baseData,
+            date: format(date, "yyyy-MM-dd"),
+            is_recurring: false,
+          };
+
+          console.log('Creating/Updating transaction with data:', transactionData);
+
+          savedTransactions = [await createTransactionMutation.mutateAsync(transactionData)];
+          isOptimistic = true;
+        }
+      }
+      console.log('Transactions saved:', savedTransactions);
+
+      if (isSplitActive && split && !isDefaultSplit) {
+        try {
+          // Exatos valem para o valor digitado; em parcelas do total, viram proporções de cada parcela
+          await replaceTransactionSplits(
+            savedTransactions.flatMap((savedTransaction) =>
+              buildSplitRows(savedTransaction, split.paidBy, split.method, splitEntries, parsedAmount)
+            )
+          );
+        } catch (splitsError) {
+          console.error('Erro ao salvar divisão da despesa:', splitsError);
+          toast({
+            title: "Erro",
+            description: "A despesa foi salva dividida igualmente entre todos, mas não foi possível salvar a divisão escolhida",
+            variant: "destructive",
+          });
+        }
+      }
+
+      // Lotes (parcelas, séries, transferências) e divisões são recarregados em segundo plano
+      if (!isOptimistic || isSplitActive) {
+        invalidateTransactions(savedTransactions.some((savedTransaction) => !!savedTransaction.group_id));
+      }
       
       toast({
         title: "Sucesso",
-        description: "Transação adicionada com sucesso",
+        description: transactionType === "transfer"
+          ? "Transferência registrada com sucesso"
+          : isInstallment && transactionType === "expense"
+          ? `${savedTransactions.length} parcelas criadas com sucesso`
+          : isRecurring
+          ? `${savedTransactions.length} ocorrências criadas com sucesso`
+          : "Transação adicionada com sucesso",
       });
 
       // Reset form
@@ -196,26 +383,30 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
       setAmount("");
       setCategory("");
       setIsRecurring(false);
+      setFrequency("monthly");
+      setDayOfMonth("");
+      setIsInstallment(false);
+      setInstallmentAmountMode("total");
+      setInstallmentCount("2");
+      setFirstDueDate(new Date());
       setDate(new Date());
       setRecurringStartDate(new Date());
       setRecurringEndDate(new Date());
       setSelectedGroup("");
+      setSelectedAccount("");
+      setToAccount("");
 
       // Call the onSubmit callback if provided
       if (onTransactionAdded) {
-        console.log('Calling onSubmit callback with:', savedTransaction);
-        await onTransactionAdded({
-          user_id: savedTransaction.user_id,
-          group_id: savedTransaction.group_id,
-          type: savedTransaction.type,
-          date: new Date(savedTransaction.date),
-          description: savedTransaction.description,
-          amount: savedTransaction.amount,
-          category: savedTransaction.category,
-          is_recurring: savedTransaction.is_recurring,
-          recurring_start_date: savedTransaction.recurring_start_date ? new Date(savedTransaction.recurring_start_date) : undefined,
-          recurring_end_date: savedTransaction.recurring_end_date ? new Date(savedTransaction.recurring_end_date) : undefined,
-        });
+        console.log('Calling onSubmit callback with:', savedTransactions);
+        await onTransactionAdded(
+          savedTransactions.map((savedTransaction) => ({
+            ...savedTransaction,
+            date: parseISO(savedTransaction.date),
+            recurring_start_date: savedTransaction.recurring_start_date ? parseISO(savedTransaction.recurring_start_date) : undefined,
+            recurring_end_date: savedTransaction.recurring_end_date ? parseISO(savedTransaction.recurring_end_date) : undefined,
+          }))
+        );
       }
     } catch (error) {
       console.error("Erro ao salvar transação:", error);
@@ -233,11 +424,30 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
     setAmount(value);
   };
 
-  const categories =
-    transactionType === "income" ? incomeCategories : expenseCategories;
+  const showInstallmentFields = isInstallment && transactionType === "expense";
+
+  // Resumo das parcelas, ex.: "12x de R$ 83,33 (1/12: R$ 83,37)"
+  const installmentPreview = (() => {
+    const parsedAmount = parseFloat(amount);
+    const parsedCount = parseInt(installmentCount, 10);
+    if (!showInstallmentFields || isNaN(parsedAmount) || isNaN(parsedCount) || parsedCount < 2) {
+      return null;
+    }
+    const planError = validateInstallmentPlan({ amount: parsedAmount, amountMode: installmentAmountMode, count: parsedCount });
+    if (planError) return planError;
+
+    const total = getInstallmentTotal({ amount: parsedAmount, amountMode: installmentAmountMode, count: parsedCount });
+    const [first, regular] = splitInstallmentAmounts(total, parsedCount);
+    const formatValue = (value: number) =>
+      new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+    return first === regular
+      ? `${parsedCount}x de ${formatValue(regular)} — total ${formatValue(total)}`
+      : `${parsedCount}x de ${formatValue(regular)} (${formatInstallmentLabel(1, parsedCount)}: ${formatValue(first)}) — total ${formatValue(total)}`;
+  })();
 
   const handleCategoryChange = (value: string) => {
-    if (value === "other") {
+    if (value === NEW_CATEGORY) {
       setIsNewCategoryDialogOpen(true);
       return;
     }
@@ -245,25 +455,6 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
     setIsRecurring(value === "recurring");
   };
 
-  const handleAddNewCategory = () => {
-    if (!newCategoryName.trim()) return;
-
-    const newCategory = {
-      value: newCategoryName.toLowerCase().replace(/\s+/g, '_'),
-      label: newCategoryName
-    };
-
-    if (transactionType === "income") {
-      setIncomeCategories(prev => [...prev, newCategory]);
-    } else {
-      setExpenseCategories(prev => [...prev, newCategory]);
-    }
-
-    setCategory(newCategory.value);
-    setNewCategoryName("");
-    setIsNewCategoryDialogOpen(false);
-  };
-
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <Tabs
@@ -271,32 +462,77 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
         value={transactionType}
         onValueChange={(value) => {
           console.log('Transaction type changed:', value);
-          setTransactionType(value as "income" | "expense");
+          setTransactionType(value as "income" | "expense" | "transfer");
+          if (value === "transfer") {
+            setIsRecurring(false);
+          }
         }}
         className="w-full"
       >
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="income">Receita</TabsTrigger>
           <TabsTrigger value="expense">Despesa</TabsTrigger>
+          <TabsTrigger value="transfer">Transferência</TabsTrigger>
         </TabsList>
 
         <div className="space-y-4 mt-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Categoria</Label>
-              <Select value={category} onValueChange={handleCategoryChange}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Selecione uma categoria" />
-                </SelectTrigger>
-                <SelectContent>
-                  {(transactionType === "income" ? incomeCategories : expenseCategories).map((cat) => (
-                    <SelectItem key={cat.value} value={cat.value}>
-                      {cat.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+          {transactionType === "transfer" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>De</Label>
+                <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Conta de origem" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Para</Label>
+                <Select value={toAccount} onValueChange={setToAccount}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Conta de destino" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts
+                      .filter((account) => account.id !== selectedAccount)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            {transactionType !== "transfer" && (
+              <div className="space-y-2">
+                <Label>Categoria</Label>
+                <Select value={category} onValueChange={handleCategoryChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione uma categoria" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getCategoryOptions(transactionType, selectedGroup || null).map(({ category: cat, depth }) => (
+                      <SelectItem key={cat.id} value={cat.key}>
+                        <span className={depth > 0 ? "pl-4" : ""}>{cat.name}</span>
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={NEW_CATEGORY}>+ Nova categoria</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
 
             <div className="space-y-2">
               <Label>Valor</Label>
@@ -319,46 +555,159 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
             />
           </div>
 
-          <div className="grid gap-2">
-            <Label>Data</Label>
-            <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
-              <PopoverTrigger asChild>
-                <Button
-                  variant="outline"
-                  className={cn(
-                    "w-full justify-start text-left font-normal",
-                    !date && "text-muted-foreground"
-                  )}
-                >
-                  <CalendarIcon className="mr-2 h-4 w-4" />
-                  {date ? format(date, "dd/MM/yyyy") : "Selecione uma data"}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0">
-                <Calendar
-                  mode="single"
-                  selected={date}
-                  onSelect={(date) => {
-                    setDate(date || new Date());
-                    setIsCalendarOpen(false);
-                  }}
-                  initialFocus
-                />
-              </PopoverContent>
-            </Popover>
-          </div>
+          {!isRecurring && !showInstallmentFields && (
+            <div className="grid gap-2">
+              <Label>Data</Label>
+              <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn(
+                      "w-full justify-start text-left font-normal",
+                      !date && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {date ? format(date, "dd/MM/yyyy") : "Selecione uma data"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={date}
+                    onSelect={(date) => {
+                      setDate(date || new Date());
+                      setIsCalendarOpen(false);
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          )}
 
-          <div className="flex items-center space-x-2">
-            <Switch
-              id="recurring"
-              checked={isRecurring}
-              onCheckedChange={setIsRecurring}
-            />
-            <Label htmlFor="recurring">Pagamento Recorrente</Label>
-          </div>
+          {transactionType === "expense" && !isRecurring && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="installment"
+                checked={isInstallment}
+                onCheckedChange={setIsInstallment}
+              />
+              <Label htmlFor="installment">Compra Parcelada</Label>
+            </div>
+          )}
+
+          {showInstallmentFields && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Valor Informado</Label>
+                  <Select
+                    value={installmentAmountMode}
+                    onValueChange={(value) => setInstallmentAmountMode(value as InstallmentAmountMode)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="total">Valor total da compra</SelectItem>
+                      <SelectItem value="installment">Valor de cada parcela</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Número de Parcelas</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={120}
+                    value={installmentCount}
+                    onChange={(e) => setInstallmentCount(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Vencimento da Primeira Parcela</Label>
+                <Popover open={isFirstDueDateCalendarOpen} onOpenChange={setIsFirstDueDateCalendarOpen}>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start text-left font-normal"
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {format(firstDueDate, "dd/MM/yyyy")}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={firstDueDate}
+                      onSelect={(date) => {
+                        setFirstDueDate(date || new Date());
+                        setIsFirstDueDateCalendarOpen(false);
+                      }}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+
+              {installmentPreview && (
+                <p className="text-sm text-muted-foreground">{installmentPreview}</p>
+              )}
+            </div>
+          )}
 
-          {isRecurring && (
+          {!showInstallmentFields && transactionType !== "transfer" && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="recurring"
+                checked={isRecurring}
+                onCheckedChange={setIsRecurring}
+              />
+              <Label htmlFor="recurring">Pagamento Recorrente</Label>
+            </div>
+          )}
+
+          {isRecurring && !showInstallmentFields && (
             <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Frequência</Label>
+                <Select
+                  value={frequency}
+                  onValueChange={(value) => setFrequency(value as RecurrenceFrequency)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(recurrenceFrequencyLabels) as RecurrenceFrequency[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {recurrenceFrequencyLabels[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {frequency === "monthly" ? (
+                <div className="space-y-2">
+                  <Label>Dia do Mês</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={dayOfMonth}
+                    onChange={(e) => setDayOfMonth(e.target.value)}
+                    placeholder={format(recurringStartDate, "d")}
+                  />
+                </div>
+              ) : (
+                <div />
+              )}
+
               <div className="space-y-2">
                 <Label>Data de Início</Label>
                 <Popover open={isStartDateCalendarOpen} onOpenChange={setIsStartDateCalendarOpen}>
@@ -419,58 +768,70 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
             </div>
           )}
 
-          <div className="space-y-2">
-            <Label>Grupo Financeiro (opcional)</Label>
-            <Select
-              value={selectedGroup}
-              onValueChange={setSelectedGroup}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Selecione um grupo" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="no_group">Nenhum grupo</SelectItem>
-                {groups.map((group) => (
-                  <SelectItem key={group.id} value={group.id}>
-                    {group.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {transactionType !== "transfer" && (
+            <>
+              <div className="space-y-2">
+                <Label>Conta (opcional)</Label>
+                <Select
+                  value={selectedAccount}
+                  onValueChange={setSelectedAccount}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione uma conta" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="no_account">Nenhuma conta</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Grupo Financeiro (opcional)</Label>
+                <Select
+                  value={selectedGroup}
+                  onValueChange={setSelectedGroup}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione um grupo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="no_group">Nenhum grupo</SelectItem>
+                    {writableGroups.map((group) => (
+                      <SelectItem key={group.id} value={group.id}>
+                        {group.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {isSplitActive && split && (
+                <ExpenseSplitFields
+                  members={groupMembers}
+                  amount={parseFloat(amount) || 0}
+                  value={split}
+                  onChange={setSplit}
+                />
+              )}
+            </>
+          )}
         </div>
       </Tabs>
 
-      <Dialog
-        open={isNewCategoryDialogOpen}
-        onOpenChange={setIsNewCategoryDialogOpen}
-      >
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Nova Categoria</DialogTitle>
-          </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <div className="grid gap-2">
-              <Label htmlFor="newCategory">Nome da Categoria</Label>
-              <Input
-                id="newCategory"
-                value={newCategoryName}
-                onChange={(e) => setNewCategoryName(e.target.value)}
-                placeholder="Digite o nome da categoria"
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => setIsNewCategoryDialogOpen(false)}
-            >
-              Cancelar
-            </Button>
-            <Button onClick={handleAddNewCategory}>Adicionar</Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      {transactionType !== "transfer" && (
+        <CategoryDialog
+          open={isNewCategoryDialogOpen}
+          onOpenChange={setIsNewCategoryDialogOpen}
+          type={transactionType}
+          groupId={selectedGroup || null}
+          onSaved={(newCategory) => setCategory(newCategory.key)}
+        />
+      )}
 
       <DialogFooter>
         <Button type="submit" className="w-full">
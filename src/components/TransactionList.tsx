@@ -1,7 +1,7 @@
-import React, { useState } from "react";
-import { format, isSameMonth, subMonths } from "date-fns";
+import React, { useEffect, useMemo, useState } from "react";
+import { endOfMonth, format, isSameMonth, parseISO, startOfMonth, subMonths } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { ArrowUpDown, Edit, Trash2, Filter, ChevronDown } from "lucide-react";
+import { ArrowUpDown, Edit, Trash2, Filter, ChevronDown, X } from "lucide-react";
 import {
   Accordion,
   AccordionContent,
@@ -50,32 +50,23 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import TransactionForm from "@/components/TransactionForm";
+import ExportMenu from "@/components/ExportMenu";
+import EditScopeDialog, { EditScopeOption } from "@/components/EditScopeDialog";
+import { SeriesScope } from "@/services/recurringSeries";
+import { InstallmentScope } from "@/services/installments";
+import { formatInstallmentLabel } from "@/lib/installments";
+import { Account } from "@/services/accounts";
+import { TransactionFilters, Transaction as SavedTransaction, getTransactions } from "@/services/transactions";
+import { useTransactionPages, useTransactionTotals } from "@/hooks/useTransactions";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
-
-const defaultIncomeCategories = [
-  { value: "salary", label: "Salário" },
-  { value: "freelance", label: "Freelance" },
-  { value: "investment", label: "Investimento" },
-  { value: "gift", label: "Presente" },
-  { value: "other", label: "Outro" },
-];
-
-const defaultExpenseCategories = [
-  { value: "housing", label: "Moradia" },
-  { value: "food", label: "Alimentação" },
-  { value: "transportation", label: "Transporte" },
-  { value: "entertainment", label: "Lazer" },
-  { value: "utilities", label: "Contas" },
-  { value: "healthcare", label: "Saúde" },
-  { value: "recurring", label: "Pagamento Recorrente" },
-  { value: "other", label: "Outro" },
-];
+import { useAuth } from "@/contexts/AuthContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { getCategoryIcon } from "@/lib/categories";
 
 interface Transaction {
   id: string;
@@ -83,10 +74,19 @@ interface Transaction {
   category: string;
   description: string;
   amount: number;
-  type: "income" | "expense";
+  type: "income" | "expense" | "transfer";
   is_recurring?: boolean;
   recurring_start_date?: Date;
   recurring_end_date?: Date;
+  series_id?: string;
+  installment_purchase_id?: string;
+  installment_number?: number;
+  installment_count?: number;
+  account_id?: string;
+  group_id?: string;
+  user_id?: string;
+  transfer_id?: string;
+  transfer_direction?: "out" | "in";
 }
 
 interface TransactionData extends Omit<Transaction, 'id'> {
@@ -94,87 +94,124 @@ interface TransactionData extends Omit<Transaction, 'id'> {
 }
 
 interface TransactionListProps {
-  transactions: Transaction[];
-  onTransactionDeleted: (id: string) => Promise<void>;
-  onTransactionUpdated: (transaction: Transaction) => Promise<void>;
+  onTransactionDeleted: (id: string, scope?: TransactionScope) => Promise<void>;
+  onTransactionUpdated: (transaction: Transaction, scope?: TransactionScope) => Promise<void>;
   selectedDate: Date;
+  accounts?: Account[];
+  // Categoria escolhida nos gráficos; null mostra todas
+  categoryFilter?: string | null;
+  onCategoryFilterChange?: (category: string | null) => void;
 }
 
-const categoryTranslations: Record<string, string> = {
-  salary: "Salário",
-  freelance: "Freelance",
-  investment: "Investimento",
-  gift: "Presente",
-  other: "Outro",
-  housing: "Moradia",
-  food: "Alimentação",
-  transportation: "Transporte",
-  entertainment: "Lazer",
-  utilities: "Contas",
-  healthcare: "Saúde",
-  recurring: "Pagamento Recorrente"
-};
+export type TransactionScope = SeriesScope | InstallmentScope;
+
+const seriesScopeOptions: EditScopeOption<SeriesScope>[] = [
+  { value: "this", label: "Somente esta ocorrência" },
+  { value: "following", label: "Esta e as seguintes" },
+  { value: "all", label: "Todas as ocorrências" },
+];
+
+const installmentEditScopeOptions: EditScopeOption<InstallmentScope>[] = [
+  { value: "this", label: "Somente esta parcela" },
+  { value: "pending", label: "Todas as parcelas pendentes da compra" },
+];
+
+// Espera a digitação parar antes de buscar no banco
+const SEARCH_DEBOUNCE_MS = 300;
+
+// parseISO mantém a data no fuso local; new Date("yyyy-MM-dd") seria meia-noite UTC
+const toListTransaction = (transaction: SavedTransaction): Transaction => ({
+  ...transaction,
+  date: parseISO(transaction.date),
+  recurring_start_date: transaction.recurring_start_date ? parseISO(transaction.recurring_start_date) : undefined,
+  recurring_end_date: transaction.recurring_end_date ? parseISO(transaction.recurring_end_date) : undefined,
+});
+
+const installmentDeleteScopeOptions: EditScopeOption<InstallmentScope>[] = [
+  { value: "this", label: "Somente esta parcela" },
+  { value: "pending", label: "Cancelar a compra (remove as parcelas pendentes)" },
+];
 
 const TransactionList: React.FC<TransactionListProps> = ({
-  transactions,
   onTransactionDeleted,
   onTransactionUpdated,
   selectedDate,
+  accounts = [],
+  categoryFilter = null,
+  onCategoryFilterChange,
 }) => {
+  const { user } = useAuth();
+  const { categories, getCategoryOptions, getCategoryLabel, findCategory } = useCategories();
   const [sortField, setSortField] = useState<keyof Transaction>("date");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
-  const [filterType, setFilterType] = useState<"all" | "income" | "expense">(
+  const [filterType, setFilterType] = useState<"all" | "income" | "expense" | "transfer">(
     "all",
   );
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [selectedTransaction, setSelectedTransaction] =
     useState<Transaction | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
-  const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [date, setDate] = useState<Date | undefined>(new Date());
   const [description, setDescription] = useState("");
   const [amount, setAmount] = useState("");
   const [category, setCategory] = useState("");
+  const [accountId, setAccountId] = useState("no_account");
   const [type, setType] = useState<"income" | "expense">("income");
   const [isRecurring, setIsRecurring] = useState(false);
   const [recurringStartDate, setRecurringStartDate] = useState<Date | undefined>(new Date());
   const [recurringEndDate, setRecurringEndDate] = useState<Date | undefined>(new Date());
-
-  const isTransactionFromSelectedMonth = (date: Date) => {
-    return isSameMonth(date, selectedDate);
+  const [scopeDialogMode, setScopeDialogMode] = useState<"edit" | "delete" | null>(null);
+  const [pendingUpdate, setPendingUpdate] = useState<Transaction | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchTerm(searchTerm), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // O banco filtra pelo mês, tipo, categoria e busca; a busca também acha categorias pelo nome
+  const term = debouncedSearchTerm.trim().toLowerCase();
+  const filters: TransactionFilters = {
+    startDate: format(startOfMonth(selectedDate), "yyyy-MM-dd"),
+    endDate: format(endOfMonth(selectedDate), "yyyy-MM-dd"),
+    type: filterType === "all" ? undefined : filterType,
+    category: categoryFilter || undefined,
+    search: term || undefined,
+    searchCategories: term
+      ? Array.from(new Set(categories.filter((c) => c.name.toLowerCase().includes(term)).map((c) => c.key)))
+      : undefined,
   };
 
-  // Filter transactions
-  const filteredTransactions = transactions.filter((transaction) => {
-    // Filter by type
-    if (filterType !== "all" && transaction.type !== filterType) {
-      return false;
-    }
-
-    // Filter by search term
-    if (
-      searchTerm &&
-      !(
-        transaction.description
-          .toLowerCase()
-          .includes(searchTerm.toLowerCase()) ||
-        transaction.category.toLowerCase().includes(searchTerm.toLowerCase())
-      )
-    ) {
-      return false;
-    }
-
-    // Filter by selected month
-    if (!isSameMonth(transaction.date, selectedDate)) {
-      return false;
-    }
+  const pagesQuery = useTransactionPages(user?.id, filters);
+  const transactions = useMemo(
+    () => (pagesQuery.data?.pages || []).flatMap((page) => page.transactions.map(toListTransaction)),
+    [pagesQuery.data]
+  );
 
-    return true;
-  });
+  // Totais do mês no banco, com a mesma busca da lista: as categorias somam tudo, não só as páginas carregadas
+  const { data: monthTotals = [] } = useTransactionTotals(
+    filters.startDate as string,
+    filters.endDate as string,
+    { search: filters.search, searchCategories: filters.searchCategories },
+    !!user,
+  );
+  const visibleTotals = monthTotals.filter(
+    (total) =>
+      (filterType === "all" || total.type === filterType) && (!categoryFilter || total.category === categoryFilter)
+  );
+  const totalCount = visibleTotals.reduce((sum, total) => sum + total.count, 0);
+
+  // Totais dos últimos 3 meses para o histórico de cada categoria
+  const { data: historyTotals = [] } = useTransactionTotals(
+    format(startOfMonth(subMonths(selectedDate, 2)), "yyyy-MM-dd"),
+    format(endOfMonth(selectedDate), "yyyy-MM-dd"),
+    {},
+    !!user,
+  );
 
-  // Sort transactions
-  const sortedTransactions = [...filteredTransactions].sort((a, b) => {
+  // Sort transactions (the filters were already applied by the database)
+  const compareTransactions = (a: Transaction, b: Transaction) => {
     if (sortField === "date") {
       return sortDirection === "asc"
         ? a.date.getTime() - b.date.getTime()
@@ -194,7 +231,15 @@ const TransactionList: React.FC<TransactionListProps> = ({
     return sortDirection === "asc"
       ? aValue.localeCompare(bValue)
       : bValue.localeCompare(aValue);
-  });
+  };
+  const sortedTransactions = [...transactions].sort(compareTransactions);
+
+  // A exportação não pode parar nas páginas já carregadas
+  const loadAllTransactions = async () => {
+    if (!user) return [];
+    const all = await getTransactions(user.id, filters);
+    return all.map(toListTransaction).sort(compareTransactions);
+  };
 
   const handleSort = (field: keyof Transaction) => {
     if (field === sortField) {
@@ -211,29 +256,63 @@ const TransactionList: React.FC<TransactionListProps> = ({
     setDescription(transaction.description);
     setAmount(transaction.amount.toString());
     setCategory(transaction.category);
-    setType(transaction.type);
+    setAccountId(transaction.account_id || "no_account");
+    // Transferências não abrem o diálogo de detalhes
+    setType(transaction.type as "income" | "expense");
     setIsRecurring(transaction.is_recurring || false);
     setRecurringStartDate(transaction.recurring_start_date);
     setRecurringEndDate(transaction.recurring_end_date);
     setDetailsDialogOpen(true);
   };
 
-  const handleEditTransaction = async (updatedTransaction: Omit<Transaction, "id">) => {
-    if (selectedTransaction) {
-      await onTransactionUpdated({
-        ...updatedTransaction,
-        id: selectedTransaction.id,
-      });
-      setEditDialogOpen(false);
-      if (detailsDialogOpen) setDetailsDialogOpen(false);
+  const handleSubmitDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTransaction) return;
+
+    const updatedTransaction = {
+      ...selectedTransaction,
+      date: date,
+      description: description,
+      amount: parseFloat(amount),
+      category: category,
+      account_id: accountId === "no_account" ? null : accountId,
+      type: type,
+      is_recurring: isRecurring,
+      recurring_start_date: recurringStartDate,
+      recurring_end_date: recurringEndDate,
+    };
+
+    // Ocorrências de uma série e parcelas perguntam o escopo antes de salvar
+    if (selectedTransaction.series_id || selectedTransaction.installment_purchase_id) {
+      setPendingUpdate(updatedTransaction);
+      setScopeDialogMode("edit");
+      return;
     }
+
+    onTransactionUpdated(updatedTransaction);
+    setDetailsDialogOpen(false);
   };
 
   const handleDeleteClick = (transaction: Transaction) => {
     setSelectedTransaction(transaction);
+    if (transaction.series_id || transaction.installment_purchase_id) {
+      setScopeDialogMode("delete");
+      return;
+    }
     setDeleteDialogOpen(true);
   };
 
+  const handleScopeConfirm = (scope: TransactionScope) => {
+    if (scopeDialogMode === "edit" && pendingUpdate) {
+      onTransactionUpdated(pendingUpdate, scope);
+    } else if (scopeDialogMode === "delete" && selectedTransaction) {
+      onTransactionDeleted(selectedTransaction.id, scope);
+    }
+    setScopeDialogMode(null);
+    setPendingUpdate(null);
+    setDetailsDialogOpen(false);
+  };
+
   const confirmDelete = () => {
     if (selectedTransaction) {
       onTransactionDeleted(selectedTransaction.id);
@@ -249,20 +328,66 @@ const TransactionList: React.FC<TransactionListProps> = ({
     }).format(amount);
   };
 
-  // Group transactions by category
-  const groupedTransactions = sortedTransactions.reduce((acc, transaction) => {
-    const category = transaction.category;
-    if (!acc[category]) {
-      acc[category] = {
+  // Transferências não são receita nem despesa: ficam fora do agrupamento por categoria.
+  // Cada transferência aparece uma única vez, pela perna de saída.
+  const transferTransactions = sortedTransactions.filter(
+    (t) => t.type === "transfer" && t.transfer_direction === "out"
+  );
+
+  const getTransferDestination = (transfer: Transaction) =>
+    transactions.find(
+      (t) => t.transfer_id === transfer.transfer_id && t.transfer_direction === "in"
+    );
+
+  const getAccountName = (id?: string) =>
+    accounts.find((account) => account.id === id)?.name || "Conta removida";
+
+  // Group transactions by category (the same key may exist for income and expense, e.g. "other").
+  // Total e quantidade vêm do banco; cada grupo lista as transações das páginas já carregadas.
+  type CategoryGroup = {
+    category: string;
+    transactions: Transaction[];
+    total: number;
+    count: number;
+    type: "income" | "expense";
+  };
+  const groupedTransactions = visibleTotals.reduce((acc, total) => {
+    if (total.type === "transfer") {
+      return acc;
+    }
+    const groupKey = `${total.type}:${total.category}`;
+    acc[groupKey] = {
+      category: total.category,
+      transactions: [],
+      total: total.amount,
+      count: total.count,
+      type: total.type,
+    };
+    return acc;
+  }, {} as Record<string, CategoryGroup>);
+
+  sortedTransactions.forEach((transaction) => {
+    if (transaction.type === "transfer") {
+      return;
+    }
+    const groupKey = `${transaction.type}:${transaction.category}`;
+    // Lançada agora e ainda fora dos totais do banco
+    if (!groupedTransactions[groupKey]) {
+      groupedTransactions[groupKey] = {
+        category: transaction.category,
         transactions: [],
         total: 0,
+        count: 0,
         type: transaction.type,
       };
     }
-    acc[category].transactions.push(transaction);
-    acc[category].total += transaction.amount;
-    return acc;
-  }, {} as Record<string, { transactions: Transaction[]; total: number; type: "income" | "expense" }>);
+    const group = groupedTransactions[groupKey];
+    group.transactions.push(transaction);
+    if (group.transactions.length > group.count) {
+      group.total += transaction.amount;
+      group.count = group.transactions.length;
+    }
+  });
 
   // Sort categories by total amount
   const sortedCategories = Object.entries(groupedTransactions).sort((a, b) => {
@@ -274,15 +399,15 @@ const TransactionList: React.FC<TransactionListProps> = ({
     const history = [];
     for (let i = 0; i < 3; i++) {
       const monthDate = subMonths(selectedDate, i);
-      const monthTotal = transactions
+      const monthTotal = historyTotals
         .filter(
           (t) =>
             t.category === category &&
             t.type === type &&
-            isSameMonth(t.date, monthDate)
+            isSameMonth(parseISO(t.month), monthDate)
         )
         .reduce((sum, t) => sum + t.amount, 0);
-      
+
       history.push({
         month: monthDate,
         total: monthTotal,
@@ -295,7 +420,21 @@ const TransactionList: React.FC<TransactionListProps> = ({
     <Card className="w-full bg-white">
       <CardHeader className="pb-2">
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
-          <CardTitle>Transações</CardTitle>
+          <div className="flex items-center gap-2">
+            <CardTitle>Transações</CardTitle>
+            {categoryFilter && (
+              <Badge variant="secondary" className="gap-1">
+                {getCategoryLabel(categoryFilter)}
+                <button
+                  type="button"
+                  onClick={() => onCategoryFilterChange?.(null)}
+                  aria-label="Remover filtro de categoria"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+          </div>
           <div className="flex flex-col sm:flex-row gap-2 w-full md:w-auto">
             <div className="flex gap-2">
               <Input
@@ -307,7 +446,7 @@ const TransactionList: React.FC<TransactionListProps> = ({
               <Select
                 value={filterType}
                 onValueChange={(value) =>
-                  setFilterType(value as "all" | "income" | "expense")
+                  setFilterType(value as "all" | "income" | "expense" | "transfer")
                 }
               >
                 <SelectTrigger className="w-[130px]">
@@ -317,117 +456,194 @@ const TransactionList: React.FC<TransactionListProps> = ({
                   <SelectItem value="all">Todos</SelectItem>
                   <SelectItem value="income">Receitas</SelectItem>
                   <SelectItem value="expense">Despesas</SelectItem>
+                  <SelectItem value="transfer">Transferências</SelectItem>
                 </SelectContent>
               </Select>
+              <ExportMenu
+                transactions={sortedTransactions}
+                fileName={`transacoes-${format(selectedDate, "yyyy-MM")}`}
+                accounts={accounts}
+                loadAllTransactions={loadAllTransactions}
+                totalCount={Math.max(totalCount, sortedTransactions.length)}
+              />
             </div>
           </div>
         </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {isRecurring && selectedTransaction ? (
-            <TransactionForm
-              onTransactionAdded={handleEditTransaction}
-              defaultDate={selectedTransaction.date}
-            />
-          ) : (
-            <Accordion type="multiple" className="w-full">
-              {sortedCategories.map(([category, { transactions, total, type }]) => {
-                const history = getCategoryHistory(category, type);
-                return (
-                  <AccordionItem key={category} value={category}>
-                    <AccordionTrigger className="hover:no-underline">
-                      <div className="flex items-center justify-between w-full pr-4">
-                        <div className="flex items-center gap-2">
-                          <Badge
-                            variant={type === "income" ? "default" : "destructive"}
-                            className={type === "income" ? "bg-green-600 hover:bg-green-700" : ""}
+          <Accordion type="multiple" className="w-full">
+            {sortedCategories.map(([groupKey, { category, transactions, total, count, type }]) => {
+              const history = getCategoryHistory(category, type);
+              const categoryInfo = findCategory(category, type, transactions[0]?.group_id);
+              const CategoryIcon = getCategoryIcon(categoryInfo?.icon);
+              return (
+                <AccordionItem key={groupKey} value={groupKey}>
+                  <AccordionTrigger className="hover:no-underline">
+                    <div className="flex items-center justify-between w-full pr-4">
+                      <div className="flex items-center gap-2">
+                        <CategoryIcon
+                          className="h-4 w-4"
+                          style={{ color: categoryInfo?.color }}
+                        />
+                        <Badge
+                          variant={type === "income" ? "default" : "destructive"}
+                          className={type === "income" ? "bg-green-600 hover:bg-green-700" : ""}
+                        >
+                          {categoryInfo?.name || category}
+                        </Badge>
+                        <span className="text-sm text-muted-foreground">
+                          {count} {count === 1 ? "transação" : "transações"}
+                        </span>
+                      </div>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className={`font-semibold ${type === "income" ? "text-green-600" : "text-red-600"}`}>
+                              {type === "income" ? "+" : "-"}R$ {total.toFixed(2)}
+                            </span>
+                          </TooltipTrigger>
+                          <TooltipContent className="p-4">
+                            <div className="space-y-2">
+                              <h4 className="font-medium">Histórico dos últimos 3 meses</h4>
+                              {history.map(({ month, total }) => (
+                                <div key={month.toISOString()} className="flex justify-between items-center">
+                                  <span className="text-sm text-muted-foreground">
+                                    {format(month, "MMMM 'de' yyyy", { locale: ptBR })}
+                                  </span>
+                                  <span className={`font-medium ${type === "income" ? "text-green-600" : "text-red-600"}`}>
+                                    {type === "income" ? "+" : "-"}R$ {total.toFixed(2)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Data</TableHead>
+                          <TableHead>Descrição</TableHead>
+                          <TableHead className="text-right">Valor</TableHead>
+                          <TableHead className="text-right">Ações</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {transactions.map((transaction) => (
+                          <TableRow
+                            key={transaction.id}
                           >
-                            {categoryTranslations[category] || category}
-                          </Badge>
-                          <span className="text-sm text-muted-foreground">
-                            {transactions.length} {transactions.length === 1 ? "transação" : "transações"}
-                          </span>
-                        </div>
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger asChild>
-                              <span className={`font-semibold ${type === "income" ? "text-green-600" : "text-red-600"}`}>
-                                {type === "income" ? "+" : "-"}R$ {total.toFixed(2)}
-                              </span>
-                            </TooltipTrigger>
-                            <TooltipContent className="p-4">
-                              <div className="space-y-2">
-                                <h4 className="font-medium">Histórico dos últimos 3 meses</h4>
-                                {history.map(({ month, total }) => (
-                                  <div key={month.toISOString()} className="flex justify-between items-center">
-                                    <span className="text-sm text-muted-foreground">
-                                      {format(month, "MMMM 'de' yyyy", { locale: ptBR })}
-                                    </span>
-                                    <span className={`font-medium ${type === "income" ? "text-green-600" : "text-red-600"}`}>
-                                      {type === "income" ? "+" : "-"}R$ {total.toFixed(2)}
-                                    </span>
-                                  </div>
-                                ))}
+                            <TableCell>
+                              {format(transaction.date, "dd/MM/yyyy", { locale: ptBR })}
+                            </TableCell>
+                            <TableCell>
+                              {transaction.description}
+                              {transaction.installment_number && transaction.installment_count && (
+                                <Badge variant="outline" className="ml-2">
+                                  {formatInstallmentLabel(transaction.installment_number, transaction.installment_count)}
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell
+                              className={`text-right ${
+                                transaction.type === "income" ? "text-green-600" : "text-red-600"
+                              }`}
+                            >
+                              {transaction.type === "income" ? "+" : "-"}R$ {transaction.amount.toFixed(2)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleViewDetails(transaction)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDeleteClick(transaction)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
                               </div>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-                      </div>
-                    </AccordionTrigger>
-                    <AccordionContent>
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            <TableHead>Data</TableHead>
-                            <TableHead>Descrição</TableHead>
-                            <TableHead className="text-right">Valor</TableHead>
-                            <TableHead className="text-right">Ações</TableHead>
+                            </TableCell>
                           </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {transactions.map((transaction) => (
-                            <TableRow
-                              key={transaction.id}
-                            >
-                              <TableCell>
-                                {format(transaction.date, "dd/MM/yyyy", { locale: ptBR })}
-                              </TableCell>
-                              <TableCell>{transaction.description}</TableCell>
-                              <TableCell
-                                className={`text-right ${
-                                  transaction.type === "income" ? "text-green-600" : "text-red-600"
-                                }`}
-                              >
-                                {transaction.type === "income" ? "+" : "-"}R$ {transaction.amount.toFixed(2)}
-                              </TableCell>
-                              <TableCell className="text-right">
-                                <div className="flex justify-end gap-2">
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    onClick={() => handleViewDetails(transaction)}
-                                  >
-                                    <Edit className="h-4 w-4" />
-                                  </Button>
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    onClick={() => handleDeleteClick(transaction)}
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                  </Button>
-                                </div>
-                              </TableCell>
-                            </TableRow>
-                          ))}
-                        </TableBody>
-                      </Table>
-                    </AccordionContent>
-                  </AccordionItem>
-                );
-              })}
-            </Accordion>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </AccordionContent>
+                </AccordionItem>
+              );
+            })}
+          </Accordion>
+
+          {transferTransactions.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">Transferências</Badge>
+                <span className="text-sm text-muted-foreground">
+                  {transferTransactions.length} {transferTransactions.length === 1 ? "transferência" : "transferências"}
+                </span>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>De</TableHead>
+                    <TableHead>Para</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transferTransactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>
+                        {format(transaction.date, "dd/MM/yyyy", { locale: ptBR })}
+                      </TableCell>
+                      <TableCell>{transaction.description}</TableCell>
+                      <TableCell>{getAccountName(transaction.account_id)}</TableCell>
+                      <TableCell>{getAccountName(getTransferDestination(transaction)?.account_id)}</TableCell>
+                      <TableCell className="text-right">
+                        R$ {transaction.amount.toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDeleteClick(transaction)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {pagesQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Carregando transações...</p>
+          ) : transactions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Nenhuma transação encontrada neste mês.</p>
+          ) : pagesQuery.hasNextPage && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => pagesQuery.fetchNextPage()}
+                disabled={pagesQuery.isFetchingNextPage}
+              >
+                {pagesQuery.isFetchingNextPage ? "Carregando..." : "Carregar mais"}
+              </Button>
+            </div>
           )}
         </div>
       </CardContent>
@@ -439,21 +655,7 @@ const TransactionList: React.FC<TransactionListProps> = ({
             <DialogTitle>Editar Transação</DialogTitle>
           </DialogHeader>
           {selectedTransaction && (
-            <form onSubmit={(e) => {
-              e.preventDefault();
-              onTransactionUpdated({
-                ...selectedTransaction,
-                date: date,
-                description: description,
-                amount: parseFloat(amount),
-                category: category,
-                type: type,
-                is_recurring: isRecurring,
-                recurring_start_date: recurringStartDate,
-                recurring_end_date: recurringEndDate,
-              });
-              setDetailsDialogOpen(false);
-            }} className="space-y-4">
+            <form onSubmit={handleSubmitDetails} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label>Tipo</Label>
@@ -478,9 +680,9 @@ const TransactionList: React.FC<TransactionListProps> = ({
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {(type === "income" ? defaultIncomeCategories : defaultExpenseCategories).map((cat) => (
-                        <SelectItem key={cat.value} value={cat.value}>
-                          {cat.label}
+                      {getCategoryOptions(type, selectedTransaction?.group_id).map(({ category: cat, depth }) => (
+                        <SelectItem key={cat.id} value={cat.key}>
+                          <span className={depth > 0 ? "pl-4" : ""}>{cat.name}</span>
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -525,6 +727,25 @@ const TransactionList: React.FC<TransactionListProps> = ({
                 </div>
               </div>
 
+              {accounts.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Conta</Label>
+                  <Select value={accountId} onValueChange={setAccountId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="no_account">Nenhuma conta</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label>Descrição</Label>
                 <Textarea
@@ -534,18 +755,32 @@ const TransactionList: React.FC<TransactionListProps> = ({
                 />
               </div>
 
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="recurring"
-                  checked={isRecurring}
-                  onChange={(e) => setIsRecurring(e.target.checked)}
-                  className="h-4 w-4 rounded border-gray-300"
-                />
-                <Label htmlFor="recurring">Pagamento Recorrente</Label>
-              </div>
+              {selectedTransaction.installment_purchase_id ? (
+                <p className="text-sm text-muted-foreground">
+                  Parcela {formatInstallmentLabel(selectedTransaction.installment_number || 1, selectedTransaction.installment_count || 1)} de uma compra parcelada.
+                  Ao salvar ou excluir, você poderá aplicar a alteração às parcelas pendentes.
+                </p>
+              ) : selectedTransaction.series_id ? (
+                <p className="text-sm text-muted-foreground">
+                  Esta transação faz parte de uma série recorrente
+                  {selectedTransaction.recurring_end_date &&
+                    ` até ${format(selectedTransaction.recurring_end_date, "dd/MM/yyyy")}`}
+                  . Ao salvar ou excluir, você poderá escolher quais ocorrências serão afetadas.
+                </p>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="recurring"
+                    checked={isRecurring}
+                    onChange={(e) => setIsRecurring(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  <Label htmlFor="recurring">Pagamento Recorrente</Label>
+                </div>
+              )}
 
-              {isRecurring && (
+              {isRecurring && !selectedTransaction.series_id && !selectedTransaction.installment_purchase_id && (
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label>Data de Início</Label>
@@ -627,6 +862,37 @@ const TransactionList: React.FC<TransactionListProps> = ({
         </DialogContent>
       </Dialog>
 
+      {/* Recurring Series / Installment Scope Dialog */}
+      <EditScopeDialog<TransactionScope>
+        open={scopeDialogMode !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setScopeDialogMode(null);
+            setPendingUpdate(null);
+          }
+        }}
+        title={
+          selectedTransaction?.installment_purchase_id
+            ? scopeDialogMode === "delete" ? "Excluir parcela" : "Editar parcela"
+            : scopeDialogMode === "delete" ? "Excluir transação recorrente" : "Editar transação recorrente"
+        }
+        description={
+          selectedTransaction?.installment_purchase_id
+            ? "Parcelas já vencidas não são alteradas."
+            : scopeDialogMode === "delete"
+            ? "Quais ocorrências desta série você deseja excluir?"
+            : "Quais ocorrências desta série devem receber as alterações?"
+        }
+        options={
+          selectedTransaction?.installment_purchase_id
+            ? scopeDialogMode === "delete" ? installmentDeleteScopeOptions : installmentEditScopeOptions
+            : seriesScopeOptions
+        }
+        confirmLabel={scopeDialogMode === "delete" ? "Excluir" : "Salvar"}
+        destructive={scopeDialogMode === "delete"}
+        onConfirm={handleScopeConfirm}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from "react";
-import { ChevronLeft, ChevronRight, User, LogOut, Calendar as CalendarIcon, Search, Users, Plus } from "lucide-react";
-import { format, subMonths, addMonths, isSameMonth, startOfMonth, endOfMonth } from "date-fns";
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import { ChevronLeft, ChevronRight, User, LogOut, Calendar as CalendarIcon, Search, Users, Plus, CreditCard, Upload, FileText } from "lucide-react";
+import { format, subMonths, addMonths, isSameMonth, startOfMonth, endOfMonth, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Link, useNavigate } from "react-router-dom";
 import { Calendar } from "@/components/ui/calendar";
@@ -8,6 +8,8 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -24,20 +26,48 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import TransactionForm from "@/components/TransactionForm";
-import TransactionList from "@/components/TransactionList";
+import TransactionList, { TransactionScope } from "@/components/TransactionList";
 import FinancialInsights from "./FinancialInsights";
 import { toast } from "@/components/ui/use-toast";
 import FinancialGroup from "@/components/FinancialGroup";
+import InvitationInbox from "./InvitationInbox";
 import { useAuth } from "@/contexts/AuthContext";
-import { getTransactions, createTransaction, updateTransaction, deleteTransaction } from "@/services/transactions";
+import { TransactionTotal } from "@/services/transactions";
+import {
+  useAccountBalances,
+  useDeleteTransaction,
+  useInvalidateTransactions,
+  useTransactionBalance,
+  useTransactionTotals,
+  useTransactions,
+  useUpdateTransaction,
+} from "@/hooks/useTransactions";
+import { useInvalidateGroups } from "@/hooks/useFinancialGroups";
+import { updateSeriesOccurrences, deleteSeriesOccurrences, SeriesChanges } from "@/services/recurringSeries";
+import { updateInstallmentPurchase, cancelInstallmentPurchase } from "@/services/installments";
+import { deleteTransfer } from "@/services/transfers";
 import MetricsOverview from "./MetricsOverview";
+import AccountBalances from "./AccountBalances";
+import BudgetPanel from "./BudgetPanel";
+import FinancialCharts, { TREND_MONTHS } from "./FinancialCharts";
+import ForecastPanel from "./ForecastPanel";
+import GoalsPanel from "./GoalsPanel";
+import { Budget, getBudgets } from "@/services/budgets";
+import { Goal, GoalContribution, getGoalContributions, getGoals } from "@/services/goals";
+import CreditCardStatements from "./CreditCardStatements";
+import ImportTransactionsDialog from "./ImportTransactionsDialog";
+import ImportOfxDialog from "./ImportOfxDialog";
+import { Account, getAccounts } from "@/services/accounts";
+import { CardStatementPayment, getCardStatementPayments } from "@/services/cardStatements";
+import { AccountingRegime, getReportingDate } from "@/lib/creditCard";
+import { calculateMonthlyTotals, calculateVariations, getMonthTransactions } from "@/lib/monthlyMetrics";
+import { MAX_ROLLOVER_MONTHS } from "@/lib/budgets";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { supabase } from "@/lib/supabase";
 
 interface Transaction {
   id: string;
@@ -45,36 +75,105 @@ interface Transaction {
   description: string;
   amount: number;
   category: string;
-  type: "income" | "expense";
+  type: "income" | "expense" | "transfer";
   is_recurring?: boolean;
   recurring_start_date?: Date;
   recurring_end_date?: Date;
+  series_id?: string;
+  installment_purchase_id?: string;
+  installment_number?: number;
+  installment_count?: number;
+  group_id?: string;
+  account_id?: string;
+  transfer_id?: string;
+  transfer_direction?: "out" | "in";
+  statement_month?: string;
 }
 
+// Totais do banco por mês, tipo e categoria; date é o primeiro dia do mês em que contam
+interface MonthTotal extends TransactionTotal {
+  date: Date;
+}
+
+const toMonthTotals = (totals: TransactionTotal[]): MonthTotal[] =>
+  totals.map((total) => ({ ...total, date: parseISO(total.month) }));
+
 const Home = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading, signOut } = useAuth();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [cardPayments, setCardPayments] = useState<CardStatementPayment[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [goalContributions, setGoalContributions] = useState<GoalContribution[]>([]);
+  const [accountingRegime, setAccountingRegime] = useState<AccountingRegime>("accrual");
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const transactionListRef = useRef<HTMLDivElement>(null);
   const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
-  const [isAddMemberModalOpen, setIsAddMemberModalOpen] = useState(false);
-  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [searchResults, setSearchResults] = useState<any[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
+  const [isCsvImportModalOpen, setIsCsvImportModalOpen] = useState(false);
+  const [isOfxImportModalOpen, setIsOfxImportModalOpen] = useState(false);
 
   const isCurrentMonth = isSameMonth(selectedDate, new Date());
+  const monthStart = startOfMonth(selectedDate);
+  const monthEnd = format(endOfMonth(selectedDate), "yyyy-MM-dd");
+  const trendStart = format(subMonths(monthStart, TREND_MONTHS - 1), "yyyy-MM-dd");
+  const isAuthenticated = !authLoading && !!user;
+
+  // Só a janela exibida: do início do mês anterior ao fim do mês selecionado
+  const windowQuery = useTransactions(
+    user?.id,
+    { startDate: format(subMonths(monthStart, 1), "yyyy-MM-dd"), endDate: monthEnd },
+    isAuthenticated,
+  );
+  // Totais pelo regime escolhido nos meses dos gráficos e saldo acumulado antes deles
+  const totalsQuery = useTransactionTotals(trendStart, monthEnd, { regime: accountingRegime }, isAuthenticated);
+  const { data: trendOpeningBalance = 0 } = useTransactionBalance(
+    trendStart,
+    { regime: accountingRegime },
+    isAuthenticated,
+  );
+  // Gastos pessoais por data, nos meses que o rollover dos orçamentos alcança
+  const budgetTotalsQuery = useTransactionTotals(
+    format(subMonths(monthStart, MAX_ROLLOVER_MONTHS), "yyyy-MM-dd"),
+    monthEnd,
+    { personalOnly: true },
+    isAuthenticated,
+  );
+  const { data: monthEndBalances = {} } = useAccountBalances(monthEnd, isAuthenticated);
+  const { data: currentBalances = {} } = useAccountBalances(format(new Date(), "yyyy-MM-dd"), isAuthenticated);
+  const invalidateTransactions = useInvalidateTransactions();
+  const invalidateGroups = useInvalidateGroups();
+  const updateTransactionMutation = useUpdateTransaction();
+  const deleteTransactionMutation = useDeleteTransaction();
+
+  // parseISO mantém a data no fuso local; new Date("yyyy-MM-dd") seria meia-noite UTC
+  const transactions = useMemo<Transaction[]>(
+    () =>
+      (windowQuery.data || []).map((transaction) => ({
+        ...transaction,
+        date: parseISO(transaction.date),
+        recurring_start_date: transaction.recurring_start_date ? parseISO(transaction.recurring_start_date) : undefined,
+        recurring_end_date: transaction.recurring_end_date ? parseISO(transaction.recurring_end_date) : undefined,
+      })),
+    [windowQuery.data]
+  );
+  const monthTotals = useMemo(() => toMonthTotals(totalsQuery.data || []), [totalsQuery.data]);
+  const budgetTotals = useMemo(() => toMonthTotals(budgetTotalsQuery.data || []), [budgetTotalsQuery.data]);
+  const isLoading = windowQuery.isLoading;
 
   // Carregar transações quando o componente montar
   useEffect(() => {
     console.log('Home: Estado de autenticação:', { user: !!user, authLoading });
     
     if (!authLoading && user) {
-      console.log('Home: Usuário autenticado, carregando transações');
-      loadTransactions();
+      console.log('Home: Usuário autenticado, carregando contas e planejamento');
+      loadAccounts();
+      loadCardPayments();
+      loadBudgets();
+      loadGoals();
     }
   }, [user, authLoading]);
 
@@ -95,85 +194,88 @@ const Home = () => {
     return null;
   }
 
-  const loadTransactions = async () => {
+  const loadAccounts = async () => {
     if (!user) return;
-    
+
     try {
-      setIsLoading(true);
-      console.log('Home: Carregando transações para o usuário:', user.id);
-      const data = await getTransactions(user.id);
-      console.log('Home: Transações carregadas:', data);
-      
-      if (!data) {
-        console.log('Home: Nenhuma transação encontrada');
-        setTransactions([]);
-        return;
-      }
-      
-      const formattedTransactions = data.map(transaction => ({
-        ...transaction,
-        date: new Date(transaction.date),
-        recurring_start_date: transaction.recurring_start_date ? new Date(transaction.recurring_start_date) : undefined,
-        recurring_end_date: transaction.recurring_end_date ? new Date(transaction.recurring_end_date) : undefined,
-      }));
-      
-      setTransactions(formattedTransactions);
+      const data = await getAccounts(user.id);
+      setAccounts(data);
     } catch (error) {
-      console.error('Home: Erro ao carregar transações:', error);
-      toast({
-        title: "Erro",
-        description: "Não foi possível carregar as transações.",
-        variant: "destructive",
-      });
-      setTransactions([]);
-    } finally {
-      setIsLoading(false);
+      console.error('Home: Erro ao carregar contas:', error);
     }
   };
 
-  // Calculate metrics for the selected month
-  const selectedMonthTransactions = transactions.filter((transaction) => {
-    const transactionDate = new Date(transaction.date);
-    return (
-      transactionDate.getMonth() === selectedDate.getMonth() &&
-      transactionDate.getFullYear() === selectedDate.getFullYear()
-    );
-  });
+  const loadCardPayments = async () => {
+    if (!user) return;
 
-  // Calculate metrics for the previous month
-  const previousMonthDate = subMonths(selectedDate, 1);
-  const previousMonthTransactions = transactions.filter((transaction) => {
-    const transactionDate = new Date(transaction.date);
-    return (
-      transactionDate.getMonth() === previousMonthDate.getMonth() &&
-      transactionDate.getFullYear() === previousMonthDate.getFullYear()
-    );
-  });
+    try {
+      const data = await getCardStatementPayments(user.id);
+      setCardPayments(data);
+    } catch (error) {
+      console.error('Home: Erro ao carregar faturas pagas:', error);
+    }
+  };
 
-  const selectedMonthIncome = selectedMonthTransactions
-    .filter((t) => t.type === "income")
-    .reduce((sum, transaction) => sum + transaction.amount, 0);
+  const loadBudgets = async () => {
+    if (!user) return;
 
-  const selectedMonthExpenses = selectedMonthTransactions
-    .filter((t) => t.type === "expense")
-    .reduce((sum, transaction) => sum + transaction.amount, 0);
+    try {
+      const data = await getBudgets(user.id);
+      setBudgets(data);
+    } catch (error) {
+      console.error('Home: Erro ao carregar orçamentos:', error);
+    }
+  };
 
-  const selectedMonthBalance = selectedMonthIncome - selectedMonthExpenses;
+  const loadGoals = async () => {
+    if (!user) return;
 
-  const previousMonthIncome = previousMonthTransactions
-    .filter((t) => t.type === "income")
-    .reduce((sum, transaction) => sum + transaction.amount, 0);
+    try {
+      const [goalsData, contributionsData] = await Promise.all([
+        getGoals(user.id),
+        getGoalContributions(user.id),
+      ]);
+      setGoals(goalsData);
+      setGoalContributions(contributionsData);
+    } catch (error) {
+      console.error('Home: Erro ao carregar metas:', error);
+    }
+  };
 
-  const previousMonthExpenses = previousMonthTransactions
-    .filter((t) => t.type === "expense")
-    .reduce((sum, transaction) => sum + transaction.amount, 0);
+  // Os totais já vêm no mês da fatura ou, no regime de caixa, no mês do pagamento
+  const selectedMonthRows = getMonthTransactions(monthTotals, selectedDate, (total) => total.date);
+  const previousMonthRows = getMonthTransactions(monthTotals, subMonths(selectedDate, 1), (total) => total.date);
 
-  const previousMonthBalance = previousMonthIncome - previousMonthExpenses;
+  const selectedMonthTotals = calculateMonthlyTotals(selectedMonthRows);
+  const {
+    income: selectedMonthIncome,
+    expenses: selectedMonthExpenses,
+    balance: selectedMonthBalance,
+  } = selectedMonthTotals;
+  const selectedMonthCount = selectedMonthRows.reduce((sum, total) => sum + total.count, 0);
 
   // Calculate variations
-  const incomeVariation = previousMonthIncome === 0 ? 0 : ((selectedMonthIncome - previousMonthIncome) / previousMonthIncome) * 100;
-  const expensesVariation = previousMonthExpenses === 0 ? 0 : ((selectedMonthExpenses - previousMonthExpenses) / previousMonthExpenses) * 100;
-  const balanceVariation = previousMonthBalance === 0 ? 0 : ((selectedMonthBalance - previousMonthBalance) / previousMonthBalance) * 100;
+  const {
+    income: incomeVariation,
+    expenses: expensesVariation,
+    balance: balanceVariation,
+  } = calculateVariations(selectedMonthTotals, calculateMonthlyTotals(previousMonthRows));
+
+  // Clique nos gráficos abre a lista de transações filtrada pela categoria ou pelo mês
+  const showTransactionList = () => {
+    transactionListRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  const handleChartCategorySelect = (category: string) => {
+    setCategoryFilter(category);
+    showTransactionList();
+  };
+
+  const handleChartMonthSelect = (month: Date) => {
+    setSelectedDate(month);
+    setCategoryFilter(null);
+    showTransactionList();
+  };
 
   // Handle month navigation
   const goToPreviousMonth = () => {
@@ -184,69 +286,67 @@ const Home = () => {
     setSelectedDate(prevDate => addMonths(prevDate, 1));
   };
 
-  // Handle adding new transactions
-  const handleAddTransaction = async (transaction: Omit<Transaction, "id">) => {
-    if (!user) return;
-
-    try {
-      const savedTransaction = await createTransaction({
-        ...transaction,
-        user_id: user.id,
-        date: transaction.date.toISOString().split('T')[0],
-        is_recurring: transaction.is_recurring || false,
-        recurring_start_date: transaction.recurring_start_date?.toISOString().split('T')[0],
-        recurring_end_date: transaction.recurring_end_date?.toISOString().split('T')[0],
-      });
-
-      const formattedTransaction = {
-        ...savedTransaction,
-        date: new Date(savedTransaction.date),
-        recurring_start_date: savedTransaction.recurring_start_date ? new Date(savedTransaction.recurring_start_date) : undefined,
-        recurring_end_date: savedTransaction.recurring_end_date ? new Date(savedTransaction.recurring_end_date) : undefined,
-      };
+  // O formulário já grava e atualiza o cache; aqui só fecha o modal
+  const handleAddTransaction = async () => {
+    setIsTransactionModalOpen(false);
+  };
 
-      setTransactions((prev) => [formattedTransaction, ...prev]);
-      setIsTransactionModalOpen(false);
-      toast({
-        title: "Sucesso",
-        description: "Transação adicionada com sucesso",
-      });
-    } catch (error) {
-      console.error("Erro ao adicionar transação:", error);
-      toast({
-        title: "Erro",
-        description: "Não foi possível adicionar a transação",
-        variant: "destructive",
-      });
-    }
+  // O pagamento da fatura é uma transferência: entram as duas pernas e a fatura passa a constar como paga
+  const handleStatementPaid = (payment: CardStatementPayment) => {
+    setCardPayments((prev) => [payment, ...prev]);
+    invalidateTransactions();
   };
 
   // Handle editing transactions
-  const handleEditTransaction = async (updatedTransaction: Transaction) => {
+  const handleEditTransaction = async (updatedTransaction: Transaction, scope?: TransactionScope) => {
     if (!user) return;
     
     try {
-      const transaction = await updateTransaction({
-        ...updatedTransaction,
-        user_id: user.id,
-        date: updatedTransaction.date.toISOString().split('T')[0],
-        recurring_start_date: updatedTransaction.recurring_start_date?.toISOString().split('T')[0],
-        recurring_end_date: updatedTransaction.recurring_end_date?.toISOString().split('T')[0],
-      });
+      const changes = {
+        type: updatedTransaction.type,
+        description: updatedTransaction.description,
+        amount: updatedTransaction.amount,
+        category: updatedTransaction.category,
+        account_id: updatedTransaction.account_id ?? null,
+        date: format(updatedTransaction.date, "yyyy-MM-dd"),
+      };
 
-      // Atualizar a lista de transações imediatamente
-      setTransactions(prevTransactions =>
-        prevTransactions.map((t) =>
-          t.id === updatedTransaction.id
-            ? {
-                ...transaction,
-                date: new Date(transaction.date),
-                recurring_start_date: transaction.recurring_start_date ? new Date(transaction.recurring_start_date) : undefined,
-                recurring_end_date: transaction.recurring_end_date ? new Date(transaction.recurring_end_date) : undefined,
-              }
-            : t
-        )
-      );
+      const original = transactions.find((t) => t.id === updatedTransaction.id);
+
+      // As duas pernas de uma transferência só mudam juntas: a lista oferece apenas excluir
+      if (original?.transfer_id) {
+        throw new Error('Transfer legs cannot be edited one at a time');
+      }
+
+      if (scope === "pending" && original?.installment_purchase_id) {
+        await updateInstallmentPurchase(original.installment_purchase_id, {
+          description: changes.description,
+          category: changes.category,
+          account_id: changes.account_id,
+          amount: changes.amount,
+        });
+        await invalidateTransactions(!!original.group_id);
+      } else if (scope && scope !== "pending" && original?.series_id) {
+        await updateSeriesOccurrences(
+          { id: original.id, series_id: original.series_id, date: format(original.date, "yyyy-MM-dd") },
+          // Séries nunca são transferências
+          changes as SeriesChanges,
+          scope,
+        );
+        // Várias ocorrências mudaram: recarregar em segundo plano sem bloquear a tela
+        await invalidateTransactions(!!original.group_id);
+      } else {
+        // Uma só linha: aparece alterada na hora e volta ao que era se o servidor recusar
+        await updateTransactionMutation.mutateAsync({
+          id: updatedTransaction.id,
+          updates: {
+            ...changes,
+            is_recurring: updatedTransaction.is_recurring,
+            recurring_start_date: updatedTransaction.recurring_start_date ? format(updatedTransaction.recurring_start_date, "yyyy-MM-dd") : undefined,
+            recurring_end_date: updatedTransaction.recurring_end_date ? format(updatedTransaction.recurring_end_date, "yyyy-MM-dd") : undefined,
+          },
+        });
+      }
 
       toast({
         title: "Sucesso",
@@ -263,13 +363,31 @@ const Home = () => {
   };
 
   // Handle deleting transactions
-  const handleDeleteTransaction = async (id: string) => {
+  const handleDeleteTransaction = async (id: string, scope?: TransactionScope) => {
     try {
-      await deleteTransaction(id);
-      
-      // Atualizar a lista de transações imediatamente
-      setTransactions(prevTransactions => prevTransactions.filter(t => t.id !== id));
-      
+      const original = transactions.find((t) => t.id === id);
+
+      if (original?.transfer_id) {
+        // Remove as duas pernas da transferência
+        const transferId = original.transfer_id;
+        await deleteTransfer(transferId);
+        // Excluir o pagamento de uma fatura reabre a fatura
+        setCardPayments(prevPayments => prevPayments.filter(p => p.transfer_id !== transferId));
+        await invalidateTransactions();
+      } else if (scope === "pending" && original?.installment_purchase_id) {
+        await cancelInstallmentPurchase(original.installment_purchase_id);
+        await invalidateTransactions(!!original.group_id);
+      } else if (scope && scope !== "pending" && original?.series_id) {
+        await deleteSeriesOccurrences(
+          { id, series_id: original.series_id, date: format(original.date, "yyyy-MM-dd") },
+          scope,
+        );
+        await invalidateTransactions(!!original.group_id);
+      } else {
+        // Uma só linha: some da lista na hora e volta se o servidor recusar
+        await deleteTransactionMutation.mutateAsync(id);
+      }
+
       toast({
         title: "Sucesso",
         description: "Transação excluída com sucesso.",
@@ -284,11 +402,6 @@ const Home = () => {
     }
   };
 
-  // Combine current and previous month transactions
-  const combinedTransactions = [...selectedMonthTransactions, ...previousMonthTransactions].sort((a, b) => {
-    return new Date(b.date).getTime() - new Date(a.date).getTime();
-  });
-
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("pt-BR", {
       style: "currency",
@@ -296,23 +409,6 @@ const Home = () => {
     }).format(amount);
   };
 
-  // Agrupar transações por categoria
-  const getCategoryTotals = (type: "income" | "expense") => {
-    return selectedMonthTransactions
-      .filter(t => t.type === type)
-      .reduce((acc, transaction) => {
-        const category = transaction.category;
-        if (!acc[category]) {
-          acc[category] = 0;
-        }
-        acc[category] += transaction.amount;
-        return acc;
-      }, {} as Record<string, number>);
-  };
-
-  const incomeByCategory = getCategoryTotals("income");
-  const expensesByCategory = getCategoryTotals("expense");
-
   const handleLogout = async () => {
     try {
       await signOut(() => navigate("/login"));
@@ -321,68 +417,6 @@ const Home = () => {
     }
   };
 
-  const handleShareGroup = (groupId: string) => {
-    setSelectedGroupId(groupId);
-    setIsAddMemberModalOpen(true);
-  };
-
-  const handleSearchUsers = async (searchTerm: string) => {
-    if (!searchTerm.trim()) {
-      setSearchResults([]);
-      return;
-    }
-
-    setIsSearching(true);
-    try {
-      const { data: users, error } = await supabase
-        .from('profiles')
-        .select('id, email, full_name')
-        .or(`email.ilike.%${searchTerm}%,full_name.ilike.%${searchTerm}%`)
-        .limit(5);
-
-      if (error) throw error;
-
-      setSearchResults(users || []);
-    } catch (error) {
-      console.error('Erro ao buscar usuários:', error);
-      toast({
-        title: "Erro",
-        description: "Não foi possível buscar usuários",
-        variant: "destructive",
-      });
-    } finally {
-      setIsSearching(false);
-    }
-  };
-
-  const handleAddMember = async (userId: string) => {
-    if (!selectedGroupId) return;
-
-    try {
-      const { error } = await supabase
-        .from('group_members')
-        .insert([{ group_id: selectedGroupId, user_id: userId, role: 'member' }]);
-
-      if (error) throw error;
-
-      toast({
-        title: "Sucesso",
-        description: "Membro adicionado com sucesso",
-      });
-
-      setIsAddMemberModalOpen(false);
-      setSearchTerm("");
-      setSearchResults([]);
-    } catch (error) {
-      console.error('Erro ao adicionar membro:', error);
-      toast({
-        title: "Erro",
-        description: "Não foi possível adicionar o membro",
-        variant: "destructive",
-      });
-    }
-  };
-
   return (
     <div className="container mx-auto p-4 space-y-8 bg-background min-h-screen">
       {isLoading ? (
@@ -414,6 +448,12 @@ const Home = () => {
                 <CalendarIcon className="h-4 w-4" />
                 {format(selectedDate, "MMMM yyyy", { locale: ptBR })}
               </Button>
+              <Button variant="outline" className="gap-2" asChild>
+                <Link to={`/relatorio?mes=${format(selectedDate, "yyyy-MM")}&regime=${accountingRegime}`}>
+                  <FileText className="h-4 w-4" />
+                  Relatório
+                </Link>
+              </Button>
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" size="icon">
@@ -452,18 +492,49 @@ const Home = () => {
                   <Users className="h-4 w-4" />
                   Compartilhado
                 </TabsTrigger>
+                <TabsTrigger value="cards" className="gap-2">
+                  <CreditCard className="h-4 w-4" />
+                  Cartões
+                </TabsTrigger>
               </TabsList>
-              <Button 
-                onClick={() => setIsTransactionModalOpen(true)}
-                className="bg-blue-600 hover:bg-blue-700"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Nova Transação
-              </Button>
+              <div className="flex items-center gap-2">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline">
+                      <Upload className="h-4 w-4 mr-2" />
+                      Importar
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setIsCsvImportModalOpen(true)}>
+                      Extrato CSV
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsOfxImportModalOpen(true)}>
+                      Extrato OFX
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button 
+                  onClick={() => setIsTransactionModalOpen(true)}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Nova Transação
+                </Button>
+              </div>
             </div>
 
             <TabsContent value="personal" className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="flex items-center justify-end gap-2">
+                <Switch
+                  id="accounting-regime"
+                  checked={accountingRegime === "cash"}
+                  onCheckedChange={(checked) => setAccountingRegime(checked ? "cash" : "accrual")}
+                />
+                <Label htmlFor="accounting-regime">Regime de caixa</Label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                 <Card>
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-sm font-medium">
@@ -519,6 +590,13 @@ const Home = () => {
                   </CardContent>
                 </Card>
 
+                <AccountBalances
+                  accounts={accounts}
+                  balances={monthEndBalances}
+                  selectedDate={selectedDate}
+                  onAccountCreated={(account) => setAccounts((prev) => [...prev, account])}
+                />
+
                 <Card>
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-sm font-medium">
@@ -527,31 +605,86 @@ const Home = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="text-2xl font-bold">
-                      {selectedMonthTransactions.length}
+                      {selectedMonthCount}
                     </div>
                   </CardContent>
                 </Card>
               </div>
 
+              <div className="px-4 md:px-8">
+                <FinancialCharts
+                  totals={monthTotals}
+                  openingBalance={trendOpeningBalance}
+                  selectedDate={selectedDate}
+                  onCategorySelect={handleChartCategorySelect}
+                  onMonthSelect={handleChartMonthSelect}
+                />
+              </div>
+
+              <div className="px-4 md:px-8">
+                <ForecastPanel
+                  accounts={accounts}
+                  regime={accountingRegime}
+                  getReportingDate={(transaction) =>
+                    getReportingDate(transaction, accountingRegime, cardPayments)
+                  }
+                />
+              </div>
+
               <div className="px-4 md:px-8">
                 <FinancialInsights
                   transactions={transactions}
                   selectedDate={selectedDate}
+                  budgets={budgets}
+                  budgetTotals={budgetTotals}
+                  goals={goals}
+                  goalContributions={goalContributions}
                 />
               </div>
 
-              <div className="px-4 md:px-8 pb-8">
+              <div className="px-4 md:px-8">
+                <BudgetPanel
+                  budgets={budgets}
+                  transactions={budgetTotals}
+                  selectedDate={selectedDate}
+                  onBudgetsChange={setBudgets}
+                />
+              </div>
+
+              <div className="px-4 md:px-8">
+                <GoalsPanel
+                  goals={goals}
+                  contributions={goalContributions}
+                  accounts={accounts}
+                  balances={currentBalances}
+                  onGoalsChange={setGoals}
+                  onContributionsChange={setGoalContributions}
+                />
+              </div>
+
+              <div ref={transactionListRef} className="px-4 md:px-8 pb-8 scroll-mt-4">
                 <TransactionList
-                  transactions={transactions}
                   onTransactionUpdated={handleEditTransaction}
                   onTransactionDeleted={handleDeleteTransaction}
                   selectedDate={selectedDate}
+                  accounts={accounts}
+                  categoryFilter={categoryFilter}
+                  onCategoryFilterChange={setCategoryFilter}
                 />
               </div>
             </TabsContent>
 
             <TabsContent value="shared" className="space-y-4">
-              <FinancialGroup userId={user.id} onShareGroup={handleShareGroup} />
+              <InvitationInbox onAccepted={invalidateGroups} />
+              <FinancialGroup userId={user.id} selectedDate={selectedDate} />
+            </TabsContent>
+
+            <TabsContent value="cards" className="space-y-4">
+              <CreditCardStatements
+                accounts={accounts}
+                payments={cardPayments}
+                onStatementPaid={handleStatementPaid}
+              />
             </TabsContent>
           </Tabs>
         </>
@@ -570,51 +703,19 @@ const Home = () => {
         </DialogContent>
       </Dialog>
 
-      {/* Modal de Adicionar Membro */}
-      <Dialog open={isAddMemberModalOpen} onOpenChange={setIsAddMemberModalOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Adicionar Membro ao Grupo</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Buscar Usuário</label>
-              <Input
-                placeholder="Digite o nome ou email do usuário"
-                value={searchTerm}
-                onChange={(e) => {
-                  setSearchTerm(e.target.value);
-                  handleSearchUsers(e.target.value);
-                }}
-              />
-            </div>
-
-            {isSearching ? (
-              <div className="flex items-center justify-center py-4">
-                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
-              </div>
-            ) : (
-              <div className="space-y-2">
-                {searchResults.map((user) => (
-                  <div
-                    key={user.id}
-                    className="flex items-center justify-between p-2 rounded-lg hover:bg-accent cursor-pointer"
-                    onClick={() => handleAddMember(user.id)}
-                  >
-                    <div>
-                      <p className="font-medium">{user.full_name || 'Usuário'}</p>
-                      <p className="text-sm text-muted-foreground">{user.email}</p>
-                    </div>
-                    <Button variant="ghost" size="sm">
-                      Adicionar
-                    </Button>
-                  </div>
-                ))}
-              </div>
-            )}
-          </div>
-        </DialogContent>
-      </Dialog>
+      {/* Modal de Importação de Extrato */}
+      <ImportTransactionsDialog
+        open={isCsvImportModalOpen}
+        onOpenChange={setIsCsvImportModalOpen}
+        accounts={accounts}
+        onImported={() => invalidateTransactions()}
+      />
+      <ImportOfxDialog
+        open={isOfxImportModalOpen}
+        onOpenChange={setIsOfxImportModalOpen}
+        accounts={accounts}
+        onImported={() => invalidateTransactions()}
+      />
     </div>
   );
 };
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useEffect, useState } from "react";
 import { Session, User } from "@supabase/supabase-js";
 import { supabase } from "../lib/supabase";
 import { toast } from "@/components/ui/use-toast";
+import { queryClient } from "@/lib/queryClient";
 
 type AuthContextType = {
   session: Session | null;
@@ -168,6 +169,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
 
+      // Os dados em cache são do usuário que saiu
+      queryClient.clear();
+
       toast({
         title: "Sucesso",
         description: "Logout realizado com sucesso!",
@@ -0,0 +1,115 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { useAuth } from "./AuthContext";
+import {
+  Category,
+  CategoryChanges,
+  CategoryType,
+  NewCategory,
+  archiveCategory as archiveCategoryRow,
+  createCategory,
+  getCategories,
+  updateCategory as updateCategoryRow,
+} from "@/services/categories";
+import { sortCategoryTree } from "@/lib/categories";
+
+type CategoryOption = { category: Category; depth: number };
+
+type CategoriesContextType = {
+  // Todas as categorias visíveis, inclusive arquivadas, para nomear transações antigas
+  categories: Category[];
+  loading: boolean;
+  getCategoryOptions: (type: CategoryType, groupId?: string | null) => CategoryOption[];
+  findCategory: (key: string, type?: string, groupId?: string | null) => Category | undefined;
+  getCategoryLabel: (key: string, type?: string, groupId?: string | null) => string;
+  // A chave da categoria e as das suas subcategorias
+  getCategoryKeys: (key: string, type?: string, groupId?: string | null) => string[];
+  addCategory: (category: Omit<NewCategory, "user_id">) => Promise<Category>;
+  updateCategory: (id: string, changes: CategoryChanges) => Promise<Category>;
+  archiveCategory: (id: string, archived?: boolean) => Promise<Category>;
+  reloadCategories: () => Promise<void>;
+};
+
+const CategoriesContext = createContext<CategoriesContextType | undefined>(undefined);
+
+export function CategoriesProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reloadCategories = async () => {
+    if (!user) {
+      setCategories([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const data = await getCategories();
+      setCategories(data);
+    } catch (error) {
+      console.error('CategoriesProvider: Erro ao carregar categorias:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reloadCategories();
+  }, [user?.id]);
+
+  const replaceCategory = (category: Category) => {
+    setCategories((prev) => prev.map((c) => (c.id === category.id ? category : c)));
+    return category;
+  };
+
+  // Categorias do grupo vêm antes das do usuário, que vêm antes das padrão
+  const getScopeRank = (category: Category, groupId?: string | null) => {
+    if (category.group_id) return category.group_id === groupId ? 0 : -1;
+    return category.user_id ? 1 : 2;
+  };
+
+  const findCategory = (key: string, type?: string, groupId?: string | null) =>
+    categories
+      .filter((c) => c.key === key && (!type || c.type === type) && getScopeRank(c, groupId) >= 0)
+      .sort((a, b) => getScopeRank(a, groupId) - getScopeRank(b, groupId))[0];
+
+  const value = {
+    categories,
+    loading,
+    getCategoryOptions: (type: CategoryType, groupId?: string | null) =>
+      sortCategoryTree(
+        categories.filter(
+          (c) => c.type === type && !c.archived && (!c.group_id || c.group_id === groupId)
+        )
+      ),
+    findCategory,
+    getCategoryLabel: (key: string, type?: string, groupId?: string | null) =>
+      findCategory(key, type, groupId)?.name || key,
+    getCategoryKeys: (key: string, type?: string, groupId?: string | null) => {
+      const parent = findCategory(key, type, groupId);
+      if (!parent) return [key];
+      return [key, ...categories.filter((c) => c.parent_id === parent.id).map((c) => c.key)];
+    },
+    addCategory: async (category: Omit<NewCategory, "user_id">) => {
+      const created = await createCategory({ ...category, user_id: user?.id });
+      setCategories((prev) => [...prev, created]);
+      return created;
+    },
+    updateCategory: async (id: string, changes: CategoryChanges) =>
+      replaceCategory(await updateCategoryRow(id, changes)),
+    archiveCategory: async (id: string, archived = true) =>
+      replaceCategory(await archiveCategoryRow(id, archived)),
+    reloadCategories,
+  };
+
+  return <CategoriesContext.Provider value={value}>{children}</CategoriesContext.Provider>;
+}
+
+export function useCategories() {
+  const context = useContext(CategoriesContext);
+  if (context === undefined) {
+    throw new Error("useCategories must be used within a CategoriesProvider");
+  }
+  return context;
+}
@@ -0,0 +1,37 @@
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { getFinancialGroups } from "@/services/financialGroups";
+import { queryKeys } from "@/lib/queryClient";
+
+/**
+ * Groups of the user with members, balances and the income and expenses of the month (whole history without one).
+ * Screens showing the same month share the cached result.
+ */
+export const useFinancialGroups = (userId: string | undefined, month?: Date) => {
+  const monthKey = month ? format(month, "yyyy-MM") : null;
+
+  return useQuery({
+    queryKey: queryKeys.groups.dashboards(userId || "", monthKey),
+    queryFn: () =>
+      getFinancialGroups(
+        userId!,
+        month
+          ? {
+              start: format(startOfMonth(month), "yyyy-MM-dd"),
+              end: format(endOfMonth(month), "yyyy-MM-dd"),
+            }
+          : undefined
+      ),
+    enabled: !!userId,
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: "Não foi possível carregar os grupos." },
+  });
+};
+
+/**
+ * Refetches the group dashboards after a change to groups, members, settlements or group transactions
+ */
+export const useInvalidateGroups = () => {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: queryKeys.groups.all });
+};
@@ -0,0 +1,37 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { PixSettings, Profile, getProfile, updatePixSettings } from "@/services/profiles";
+import { queryKeys } from "@/lib/queryClient";
+
+export const useProfile = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.profile(userId || ""),
+    queryFn: () => getProfile(userId!),
+    enabled: !!userId,
+  });
+
+/**
+ * Saves the PIX settings, showing them right away and restoring the previous ones if the save fails.
+ * Group dashboards embed member profiles, so they are refetched too.
+ */
+export const useUpdatePixSettings = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Profile, Error, Profile & PixSettings, { previous?: Profile | null }>({
+    mutationFn: updatePixSettings,
+    onMutate: async (profile) => {
+      const key = queryKeys.profile(profile.id);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Profile | null>(key);
+      queryClient.setQueryData<Profile | null>(key, { ...previous, ...profile });
+      return { previous };
+    },
+    onError: (_error, profile, context) => {
+      queryClient.setQueryData(queryKeys.profile(profile.id), context?.previous);
+    },
+    onSettled: (_data, _error, profile) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.profile(profile.id) }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.groups.all }),
+      ]),
+  });
+};
@@ -0,0 +1,234 @@
+import {
+  InfiniteData,
+  QueryClient,
+  QueryKey,
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  NewTransaction,
+  Transaction,
+  TransactionCursor,
+  TransactionFilters,
+  TransactionPage,
+  TransactionTotalsOptions,
+  createTransaction,
+  deleteTransaction,
+  getTransactionBalance,
+  getTransactionTotals,
+  getTransactions,
+  queryTransactions,
+  updateTransaction,
+} from "@/services/transactions";
+import { getAccountBalances } from "@/services/accounts";
+import { queryKeys } from "@/lib/queryClient";
+
+const LOAD_ERROR = "Não foi possível carregar as transações.";
+
+/**
+ * Every transaction matching the filters (all pages)
+ */
+export const useTransactions = (userId: string | undefined, filters: TransactionFilters, enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.transactions.list(userId || "", filters),
+    queryFn: () => getTransactions(userId!, filters),
+    enabled: !!userId && enabled,
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: LOAD_ERROR },
+  });
+
+/**
+ * Transactions matching the filters, one page at a time (fetchNextPage loads the next one)
+ */
+export const useTransactionPages = (userId: string | undefined, filters: TransactionFilters) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.transactions.page(userId || "", filters),
+    queryFn: ({ pageParam }) => queryTransactions(userId!, filters, pageParam),
+    initialPageParam: null as TransactionCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!userId,
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: LOAD_ERROR },
+  });
+
+export const useTransactionTotals = (
+  startDate: string,
+  endDate: string,
+  options: TransactionTotalsOptions = {},
+  enabled = true,
+) =>
+  useQuery({
+    queryKey: queryKeys.transactions.totals(startDate, endDate, options),
+    queryFn: () => getTransactionTotals(startDate, endDate, options),
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+
+export const useTransactionBalance = (beforeDate: string, options: TransactionTotalsOptions = {}, enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.transactions.balance(beforeDate, options),
+    queryFn: () => getTransactionBalance(beforeDate, options),
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+
+export const useAccountBalances = (until: string, enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.transactions.accountBalances(until),
+    queryFn: () => getAccountBalances(until),
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+
+/**
+ * Refetches everything derived from transactions; group dashboards too when a group transaction changed
+ */
+export const useInvalidateTransactions = () => {
+  const queryClient = useQueryClient();
+  return (touchesGroups = false) => invalidateTransactions(queryClient, touchesGroups);
+};
+
+const invalidateTransactions = (queryClient: QueryClient, touchesGroups: boolean) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.transactions.all }),
+    touchesGroups ? queryClient.invalidateQueries({ queryKey: queryKeys.groups.all }) : Promise.resolve(),
+  ]);
+
+// Mesmo critério do banco; com busca, a linha só aparece quando o servidor confirmar
+const matchesFilters = (transaction: Transaction, filters: TransactionFilters) =>
+  !filters.search &&
+  (!filters.startDate || transaction.date >= filters.startDate) &&
+  (!filters.endDate || transaction.date <= filters.endDate) &&
+  (!filters.type || transaction.type === filters.type) &&
+  (!filters.category || transaction.category === filters.category) &&
+  (filters.groupId === undefined ||
+    (filters.groupId === null ? !transaction.group_id : transaction.group_id === filters.groupId)) &&
+  (!filters.accountIds || (!!transaction.account_id && filters.accountIds.includes(transaction.account_id)));
+
+type CacheSnapshot = [QueryKey, unknown][];
+
+interface OptimisticContext {
+  snapshot: CacheSnapshot;
+  touchesGroups: boolean;
+}
+
+/**
+ * Rewrites every cached list and page of transactions; returns the previous data to roll back
+ */
+const updateCachedTransactions = async (
+  queryClient: QueryClient,
+  update: (transactions: Transaction[], filters: TransactionFilters, isFirstPage: boolean) => Transaction[],
+): Promise<CacheSnapshot> => {
+  // Uma busca em andamento sobrescreveria a alteração otimista
+  await queryClient.cancelQueries({ queryKey: queryKeys.transactions.all });
+
+  const lists = queryClient.getQueriesData<Transaction[]>({ queryKey: queryKeys.transactions.lists() });
+  const pages = queryClient.getQueriesData<InfiniteData<TransactionPage>>({ queryKey: queryKeys.transactions.pages() });
+
+  lists.forEach(([key, data]) => {
+    if (!data) return;
+    queryClient.setQueryData(key, update(data, key[3] as TransactionFilters, true));
+  });
+  pages.forEach(([key, data]) => {
+    if (!data) return;
+    queryClient.setQueryData<InfiniteData<TransactionPage>>(key, {
+      ...data,
+      pages: data.pages.map((page, index) => ({
+        ...page,
+        transactions: update(page.transactions, key[3] as TransactionFilters, index === 0),
+      })),
+    });
+  });
+
+  return [...lists, ...pages];
+};
+
+const findCachedTransaction = (queryClient: QueryClient, id: string) => {
+  for (const [, data] of queryClient.getQueriesData<Transaction[]>({ queryKey: queryKeys.transactions.lists() })) {
+    const found = data?.find((transaction) => transaction.id === id);
+    if (found) return found;
+  }
+  for (const [, data] of queryClient.getQueriesData<InfiniteData<TransactionPage>>({
+    queryKey: queryKeys.transactions.pages(),
+  })) {
+    const found = data?.pages.flatMap((page) => page.transactions).find((transaction) => transaction.id === id);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const rollback = (queryClient: QueryClient, context?: OptimisticContext) => {
+  context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data));
+};
+
+// Ordem das listas: data desc, id desc
+const sortTransactions = (transactions: Transaction[]) =>
+  [...transactions].sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+
+/**
+ * Creates a single transaction, showing it in the cached lists before the server answers
+ */
+export const useCreateTransaction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Transaction, Error, NewTransaction, OptimisticContext>({
+    mutationFn: createTransaction,
+    onMutate: async (transaction) => {
+      const optimistic: Transaction = { ...transaction, id: `optimistic-${Date.now()}` };
+      const snapshot = await updateCachedTransactions(queryClient, (transactions, filters, isFirstPage) =>
+        isFirstPage && matchesFilters(optimistic, filters) ? sortTransactions([optimistic, ...transactions]) : transactions
+      );
+      return { snapshot, touchesGroups: !!transaction.group_id };
+    },
+    onError: (_error, _transaction, context) => rollback(queryClient, context),
+    onSettled: (_data, _error, _transaction, context) => invalidateTransactions(queryClient, !!context?.touchesGroups),
+  });
+};
+
+/**
+ * Updates a single transaction in place, rolling the cached lists back if the server refuses it
+ */
+export const useUpdateTransaction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Transaction, Error, { id: string; updates: Partial<Transaction> }, OptimisticContext>({
+    mutationFn: ({ id, updates }) => updateTransaction(id, updates),
+    onMutate: async ({ id, updates }) => {
+      const original = findCachedTransaction(queryClient, id);
+      const snapshot = await updateCachedTransactions(queryClient, (transactions, filters) =>
+        transactions.flatMap((transaction) => {
+          if (transaction.id !== id) return [transaction];
+          const updated = { ...transaction, ...updates };
+          // Uma linha que deixou de atender aos filtros (outro mês, outro tipo) sai da lista
+          return matchesFilters(updated, { ...filters, search: undefined }) ? [updated] : [];
+        })
+      );
+      return { snapshot, touchesGroups: !!original?.group_id || !!updates.group_id };
+    },
+    onError: (_error, _variables, context) => rollback(queryClient, context),
+    onSettled: (_data, _error, _variables, context) => invalidateTransactions(queryClient, !!context?.touchesGroups),
+  });
+};
+
+/**
+ * Deletes a single transaction, removing it from the cached lists right away
+ */
+export const useDeleteTransaction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string, OptimisticContext>({
+    mutationFn: deleteTransaction,
+    onMutate: async (id) => {
+      const original = findCachedTransaction(queryClient, id);
+      const snapshot = await updateCachedTransactions(queryClient, (transactions) =>
+        transactions.filter((transaction) => transaction.id !== id)
+      );
+      return { snapshot, touchesGroups: !!original?.group_id };
+    },
+    onError: (_error, _id, context) => rollback(queryClient, context),
+    onSettled: (_data, _error, _id, context) => invalidateTransactions(queryClient, !!context?.touchesGroups),
+  });
+};
@@ -0,0 +1,35 @@
+interface BalanceAccount {
+  id: string;
+  opening_balance: number;
+}
+
+interface BalanceTransaction {
+  date: Date;
+  amount: number;
+  type: string;
+  account_id?: string | null;
+  transfer_direction?: "out" | "in" | null;
+}
+
+/**
+ * Signed effect of a transaction on the balance of its account
+ */
+export const getBalanceEffect = (transaction: BalanceTransaction) => {
+  if (transaction.type === "transfer") {
+    return transaction.transfer_direction === "in" ? Number(transaction.amount) : -Number(transaction.amount);
+  }
+  return transaction.type === "income" ? Number(transaction.amount) : -Number(transaction.amount);
+};
+
+/**
+ * Pairs each account with its balance computed by the database; accounts it did not return yet
+ * (created after the last load) show their opening balance
+ */
+export const attachAccountBalances = <A extends BalanceAccount>(
+  accounts: A[],
+  balances: Record<string, number>,
+): { account: A; balance: number }[] =>
+  accounts.map((account) => ({
+    account,
+    balance: balances[account.id] ?? Number(account.opening_balance),
+  }));
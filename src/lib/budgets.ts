@@ -0,0 +1,129 @@
+import { format, isBefore, isSameMonth, parseISO, startOfMonth, subMonths } from "date-fns";
+
+export type BudgetStatus = "ok" | "warning" | "exceeded";
+
+// Percentual do limite a partir do qual o orçamento entra em alerta
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+// Até quantos meses para trás o saldo de um orçamento com rollover é acumulado
+export const MAX_ROLLOVER_MONTHS = 24;
+
+interface BudgetRule {
+  category: string;
+  month?: string | null;
+  amount: number;
+  rollover: boolean;
+  created_at?: string;
+}
+
+interface BudgetTransaction {
+  date: Date;
+  amount: number;
+  type: string;
+  category: string;
+}
+
+export interface BudgetProgress<B extends BudgetRule> {
+  budget: B;
+  category: string;
+  limit: number;
+  // Sobra (positiva) ou estouro (negativo) trazido do mês anterior
+  carryOver: number;
+  available: number;
+  spent: number;
+  percentage: number;
+  status: BudgetStatus;
+}
+
+export const toBudgetMonth = (date: Date) => format(startOfMonth(date), "yyyy-MM-dd");
+
+/**
+ * Budget that applies to a category in a month: a budget for that specific month wins over an "every month" one
+ */
+export const getBudgetForMonth = <B extends BudgetRule>(budgets: B[], category: string, month: Date) => {
+  const monthKey = toBudgetMonth(month);
+  return (
+    budgets.find((b) => b.category === category && b.month === monthKey) ||
+    budgets.find((b) => b.category === category && !b.month)
+  );
+};
+
+// Primeiro mês em que o orçamento vale para fins de rollover
+const getBudgetStart = (budget: BudgetRule) => {
+  if (budget.month) return parseISO(budget.month);
+  return budget.created_at ? startOfMonth(parseISO(budget.created_at)) : null;
+};
+
+export const getBudgetStatus = (percentage: number): BudgetStatus => {
+  if (percentage >= 100) return "exceeded";
+  if (percentage >= BUDGET_WARNING_THRESHOLD * 100) return "warning";
+  return "ok";
+};
+
+/**
+ * Budget vs. actual for every budgeted category in the month.
+ * getCategoryKeys lets a budget on a parent category also count its subcategories.
+ */
+export const calculateBudgetProgress = <B extends BudgetRule>(
+  budgets: B[],
+  transactions: BudgetTransaction[],
+  month: Date,
+  getCategoryKeys: (category: string) => string[] = (category) => [category],
+): BudgetProgress<B>[] => {
+  const getSpent = (category: string, target: Date) => {
+    const keys = getCategoryKeys(category);
+    return transactions
+      .filter((t) => t.type === "expense" && keys.includes(t.category) && isSameMonth(t.date, target))
+      .reduce((sum, t) => sum + Number(t.amount), 0);
+  };
+
+  // Saldo acumulado dos meses anteriores, enquanto o orçamento de cada mês tiver rollover ligado
+  const getCarryOver = (category: string, target: Date) => {
+    let carryOver = 0;
+    const chain: { amount: number; spent: number }[] = [];
+    let current = target;
+
+    for (let i = 0; i < MAX_ROLLOVER_MONTHS; i++) {
+      const budget = getBudgetForMonth(budgets, category, current);
+      if (!budget?.rollover) break;
+
+      const previous = subMonths(current, 1);
+      const previousBudget = getBudgetForMonth(budgets, category, previous);
+      const previousStart = previousBudget && getBudgetStart(previousBudget);
+      if (!previousBudget || !previousStart || isBefore(previous, previousStart)) break;
+
+      chain.push({ amount: Number(previousBudget.amount), spent: getSpent(category, previous) });
+      current = previous;
+    }
+
+    // Do mês mais antigo para o mais recente
+    for (let i = chain.length - 1; i >= 0; i--) {
+      carryOver = chain[i].amount + carryOver - chain[i].spent;
+    }
+    return carryOver;
+  };
+
+  const categories = Array.from(new Set(budgets.map((b) => b.category)));
+
+  return categories.flatMap((category) => {
+    const budget = getBudgetForMonth(budgets, category, month);
+    if (!budget) return [];
+
+    const limit = Number(budget.amount);
+    const carryOver = Math.round(getCarryOver(category, month) * 100) / 100;
+    const available = limit + carryOver;
+    const spent = Math.round(getSpent(category, month) * 100) / 100;
+    const percentage = available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0;
+
+    return [{
+      budget,
+      category,
+      limit,
+      carryOver,
+      available,
+      spent,
+      percentage,
+      status: getBudgetStatus(percentage),
+    }];
+  }).sort((a, b) => b.percentage - a.percentage);
+};
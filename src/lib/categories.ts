@@ -0,0 +1,114 @@
+import {
+  Baby,
+  Briefcase,
+  Car,
+  Coffee,
+  Dog,
+  Dumbbell,
+  Fuel,
+  Gamepad2,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  Laptop,
+  LucideIcon,
+  PiggyBank,
+  Plane,
+  Receipt,
+  Repeat,
+  Shirt,
+  ShoppingCart,
+  Smartphone,
+  Tag,
+  TrendingUp,
+  Utensils,
+  Wifi,
+  Zap,
+} from "lucide-react";
+
+export const DEFAULT_CATEGORY_COLOR = "#64748b";
+export const DEFAULT_CATEGORY_ICON = "tag";
+
+// Ícones disponíveis para as categorias; o nome é o que fica gravado no banco
+export const categoryIcons: Record<string, LucideIcon> = {
+  tag: Tag,
+  briefcase: Briefcase,
+  laptop: Laptop,
+  "trending-up": TrendingUp,
+  gift: Gift,
+  home: Home,
+  utensils: Utensils,
+  car: Car,
+  gamepad: Gamepad2,
+  zap: Zap,
+  "heart-pulse": HeartPulse,
+  repeat: Repeat,
+  "shopping-cart": ShoppingCart,
+  "graduation-cap": GraduationCap,
+  plane: Plane,
+  "piggy-bank": PiggyBank,
+  shirt: Shirt,
+  dog: Dog,
+  baby: Baby,
+  wifi: Wifi,
+  fuel: Fuel,
+  coffee: Coffee,
+  dumbbell: Dumbbell,
+  smartphone: Smartphone,
+  receipt: Receipt,
+};
+
+export const categoryColorOptions = [
+  "#64748b",
+  "#dc2626",
+  "#ea580c",
+  "#ca8a04",
+  "#16a34a",
+  "#0d9488",
+  "#0284c7",
+  "#2563eb",
+  "#4f46e5",
+  "#9333ea",
+  "#db2777",
+  "#e11d48",
+];
+
+interface TreeCategory {
+  id: string;
+  name: string;
+  parent_id?: string | null;
+}
+
+export const getCategoryIcon = (icon?: string | null): LucideIcon =>
+  (icon && categoryIcons[icon]) || Tag;
+
+/**
+ * Turns a category name into the key stored in transactions.category ("Pet Shop" -> "pet_shop")
+ */
+export const toCategoryKey = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+/**
+ * Orders categories as a tree: each parent followed by its subcategories, alphabetically
+ */
+export const sortCategoryTree = <C extends TreeCategory>(categories: C[]): { category: C; depth: number }[] => {
+  const byName = (a: C, b: C) => a.name.localeCompare(b.name, "pt-BR");
+  const ids = new Set(categories.map((category) => category.id));
+  // Subcategorias cujo pai não está na lista (ex.: pai arquivado) aparecem na raiz
+  const roots = categories.filter((category) => !category.parent_id || !ids.has(category.parent_id)).sort(byName);
+
+  return roots.flatMap((root) => [
+    { category: root, depth: 0 },
+    ...categories
+      .filter((category) => category.parent_id === root.id)
+      .sort(byName)
+      .map((category) => ({ category, depth: 1 })),
+  ]);
+};
@@ -0,0 +1,150 @@
+import { getDaysInMonth, isAfter, parseISO, setDate, startOfDay, startOfMonth, subMonths } from "date-fns";
+
+export type StatementStatus = "open" | "closed" | "paid";
+
+// "accrual": gastos do cartão contam no mês da fatura; "cash": no mês em que a fatura é paga
+export type AccountingRegime = "accrual" | "cash";
+
+// Compras no cartão feitas até dois meses antes de um mês ainda podem cair nas faturas dele
+export const CARD_LOOKBACK_MONTHS = 2;
+
+export const statementStatusLabels: Record<StatementStatus, string> = {
+  open: "Aberta",
+  closed: "Fechada",
+  paid: "Paga",
+};
+
+interface StatementCard {
+  id: string;
+  closing_day?: number | null;
+  due_day?: number | null;
+}
+
+interface StatementTransaction {
+  id: string;
+  date: Date;
+  amount: number;
+  type: string;
+  account_id?: string | null;
+  statement_month?: string | null;
+}
+
+interface StatementPayment {
+  account_id: string;
+  statement_month: string;
+  amount: number;
+  paid_at: string;
+}
+
+export interface CardStatement<T extends StatementTransaction, P extends StatementPayment> {
+  account_id: string;
+  statement_month: string;
+  closing_date: Date;
+  due_date: Date;
+  total: number;
+  status: StatementStatus;
+  transactions: T[];
+  payment?: P;
+}
+
+/**
+ * Returns the given day of the month, clamped to the month length
+ */
+const getClampedDay = (month: Date, day: number) =>
+  setDate(startOfMonth(month), Math.min(day, getDaysInMonth(month)));
+
+/**
+ * Closing and due dates of the statement identified by its due month.
+ * When the due day is not after the closing day, the statement closes in the previous month.
+ */
+export const getStatementDates = (statementMonth: string, closingDay: number, dueDay: number) => {
+  const dueMonth = parseISO(statementMonth);
+  const closingMonth = dueDay > closingDay ? dueMonth : subMonths(dueMonth, 1);
+
+  return {
+    closing_date: getClampedDay(closingMonth, closingDay),
+    due_date: getClampedDay(dueMonth, dueDay),
+  };
+};
+
+/**
+ * Groups the card transactions into statements, newest first, with their totals and status
+ */
+export const buildCardStatements = <T extends StatementTransaction, P extends StatementPayment>(
+  card: StatementCard,
+  transactions: T[],
+  payments: P[],
+  today: Date = new Date(),
+): CardStatement<T, P>[] => {
+  if (!card.closing_day || !card.due_day) return [];
+
+  const byMonth = transactions.reduce((acc, transaction) => {
+    if (transaction.account_id !== card.id || !transaction.statement_month) {
+      return acc;
+    }
+    if (!acc[transaction.statement_month]) {
+      acc[transaction.statement_month] = [];
+    }
+    acc[transaction.statement_month].push(transaction);
+    return acc;
+  }, {} as Record<string, T[]>);
+
+  const cardPayments = payments.filter((payment) => payment.account_id === card.id);
+  cardPayments.forEach((payment) => {
+    if (!byMonth[payment.statement_month]) {
+      byMonth[payment.statement_month] = [];
+    }
+  });
+
+  return Object.entries(byMonth)
+    .map(([statementMonth, statementTransactions]) => {
+      const { closing_date, due_date } = getStatementDates(statementMonth, card.closing_day!, card.due_day!);
+      const payment = cardPayments.find((p) => p.statement_month === statementMonth);
+      // Estornos (receitas no cartão) abatem o total da fatura
+      const total = statementTransactions.reduce(
+        (sum, t) => sum + (t.type === "income" ? -Number(t.amount) : Number(t.amount)),
+        0,
+      );
+
+      // Compras feitas no dia do fechamento já vão para a fatura seguinte
+      const status: StatementStatus = payment
+        ? "paid"
+        : !isAfter(closing_date, startOfDay(today)) ? "closed" : "open";
+
+      return {
+        account_id: card.id,
+        statement_month: statementMonth,
+        closing_date,
+        due_date,
+        total: Math.round(total * 100) / 100,
+        status,
+        transactions: statementTransactions,
+        payment,
+      };
+    })
+    .sort((a, b) => b.statement_month.localeCompare(a.statement_month));
+};
+
+/**
+ * Date a transaction counts in the month totals under the chosen regime.
+ * Card transactions count on their statement month (accrual) or when the statement is paid (cash);
+ * returns null for card transactions whose statement is still unpaid under the cash regime.
+ */
+export const getReportingDate = (
+  transaction: Pick<StatementTransaction, "date" | "account_id" | "statement_month">,
+  regime: AccountingRegime,
+  payments: StatementPayment[],
+): Date | null => {
+  if (!transaction.statement_month) {
+    return transaction.date;
+  }
+
+  if (regime === "accrual") {
+    return parseISO(transaction.statement_month);
+  }
+
+  const payment = payments.find(
+    (p) => p.account_id === transaction.account_id && p.statement_month === transaction.statement_month,
+  );
+  return payment ? parseISO(payment.paid_at) : null;
+};
@@ -0,0 +1,337 @@
+import { format, isValid, parse } from "date-fns";
+
+export type CsvDelimiter = "," | ";" | "\t" | "|";
+export type DecimalSeparator = "," | ".";
+export type BankPreset = "nubank" | "nubank_card" | "itau" | "inter" | "bb" | "generic";
+
+export interface ColumnMapping {
+  date: number | null;
+  description: number | null;
+  amount: number | null;
+  // Coluna opcional com o tipo (C/D, Entrada/Saída); sem ela, o sinal do valor decide
+  type: number | null;
+}
+
+export interface ImportOptions {
+  decimalSeparator: DecimalSeparator;
+  // Extratos de cartão trazem as compras como valores positivos
+  invertSign?: boolean;
+}
+
+export interface ImportRow {
+  line: number;
+  date: string | null;
+  description: string;
+  amount: number | null;
+  type: "income" | "expense";
+  errors: string[];
+}
+
+interface BankPresetDefinition {
+  label: string;
+  delimiter: CsvDelimiter;
+  decimalSeparator: DecimalSeparator;
+  invertSign?: boolean;
+  // Cabeçalhos que identificam o banco, já normalizados (o arquivo pode ter outros)
+  signature: string[];
+}
+
+export const bankPresets: Record<BankPreset, BankPresetDefinition> = {
+  nubank: {
+    label: "Nubank (conta)",
+    delimiter: ",",
+    decimalSeparator: ".",
+    signature: ["data", "valor", "identificador", "descricao"],
+  },
+  nubank_card: {
+    label: "Nubank (cartão)",
+    delimiter: ",",
+    decimalSeparator: ".",
+    invertSign: true,
+    signature: ["date", "title", "amount"],
+  },
+  itau: {
+    label: "Itaú",
+    delimiter: ";",
+    decimalSeparator: ",",
+    signature: ["data", "lancamento", "valor"],
+  },
+  inter: {
+    label: "Inter",
+    delimiter: ";",
+    decimalSeparator: ",",
+    signature: ["data lancamento", "descricao", "valor", "saldo"],
+  },
+  bb: {
+    label: "Banco do Brasil",
+    delimiter: ",",
+    decimalSeparator: ",",
+    signature: ["data", "lancamento", "detalhes", "valor", "tipo lancamento"],
+  },
+  generic: {
+    label: "Outro banco",
+    delimiter: ",",
+    decimalSeparator: ",",
+    signature: [],
+  },
+};
+
+const DELIMITERS: CsvDelimiter[] = [";", ",", "\t", "|"];
+
+// Palavras dos cabeçalhos usadas para sugerir o mapeamento das colunas
+const HEADER_HINTS: Record<keyof ColumnMapping, string[]> = {
+  date: ["data lancamento", "data", "date", "dt"],
+  description: ["descricao", "lancamento", "historico", "title", "detalhes", "estabelecimento", "memo"],
+  amount: ["valor", "amount", "quantia", "montante"],
+  type: ["tipo lancamento", "tipo", "natureza", "d/c", "c/d"],
+};
+
+const DATE_FORMATS = ["dd/MM/yyyy", "dd/MM/yy", "yyyy-MM-dd", "dd-MM-yyyy", "dd.MM.yyyy"];
+
+export const normalizeHeader = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+/**
+ * Splits one CSV line, honoring quoted fields ("a;b" stays one cell and "" is an escaped quote)
+ */
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+};
+
+/**
+ * Reads a bank statement file; Brazilian banks often export Windows-1252 instead of UTF-8
+ */
+export const readStatementFile = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+  const text = new TextDecoder("utf-8").decode(buffer);
+  return text.includes("\uFFFD") ? new TextDecoder("windows-1252").decode(buffer) : text;
+};
+
+const getLines = (text: string) =>
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+
+/**
+ * Picks the delimiter that splits the first lines into the same (and largest) number of columns
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = getLines(text).slice(0, 10);
+  let best: CsvDelimiter = ",";
+  let bestScore = 0;
+
+  DELIMITERS.forEach((delimiter) => {
+    const counts = sample.map((line) => splitCsvLine(line, delimiter).length);
+    const columns = Math.min(...counts);
+    const consistent = counts.filter((count) => count === counts[0]).length;
+    const score = columns > 1 ? columns * consistent : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+export const parseCsv = (text: string, delimiter: CsvDelimiter): string[][] =>
+  getLines(text).map((line) => splitCsvLine(line, delimiter));
+
+/**
+ * Index of the header row: the first row with as many columns as most of the file
+ * (some banks add account information lines before the header)
+ */
+export const findHeaderRow = (rows: string[][]) => {
+  const counts = rows.map((row) => row.length);
+  const frequency = counts.reduce((acc, count) => {
+    acc[count] = (acc[count] || 0) + 1;
+    return acc;
+  }, {} as Record<number, number>);
+  const commonCount = Number(Object.entries(frequency).sort((a, b) => b[1] - a[1])[0]?.[0] || 0);
+  return Math.max(0, counts.findIndex((count) => count === commonCount));
+};
+
+/**
+ * Decimal comma when the amounts look like "1.234,56" or "12,90"
+ */
+export const detectDecimalSeparator = (values: string[]): DecimalSeparator => {
+  const commaDecimals = values.filter((value) => /,\d{1,2}\s*$/.test(value.trim())).length;
+  const dotDecimals = values.filter((value) => /\.\d{1,2}\s*$/.test(value.trim())).length;
+  return commaDecimals >= dotDecimals && commaDecimals > 0 ? "," : dotDecimals > 0 ? "." : ",";
+};
+
+/**
+ * Parses amounts like "R$ -1.234,56", "(12,90)" or "1234.56"; returns null when invalid
+ */
+export const parseImportAmount = (value: string, decimalSeparator: DecimalSeparator): number | null => {
+  let text = value.replace(/R\$|\s/g, "");
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+
+  const thousandsSeparator = decimalSeparator === "," ? "." : ",";
+  text = text.split(thousandsSeparator).join("").replace(decimalSeparator, ".");
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const amount = Number(text);
+  return negative ? -amount : amount;
+};
+
+/**
+ * Parses the usual Brazilian date formats into "yyyy-MM-dd"; returns null when invalid
+ */
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(text, dateFormat, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) {
+      return format(date, "yyyy-MM-dd");
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads a type cell: C/crédito/entrada are income, D/débito/saída are expense
+ */
+const parseImportType = (value: string): "income" | "expense" | null => {
+  const text = normalizeHeader(value);
+  if (!text) return null;
+  if (/^(c|credito|entrada|receita|deposito)/.test(text)) return "income";
+  if (/^(d|debito|saida|despesa|pagamento|compra)/.test(text)) return "expense";
+  return null;
+};
+
+/**
+ * Bank whose signature headers are all present; the most specific signature wins (BB also has Itaú's columns)
+ */
+export const detectBankPreset = (headers: string[]): BankPreset => {
+  const normalized = headers.map(normalizeHeader);
+  const [match] = (Object.keys(bankPresets) as BankPreset[])
+    .filter((preset) => {
+      const signature = bankPresets[preset].signature;
+      return signature.length > 0 && signature.every((header) => normalized.includes(header));
+    })
+    .sort((a, b) => bankPresets[b].signature.length - bankPresets[a].signature.length);
+  return match || "generic";
+};
+
+/**
+ * Suggests which column holds each field, based on the header names
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+
+  const find = (field: keyof ColumnMapping) => {
+    for (const hint of HEADER_HINTS[field]) {
+      const index = normalized.findIndex((header, i) => !used.has(i) && header === hint);
+      if (index >= 0) {
+        used.add(index);
+        return index;
+      }
+    }
+    for (const hint of HEADER_HINTS[field]) {
+      const index = normalized.findIndex((header, i) => !used.has(i) && header.includes(hint));
+      if (index >= 0) {
+        used.add(index);
+        return index;
+      }
+    }
+    return null;
+  };
+
+  // A ordem importa: "tipo lançamento" e "data lançamento" não podem virar a descrição
+  const date = find("date");
+  const type = find("type");
+  const amount = find("amount");
+  const description = find("description");
+  return { date, description, amount, type };
+};
+
+/**
+ * Converts the data rows into transactions to import, collecting validation errors per row
+ */
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  firstLine = 1,
+): ImportRow[] =>
+  rows.map((row, index) => {
+    const errors: string[] = [];
+    const cell = (column: number | null) => (column === null ? "" : row[column] ?? "");
+
+    const date = parseImportDate(cell(mapping.date));
+    if (mapping.date === null) errors.push("Coluna de data não mapeada");
+    else if (!date) errors.push(`Data inválida: "${cell(mapping.date)}"`);
+
+    const description = cell(mapping.description);
+    if (!description) errors.push("Descrição vazia");
+
+    let amount = parseImportAmount(cell(mapping.amount), options.decimalSeparator);
+    if (mapping.amount === null) errors.push("Coluna de valor não mapeada");
+    else if (amount === null) errors.push(`Valor inválido: "${cell(mapping.amount)}"`);
+    else if (amount === 0) errors.push("Valor igual a zero");
+
+    if (amount !== null && options.invertSign) {
+      amount = -amount;
+    }
+
+    let type: "income" | "expense" = amount !== null && amount > 0 ? "income" : "expense";
+    if (mapping.type !== null) {
+      const parsedType = parseImportType(cell(mapping.type));
+      if (parsedType) type = parsedType;
+      else errors.push(`Tipo não reconhecido: "${cell(mapping.type)}"`);
+    }
+
+    return {
+      line: firstLine + index,
+      date,
+      description,
+      amount: amount === null ? null : Math.abs(amount),
+      type,
+      errors,
+    };
+  });
@@ -0,0 +1,256 @@
+import { format } from "date-fns";
+
+export type ExportFormat = "csv" | "xlsx" | "ofx" | "json";
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  ofx: "OFX",
+  json: "JSON",
+};
+
+interface ExportTransaction {
+  id: string;
+  date: Date;
+  description: string;
+  amount: number;
+  type: string;
+  category: string;
+  account_id?: string | null;
+  group_id?: string | null;
+  user_id?: string | null;
+  transfer_direction?: "out" | "in" | null;
+}
+
+export interface ExportRow {
+  id: string;
+  date: string;
+  description: string;
+  type: string;
+  category: string;
+  // Com sinal: negativo para despesas e saídas de transferência
+  amount: number;
+  account: string;
+  // Só nas exportações com transações de grupo
+  created_by?: string;
+}
+
+interface ExportLabels {
+  getCategoryLabel: (transaction: ExportTransaction) => string;
+  getAccountName: (accountId?: string | null) => string;
+  // Informado quando há transações de grupo, para identificar o membro que criou cada linha
+  getCreatorName?: (userId?: string | null) => string;
+}
+
+const typeLabels: Record<string, string> = {
+  income: "Receita",
+  expense: "Despesa",
+  transfer: "Transferência",
+};
+
+const mimeTypes: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ofx: "application/x-ofx",
+  json: "application/json",
+};
+
+const getSignedAmount = (transaction: ExportTransaction) => {
+  const amount = Number(transaction.amount);
+  if (transaction.type === "income") return amount;
+  if (transaction.type === "transfer") return transaction.transfer_direction === "in" ? amount : -amount;
+  return -amount;
+};
+
+/**
+ * Flattens transactions into export rows, keeping the order they were given (the list's filter and sort)
+ */
+export const buildExportRows = (transactions: ExportTransaction[], labels: ExportLabels): ExportRow[] =>
+  transactions.map((transaction) => ({
+    id: transaction.id,
+    date: format(transaction.date, "yyyy-MM-dd"),
+    description: transaction.description,
+    type: typeLabels[transaction.type] || transaction.type,
+    category: transaction.type === "transfer" ? "" : labels.getCategoryLabel(transaction),
+    amount: Math.round(getSignedAmount(transaction) * 100) / 100,
+    account: labels.getAccountName(transaction.account_id),
+    ...(labels.getCreatorName ? { created_by: labels.getCreatorName(transaction.user_id) } : {}),
+  }));
+
+const hasCreator = (rows: ExportRow[]) => rows.some((row) => row.created_by !== undefined);
+
+const formatDateBR = (date: string) => date.split("-").reverse().join("/");
+
+// Número no formato brasileiro sem separador de milhar, que planilhas em pt-BR leem como número
+const formatAmountBR = (amount: number) => amount.toFixed(2).replace(".", ",");
+
+const escapeCsv = (value: string) =>
+  /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV in the pt-BR convention (";" between columns, decimal comma, dd/MM/yyyy), with a BOM so Excel reads UTF-8
+ */
+export const exportToCsv = (rows: ExportRow[]) => {
+  const withCreator = hasCreator(rows);
+  const header = ["Data", "Descrição", "Tipo", "Categoria", "Valor", "Conta"];
+  if (withCreator) header.push("Criado por");
+
+  const lines = rows.map((row) => {
+    const cells = [
+      formatDateBR(row.date),
+      row.description,
+      row.type,
+      row.category,
+      formatAmountBR(row.amount),
+      row.account,
+    ];
+    if (withCreator) cells.push(row.created_by || "");
+    return cells.map(escapeCsv).join(";");
+  });
+
+  return "\uFEFF" + [header.join(";"), ...lines].join("\r\n");
+};
+
+export const exportToJson = (rows: ExportRow[]) => JSON.stringify(rows, null, 2);
+
+const escapeOfx = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const formatOfxDate = (date: string) => date.replace(/-/g, "");
+
+/**
+ * OFX 1.02 (SGML) bank statement; the transaction id becomes the FITID so re-imports don't duplicate rows
+ */
+export const exportToOfx = (rows: ExportRow[], now = new Date()) => {
+  const dates = rows.map((row) => row.date).sort();
+  const today = format(now, "yyyyMMddHHmmss");
+  const start = dates.length ? formatOfxDate(dates[0]) : today.slice(0, 8);
+  const end = dates.length ? formatOfxDate(dates[dates.length - 1]) : today.slice(0, 8);
+
+  const transactions = rows.map((row) => [
+    "<STMTTRN>",
+    `<TRNTYPE>${row.amount >= 0 ? "CREDIT" : "DEBIT"}`,
+    `<DTPOSTED>${formatOfxDate(row.date)}`,
+    `<TRNAMT>${row.amount.toFixed(2)}`,
+    `<FITID>${row.id}`,
+    `<NAME>${escapeOfx(row.description)}`,
+    ...(row.category ? [`<MEMO>${escapeOfx(row.category)}`] : []),
+    "</STMTTRN>",
+  ].join("\n"));
+
+  const balance = rows.reduce((sum, row) => sum + row.amount, 0);
+
+  return [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:UTF-8",
+    "CHARSET:NONE",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1><SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${today}`,
+    "<LANGUAGE>POR",
+    "</SONRS></SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1><STMTTRNRS>",
+    "<TRNUID>1",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    "<STMTRS>",
+    "<CURDEF>BRL",
+    "<BANKACCTFROM><BANKID>0000<ACCTID>AppFinanceiro<ACCTTYPE>CHECKING</BANKACCTFROM>",
+    "<BANKTRANLIST>",
+    `<DTSTART>${start}`,
+    `<DTEND>${end}`,
+    ...transactions,
+    "</BANKTRANLIST>",
+    `<LEDGERBAL><BALAMT>${balance.toFixed(2)}<DTASOF>${today}</LEDGERBAL>`,
+    "</STMTRS>",
+    "</STMTTRNRS></BANKMSGSRSV1>",
+    "</OFX>",
+  ].join("\n");
+};
+
+/**
+ * XLSX with the transactions and a second sheet summarizing income and expenses per category
+ */
+export const exportToXlsx = async (rows: ExportRow[]) => {
+  const { default: ExcelJS } = await import("exceljs");
+  const withCreator = hasCreator(rows);
+
+  const workbook = new ExcelJS.Workbook();
+  const transactionsSheet = workbook.addWorksheet("Transações");
+  transactionsSheet.columns = [
+    { header: "Data", key: "date" },
+    { header: "Descrição", key: "description" },
+    { header: "Tipo", key: "type" },
+    { header: "Categoria", key: "category" },
+    { header: "Valor", key: "amount" },
+    { header: "Conta", key: "account" },
+    ...(withCreator ? [{ header: "Criado por", key: "created_by" }] : []),
+  ];
+  transactionsSheet.addRows(
+    rows.map((row) => ({
+      date: formatDateBR(row.date),
+      description: row.description,
+      type: row.type,
+      category: row.category,
+      amount: row.amount,
+      account: row.account,
+      created_by: row.created_by || "",
+    }))
+  );
+
+  const summary = rows
+    .filter((row) => row.category)
+    .reduce((acc, row) => {
+      const key = `${row.type}:${row.category}`;
+      if (!acc[key]) {
+        acc[key] = { type: row.type, category: row.category, count: 0, total: 0 };
+      }
+      acc[key].count += 1;
+      acc[key].total = Math.round((acc[key].total + Math.abs(row.amount)) * 100) / 100;
+      return acc;
+    }, {} as Record<string, { type: string; category: string; count: number; total: number }>);
+
+  const summarySheet = workbook.addWorksheet("Resumo por categoria");
+  summarySheet.columns = [
+    { header: "Tipo", key: "type" },
+    { header: "Categoria", key: "category" },
+    { header: "Quantidade", key: "count" },
+    { header: "Total", key: "total" },
+  ];
+  summarySheet.addRows(
+    Object.values(summary).sort((a, b) => a.type.localeCompare(b.type) || b.total - a.total)
+  );
+
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+};
+
+const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Generates the file in the chosen format and triggers the browser download
+ */
+export const downloadExport = async (exportFormat: ExportFormat, rows: ExportRow[], baseName: string) => {
+  const content =
+    exportFormat === "csv" ? exportToCsv(rows)
+    : exportFormat === "xlsx" ? await exportToXlsx(rows)
+    : exportFormat === "ofx" ? exportToOfx(rows)
+    : exportToJson(rows);
+
+  downloadFile(content, `${baseName}.${exportFormat}`, mimeTypes[exportFormat]);
+};
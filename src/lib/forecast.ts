@@ -0,0 +1,207 @@
+import {
+  addMonths,
+  endOfDay,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  isAfter,
+  isBefore,
+  isSameMonth,
+  setDate,
+  startOfMonth,
+  subMonths,
+} from "date-fns";
+import { getBalanceEffect } from "./balances";
+
+export type ForecastStatus = "ok" | "below_cushion" | "negative";
+
+export const FORECAST_HORIZONS = [3, 6, 12];
+
+// Meses completos usados na média dos gastos avulsos por categoria
+export const TRAILING_MONTHS = 3;
+
+interface ForecastTransaction {
+  id: string;
+  date: Date;
+  amount: number;
+  type: string;
+  category: string;
+  is_recurring?: boolean;
+  recurring_start_date?: Date;
+  recurring_end_date?: Date;
+  series_id?: string | null;
+  installment_purchase_id?: string | null;
+  transfer_direction?: "out" | "in" | null;
+}
+
+export interface ForecastMonth {
+  month: Date;
+  // Lançamentos já cadastrados no mês mais as ocorrências recorrentes que ainda não existem
+  scheduledIncome: number;
+  scheduledExpenses: number;
+  // Média dos gastos avulsos por categoria, descontado o que já foi lançado no mês
+  variableExpenses: number;
+  balance: number;
+  status: ForecastStatus;
+}
+
+export interface Forecast {
+  startingBalance: number;
+  categoryAverages: Record<string, number>;
+  months: ForecastMonth[];
+}
+
+interface ForecastOptions<T extends ForecastTransaction> {
+  transactions: T[];
+  // Soma dos saldos iniciais das contas
+  openingBalance: number;
+  today: Date;
+  months: number;
+  safetyCushion: number;
+  // Data em que cada transação conta (fatura do cartão ou regime de caixa)
+  getDate?: (transaction: T) => Date | null;
+}
+
+const monthKey = (date: Date) => format(date, "yyyy-MM");
+
+const isVariableExpense = (transaction: ForecastTransaction) =>
+  transaction.type === "expense" &&
+  !transaction.is_recurring &&
+  !transaction.series_id &&
+  !transaction.installment_purchase_id;
+
+export const getForecastStatus = (balance: number, safetyCushion: number): ForecastStatus => {
+  if (balance < 0) return "negative";
+  if (balance < safetyCushion) return "below_cushion";
+  return "ok";
+};
+
+/**
+ * Average monthly spending per category over the last complete months, ignoring recurring and installment rows
+ */
+export const calculateCategoryAverages = <T extends ForecastTransaction>(
+  transactions: T[],
+  today: Date,
+  getDate: (transaction: T) => Date | null,
+  trailingMonths = TRAILING_MONTHS,
+): Record<string, number> => {
+  const windowStart = startOfMonth(subMonths(today, trailingMonths));
+  const windowEnd = startOfMonth(today);
+
+  return transactions.reduce((acc, transaction) => {
+    const date = getDate(transaction);
+    if (!date || !isVariableExpense(transaction) || isBefore(date, windowStart) || !isBefore(date, windowEnd)) {
+      return acc;
+    }
+    acc[transaction.category] = (acc[transaction.category] || 0) + Number(transaction.amount) / trailingMonths;
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+/**
+ * Projects the end-of-month balance for the current month and the following ones.
+ *
+ * Recurring rows are grouped by series (or by row, for old recurring rows without a series): months inside the
+ * recurring window without an occurrence yet get one projected from the latest row. Variable spending is the
+ * trailing average per category, minus what was already recorded in that category in the month.
+ */
+export const calculateForecast = <T extends ForecastTransaction>({
+  transactions,
+  openingBalance,
+  today,
+  months,
+  safetyCushion,
+  getDate = (transaction) => transaction.date,
+}: ForecastOptions<T>): Forecast => {
+  const limit = endOfDay(today);
+  const dated = transactions.flatMap((transaction) => {
+    const date = getDate(transaction);
+    return date ? [{ transaction, date }] : [];
+  });
+
+  const startingBalance = dated
+    .filter(({ date }) => !isAfter(date, limit))
+    .reduce((sum, { transaction }) => sum + getBalanceEffect(transaction), openingBalance);
+
+  const categoryAverages = calculateCategoryAverages(transactions, today, getDate);
+
+  // Séries recorrentes: a ocorrência mais recente serve de modelo para os meses ainda sem lançamento
+  const recurringGroups = dated
+    .filter(({ transaction }) => transaction.is_recurring && transaction.type !== "transfer")
+    .reduce((acc, { transaction, date }) => {
+      const key = transaction.series_id || transaction.id;
+      const group = acc[key] || { template: transaction, templateDate: date, months: new Set<string>() };
+      if (isAfter(date, group.templateDate)) {
+        group.template = transaction;
+        group.templateDate = date;
+      }
+      group.months.add(monthKey(date));
+      acc[key] = group;
+      return acc;
+    }, {} as Record<string, { template: T; templateDate: Date; months: Set<string> }>);
+
+  const getProjectedRecurring = (month: Date) =>
+    Object.values(recurringGroups).reduce(
+      (totals, { template, templateDate, months: recordedMonths }) => {
+        const start = template.recurring_start_date || templateDate;
+        const end = template.recurring_end_date;
+        if (recordedMonths.has(monthKey(month))) return totals;
+        if (isBefore(endOfMonth(month), start) || (end && isAfter(startOfMonth(month), end))) return totals;
+
+        // No mês atual, só projeta se o dia da ocorrência ainda não passou
+        const projectedDate = setDate(month, Math.min(templateDate.getDate(), getDaysInMonth(month)));
+        if (!isAfter(projectedDate, limit)) return totals;
+
+        if (template.type === "income") totals.income += Number(template.amount);
+        else totals.expenses += Number(template.amount);
+        return totals;
+      },
+      { income: 0, expenses: 0 }
+    );
+
+  let balance = startingBalance;
+  const currentMonth = startOfMonth(today);
+
+  const forecastMonths = Array.from({ length: months }, (_, index) => {
+    const month = addMonths(currentMonth, index);
+    const monthRows = dated.filter(({ date }) => isSameMonth(date, month));
+
+    // Lançamentos futuros já cadastrados (parcelas, ocorrências geradas, despesas agendadas)
+    const upcoming = monthRows.filter(({ date }) => isAfter(date, limit));
+    const sumByType = (type: string) =>
+      upcoming
+        .filter(({ transaction }) => transaction.type === type)
+        .reduce((sum, { transaction }) => sum + getBalanceEffect(transaction), 0);
+    const scheduledIncome = sumByType("income");
+    const scheduledExpenses = -sumByType("expense");
+    // As duas pernas de uma transferência se anulam; só sobra algo se uma delas cair em outro mês
+    const transfers = sumByType("transfer");
+
+    const projected = getProjectedRecurring(month);
+
+    const spentByCategory = monthRows
+      .filter(({ transaction }) => isVariableExpense(transaction))
+      .reduce((acc, { transaction }) => {
+        acc[transaction.category] = (acc[transaction.category] || 0) + Number(transaction.amount);
+        return acc;
+      }, {} as Record<string, number>);
+    const variableExpenses = Object.entries(categoryAverages).reduce(
+      (sum, [category, average]) => sum + Math.max(0, average - (spentByCategory[category] || 0)),
+      0
+    );
+
+    balance += scheduledIncome + projected.income - scheduledExpenses - projected.expenses - variableExpenses + transfers;
+    const roundedBalance = Math.round(balance * 100) / 100;
+
+    return {
+      month,
+      scheduledIncome: scheduledIncome + projected.income,
+      scheduledExpenses: scheduledExpenses + projected.expenses,
+      variableExpenses,
+      balance: roundedBalance,
+      status: getForecastStatus(roundedBalance, safetyCushion),
+    };
+  });
+
+  return { startingBalance, categoryAverages, months: forecastMonths };
+};
@@ -0,0 +1,91 @@
+import { differenceInCalendarDays, differenceInCalendarMonths, isBefore, parseISO, startOfDay } from "date-fns";
+
+export type GoalStatus = "on_track" | "behind" | "completed" | "overdue";
+
+interface GoalRule {
+  id: string;
+  target_amount: number;
+  target_date: string;
+  created_at?: string;
+}
+
+interface GoalContributionRow {
+  goal_id: string;
+  amount: number;
+}
+
+export interface GoalProgress<G extends GoalRule> {
+  goal: G;
+  saved: number;
+  remaining: number;
+  percentage: number;
+  // Quanto já deveria estar guardado hoje, aportando o mesmo valor todo mês desde a criação da meta
+  expected: number;
+  // Meses restantes contando o atual
+  monthsLeft: number;
+  // Aporte mensal necessário para chegar ao valor alvo na data alvo
+  requiredMonthly: number;
+  status: GoalStatus;
+}
+
+export const getGoalStatus = (saved: number, expected: number, target: number, isOverdue: boolean): GoalStatus => {
+  if (saved >= target) return "completed";
+  if (isOverdue) return "overdue";
+  if (saved < expected) return "behind";
+  return "on_track";
+};
+
+/**
+ * Progress of a goal from its contributions, and the monthly contribution needed to reach it on time
+ */
+export const calculateGoalProgress = <G extends GoalRule>(
+  goal: G,
+  contributions: GoalContributionRow[],
+  today: Date,
+): GoalProgress<G> => {
+  const target = Number(goal.target_amount);
+  const targetDate = parseISO(goal.target_date);
+  const start = goal.created_at ? startOfDay(parseISO(goal.created_at)) : startOfDay(today);
+
+  const saved = Math.round(
+    contributions
+      .filter((c) => c.goal_id === goal.id)
+      .reduce((sum, c) => sum + Number(c.amount), 0) * 100
+  ) / 100;
+  const remaining = Math.max(0, target - saved);
+
+  const totalDays = differenceInCalendarDays(targetDate, start);
+  const elapsedDays = differenceInCalendarDays(today, start);
+  const elapsed = totalDays > 0 ? Math.min(1, Math.max(0, elapsedDays / totalDays)) : 1;
+  const expected = Math.round(target * elapsed * 100) / 100;
+
+  const isOverdue = isBefore(targetDate, startOfDay(today));
+  const monthsLeft = isOverdue ? 0 : differenceInCalendarMonths(targetDate, today) + 1;
+  // Meta vencida e não atingida: o que falta precisa ser aportado de uma vez
+  const requiredMonthly = Math.round((monthsLeft > 0 ? remaining / monthsLeft : remaining) * 100) / 100;
+
+  return {
+    goal,
+    saved,
+    remaining,
+    percentage: target > 0 ? (saved / target) * 100 : 0,
+    expected,
+    monthsLeft,
+    requiredMonthly,
+    status: getGoalStatus(saved, expected, target, isOverdue),
+  };
+};
+
+/**
+ * Progress of every goal, the ones that need attention first
+ */
+export const calculateGoalsProgress = <G extends GoalRule>(
+  goals: G[],
+  contributions: GoalContributionRow[],
+  today: Date,
+): GoalProgress<G>[] => {
+  const order: Record<GoalStatus, number> = { overdue: 0, behind: 1, on_track: 2, completed: 3 };
+  return goals
+    .map((goal) => calculateGoalProgress(goal, contributions, today))
+    .sort((a, b) => order[a.status] - order[b.status] || a.goal.target_date.localeCompare(b.goal.target_date));
+};
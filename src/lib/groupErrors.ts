@@ -0,0 +1,43 @@
+// Códigos devolvidos pelas funções de grupo no banco (e pelas validações do próprio app)
+export type GroupErrorCode =
+  | "not_authenticated"
+  | "invalid_name"
+  | "group_not_found"
+  | "forbidden"
+  | "member_not_found"
+  | "invalid_role"
+  | "cannot_change_own_role"
+  | "owner_must_transfer"
+  | "already_member"
+  | "invitation_pending"
+  | "invitation_not_found"
+  | "invitation_used"
+  | "invitation_wrong_email";
+
+export const groupErrorMessages: Record<GroupErrorCode, string> = {
+  not_authenticated: "Entre na sua conta para continuar",
+  invalid_name: "O nome do grupo não pode ficar vazio",
+  group_not_found: "Grupo não encontrado ou você não faz parte dele",
+  forbidden: "Você não tem permissão para fazer isso neste grupo",
+  member_not_found: "Esta pessoa não é membro do grupo",
+  invalid_role: "Papel inválido",
+  cannot_change_own_role: "Você não pode alterar o próprio papel",
+  owner_must_transfer: "Transfira a posse do grupo para outro membro antes de sair",
+  already_member: "Esta pessoa já é membro do grupo",
+  invitation_pending: "Já existe um convite pendente para este e-mail",
+  invitation_not_found: "Convite não encontrado",
+  invitation_used: "Este convite já foi usado",
+  invitation_wrong_email: "Este convite foi enviado para outro e-mail",
+};
+
+export const isGroupErrorCode = (value: unknown): value is GroupErrorCode =>
+  typeof value === "string" && value in groupErrorMessages;
+
+/**
+ * User-facing message for an error thrown by the group services. Unknown errors (network, unexpected database
+ * failures) fall back to the given message instead of leaking English driver text.
+ */
+export const getGroupErrorMessage = (error: unknown, fallback: string): string => {
+  const message = (error as { message?: unknown } | null)?.message;
+  return isGroupErrorCode(message) ? groupErrorMessages[message] : fallback;
+};
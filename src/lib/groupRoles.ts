@@ -0,0 +1,31 @@
+export type GroupRole = "owner" | "admin" | "member" | "viewer";
+
+export const groupRoleLabels: Record<GroupRole, string> = {
+  owner: "Dono",
+  admin: "Administrador",
+  member: "Membro",
+  viewer: "Leitor",
+};
+
+// Papéis que podem ser atribuídos diretamente; "owner" só muda de mãos pela transferência de posse
+export const ASSIGNABLE_ROLES: GroupRole[] = ["admin", "member", "viewer"];
+
+/**
+ * Owner and admins rename the group, manage members and edit every group transaction
+ */
+export const canManageGroup = (role?: GroupRole | null) => role === "owner" || role === "admin";
+
+/**
+ * Everyone but viewers can add transactions, budgets and settlements to the group
+ */
+export const canWriteToGroup = (role?: GroupRole | null) => !!role && role !== "viewer";
+
+/**
+ * Whether the current member may change the role of (or remove) another member: the owner manages everyone,
+ * admins only members and viewers. Nobody changes their own role this way.
+ */
+export const canManageMember = (actorRole: GroupRole | null | undefined, targetRole: GroupRole, isSelf: boolean) => {
+  if (isSelf || targetRole === "owner") return false;
+  if (actorRole === "owner") return true;
+  return actorRole === "admin" && (targetRole === "member" || targetRole === "viewer");
+};
@@ -0,0 +1,73 @@
+import { addMonths, format } from "date-fns";
+
+export type InstallmentAmountMode = "total" | "installment";
+
+export interface InstallmentPlan {
+  amount: number;
+  amountMode: InstallmentAmountMode;
+  count: number;
+  firstDueDate: Date;
+}
+
+export interface InstallmentScheduleItem {
+  number: number;
+  date: string;
+  amount: number;
+}
+
+/**
+ * Splits a total into equal parcels, working in cents; the rounding leftover goes to the first parcel
+ */
+export const splitInstallmentAmounts = (totalAmount: number, count: number): number[] => {
+  if (count <= 0) return [];
+
+  const totalCents = Math.round(totalAmount * 100);
+  const baseCents = Math.floor(totalCents / count);
+  const leftoverCents = totalCents - baseCents * count;
+
+  return Array.from({ length: count }, (_, index) =>
+    (index === 0 ? baseCents + leftoverCents : baseCents) / 100
+  );
+};
+
+/**
+ * Total amount of a plan, whichever way the amount was entered
+ */
+export const getInstallmentTotal = (plan: Pick<InstallmentPlan, "amount" | "amountMode" | "count">) =>
+  plan.amountMode === "total"
+    ? plan.amount
+    : Math.round(plan.amount * 100 * plan.count) / 100;
+
+/**
+ * Checks that every parcel gets at least one cent; returns the error message or null
+ */
+export const validateInstallmentPlan = (plan: Pick<InstallmentPlan, "amount" | "amountMode" | "count">): string | null => {
+  const totalCents = Math.round(getInstallmentTotal(plan) * 100);
+  if (totalCents <= 0) return "Informe um valor maior que zero";
+  if (totalCents < plan.count) {
+    return `O valor total não cobre ${plan.count} parcelas de pelo menos R$ 0,01`;
+  }
+  return null;
+};
+
+/**
+ * Builds one entry per parcel, due on the same day of each following month
+ */
+export const buildInstallmentSchedule = (plan: InstallmentPlan): InstallmentScheduleItem[] => {
+  const amounts = splitInstallmentAmounts(getInstallmentTotal(plan), plan.count);
+
+  return amounts.map((amount, index) => ({
+    number: index + 1,
+    // addMonths ajusta dias inexistentes (31/01 + 1 mês = 28 ou 29/02)
+    date: format(addMonths(plan.firstDueDate, index), "yyyy-MM-dd"),
+    amount,
+  }));
+};
+
+export const formatInstallmentLabel = (number: number, count: number) => `${number}/${count}`;
+
+/**
+ * A parcel is pending while its due date has not passed
+ */
+export const isPendingInstallment = (date: string, today: Date = new Date()) =>
+  date >= format(today, "yyyy-MM-dd");
@@ -0,0 +1,122 @@
+import { addMonths, isBefore, isSameMonth, startOfMonth, subMonths } from "date-fns";
+
+interface MetricsTransaction {
+  amount: number;
+  type: string;
+  category: string;
+  // Linhas de totais do banco já agrupam várias transações
+  count?: number;
+}
+
+export interface MonthlyTotals {
+  income: number;
+  expenses: number;
+  balance: number;
+}
+
+export interface MonthlyTrendPoint extends MonthlyTotals {
+  month: Date;
+  // Saldo acumulado até o fim do mês, incluindo os meses anteriores à janela
+  cumulativeBalance: number;
+}
+
+export interface CategoryBreakdown {
+  type: "income" | "expense";
+  category: string;
+  total: number;
+  count: number;
+  // Participação no total de receitas ou de despesas do mês
+  percentage: number;
+}
+
+/**
+ * Transactions that count in the month, given the date each one is reported on (see getReportingDate)
+ */
+export const getMonthTransactions = <T>(
+  transactions: T[],
+  month: Date,
+  getDate: (transaction: T) => Date | null,
+) =>
+  transactions.filter((transaction) => {
+    const date = getDate(transaction);
+    return !!date && isSameMonth(date, month);
+  });
+
+/**
+ * Income and expense totals; transfers between accounts are left out
+ */
+export const calculateMonthlyTotals = (transactions: MetricsTransaction[]): MonthlyTotals => {
+  const income = transactions
+    .filter((t) => t.type === "income")
+    .reduce((sum, transaction) => sum + Number(transaction.amount), 0);
+
+  const expenses = transactions
+    .filter((t) => t.type === "expense")
+    .reduce((sum, transaction) => sum + Number(transaction.amount), 0);
+
+  return { income, expenses, balance: income - expenses };
+};
+
+export const calculateVariation = (current: number, previous: number) =>
+  previous === 0 ? 0 : ((current - previous) / previous) * 100;
+
+/**
+ * Percentage change of each total against the previous month
+ */
+export const calculateVariations = (current: MonthlyTotals, previous: MonthlyTotals): MonthlyTotals => ({
+  income: calculateVariation(current.income, previous.income),
+  expenses: calculateVariation(current.expenses, previous.expenses),
+  balance: calculateVariation(current.balance, previous.balance),
+});
+
+/**
+ * Totals per category, largest first within income and then expenses
+ */
+export const getCategoryBreakdown = (transactions: MetricsTransaction[]): CategoryBreakdown[] => {
+  const totals = calculateMonthlyTotals(transactions);
+
+  const grouped = transactions.reduce((acc, transaction) => {
+    if (transaction.type !== "income" && transaction.type !== "expense") return acc;
+    const key = `${transaction.type}:${transaction.category}`;
+    if (!acc[key]) {
+      acc[key] = { type: transaction.type, category: transaction.category, total: 0, count: 0, percentage: 0 };
+    }
+    acc[key].total += Number(transaction.amount);
+    acc[key].count += transaction.count ?? 1;
+    return acc;
+  }, {} as Record<string, CategoryBreakdown>);
+
+  return Object.values(grouped)
+    .map((item) => {
+      const typeTotal = item.type === "income" ? totals.income : totals.expenses;
+      return { ...item, percentage: typeTotal > 0 ? (item.total / typeTotal) * 100 : 0 };
+    })
+    .sort((a, b) => (a.type === b.type ? b.total - a.total : a.type === "income" ? -1 : 1));
+};
+
+/**
+ * Totals for each of the last `months` months up to endMonth, oldest first, with the running balance.
+ * openingBalance is added to the balance of the transactions before the window (for callers that only load the window).
+ */
+export const getMonthlyTrend = <T extends MetricsTransaction>(
+  transactions: T[],
+  endMonth: Date,
+  months: number,
+  getDate: (transaction: T) => Date | null,
+  openingBalance = 0,
+): MonthlyTrendPoint[] => {
+  const firstMonth = startOfMonth(subMonths(endMonth, months - 1));
+
+  const previousTransactions = transactions.filter((transaction) => {
+    const date = getDate(transaction);
+    return !!date && isBefore(date, firstMonth);
+  });
+  let cumulativeBalance = openingBalance + calculateMonthlyTotals(previousTransactions).balance;
+
+  return Array.from({ length: months }, (_, index) => {
+    const month = addMonths(firstMonth, index);
+    const totals = calculateMonthlyTotals(getMonthTransactions(transactions, month, getDate));
+    cumulativeBalance += totals.balance;
+    return { month, ...totals, cumulativeBalance };
+  });
+};
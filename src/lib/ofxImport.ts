@@ -0,0 +1,148 @@
+export interface OfxTransaction {
+  // FITID: identificador do lançamento no banco
+  external_id: string;
+  type: "income" | "expense";
+  date: string;
+  description: string;
+  amount: number;
+  // TRNTYPE informado pelo banco (DEBIT, CREDIT, PAYMENT...)
+  ofx_type: string;
+}
+
+export interface OfxStatement {
+  bankId: string | null;
+  accountNumber: string | null;
+  currency: string | null;
+  transactions: OfxTransaction[];
+}
+
+export type OfxImportStatus = "new" | "skipped" | "conflict";
+
+export interface OfxImportItem<T> {
+  transaction: OfxTransaction;
+  status: OfxImportStatus;
+  // Lançamento já importado com o mesmo FITID
+  existing?: T;
+}
+
+interface ImportedTransaction {
+  external_id?: string | null;
+  date: string;
+  amount: number;
+  type: string;
+}
+
+const entities: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+  "&nbsp;": " ",
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(amp|lt|gt|quot|apos|nbsp);/g, (entity) => entities[entity]);
+
+/**
+ * Value of a leaf element. OFX 1.x (SGML) leaves the leaf tags open, so the value ends at the next tag or line break.
+ */
+const readTag = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  if (!match) return null;
+  const value = decodeEntities(match[1].trim());
+  return value === "" ? null : value;
+};
+
+/**
+ * OFX dates look like 20240315, 20240315120000 or 20240315120000.000[-3:BRT]; only the day matters here
+ */
+export const parseOfxDate = (value: string | null): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (date.getMonth() !== Number(month) - 1) return null;
+  return `${year}-${month}-${day}`;
+};
+
+// Alguns bancos brasileiros exportam o TRNAMT com vírgula decimal
+const parseOfxAmount = (value: string | null): number | null => {
+  if (!value) return null;
+  const amount = Number(value.replace(/\s/g, "").replace(",", "."));
+  return isNaN(amount) ? null : amount;
+};
+
+export const isOfxFile = (text: string) => /<OFX>/i.test(text) || /^\s*OFXHEADER/i.test(text);
+
+/**
+ * Parses OFX 1.x (SGML) and 2.x (XML) statements, bank and credit card, into transactions
+ */
+export const parseOfx = (text: string): OfxStatement => {
+  if (!isOfxFile(text)) {
+    throw new Error("Arquivo OFX inválido");
+  }
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  const transactions = blocks.flatMap((block) => {
+    const externalId = readTag(block, "FITID");
+    const date = parseOfxDate(readTag(block, "DTPOSTED"));
+    const amount = parseOfxAmount(readTag(block, "TRNAMT"));
+    if (!externalId || !date || amount === null || amount === 0) return [];
+
+    const name = readTag(block, "NAME");
+    const memo = readTag(block, "MEMO");
+    const description = [name, memo && memo !== name ? memo : null].filter(Boolean).join(" - ");
+
+    return [{
+      external_id: externalId,
+      type: amount > 0 ? "income" as const : "expense" as const,
+      date,
+      description: description || "Lançamento importado",
+      amount: Math.abs(amount),
+      ofx_type: (readTag(block, "TRNTYPE") || "OTHER").toUpperCase(),
+    }];
+  });
+
+  return {
+    bankId: readTag(text, "BANKID"),
+    accountNumber: readTag(text, "ACCTID"),
+    currency: readTag(text, "CURDEF"),
+    transactions,
+  };
+};
+
+/**
+ * Compares the statement with what was already imported into the account:
+ * an unknown FITID is new, a known one with the same date, type and amount is skipped,
+ * and a known one that differs is a conflict (never overwritten automatically).
+ */
+export const classifyOfxTransactions = <T extends ImportedTransaction>(
+  transactions: OfxTransaction[],
+  imported: T[],
+): OfxImportItem<T>[] => {
+  const importedById = new Map(
+    imported.filter((t) => t.external_id).map((t) => [t.external_id as string, t])
+  );
+  const seen = new Set<string>();
+
+  return transactions.map((transaction) => {
+    // O mesmo FITID repetido no arquivo só entra uma vez
+    if (seen.has(transaction.external_id)) {
+      return { transaction, status: "skipped" as const };
+    }
+    seen.add(transaction.external_id);
+
+    const existing = importedById.get(transaction.external_id);
+    if (!existing) {
+      return { transaction, status: "new" as const };
+    }
+
+    const matches =
+      existing.date === transaction.date &&
+      existing.type === transaction.type &&
+      Math.abs(Number(existing.amount) - transaction.amount) < 0.005;
+
+    return { transaction, status: matches ? "skipped" as const : "conflict" as const, existing };
+  });
+};
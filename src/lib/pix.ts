@@ -0,0 +1,118 @@
+export type PixKeyType = "cpf" | "cnpj" | "email" | "phone" | "random";
+
+export const pixKeyTypeLabels: Record<PixKeyType, string> = {
+  cpf: "CPF",
+  cnpj: "CNPJ",
+  email: "E-mail",
+  phone: "Telefone",
+  random: "Chave aleatória",
+};
+
+export interface PixPayloadOptions {
+  key: string;
+  // Nome e cidade de quem recebe (limitados a 25 e 15 caracteres no BR Code)
+  name: string;
+  city: string;
+  amount?: number;
+  description?: string;
+  // Identificador da cobrança; "***" quando não há
+  txid?: string;
+}
+
+// Tamanho máximo de um campo EMV (o tamanho é escrito com dois dígitos)
+const MAX_FIELD_LENGTH = 99;
+const PIX_GUI = "br.gov.bcb.pix";
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Identifies the kind of PIX key; phone keys must be written with the country code (+55...) so they are not
+ * mistaken for a CPF. Returns null when the key is not valid.
+ */
+export const detectPixKeyType = (key: string): PixKeyType | null => {
+  const value = key.trim();
+  if (!value) return null;
+  if (UUID_PATTERN.test(value)) return "random";
+  if (EMAIL_PATTERN.test(value)) return "email";
+  if (value.startsWith("+")) return /^\+[1-9]\d{7,14}$/.test(value.replace(/[\s()-]/g, "")) ? "phone" : null;
+
+  const digits = value.replace(/[.\-/\s]/g, "");
+  if (!/^\d+$/.test(digits)) return null;
+  if (digits.length === 11) return "cpf";
+  if (digits.length === 14) return "cnpj";
+  return null;
+};
+
+/**
+ * Key in the format the BR Code expects: digits only for CPF/CNPJ, +55... for phones, lowercase e-mails and UUIDs
+ */
+export const normalizePixKey = (key: string): string => {
+  const value = key.trim();
+  switch (detectPixKeyType(value)) {
+    case "cpf":
+    case "cnpj":
+      return value.replace(/\D/g, "");
+    case "phone":
+      return `+${value.replace(/\D/g, "")}`;
+    case "email":
+    case "random":
+      return value.toLowerCase();
+    default:
+      return value;
+  }
+};
+
+// O BR Code só aceita ASCII: remove acentos e qualquer outro caractere fora do conjunto básico
+const toPixText = (value: string, maxLength: number) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 .,\-/@+*]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength);
+
+const emvField = (id: string, value: string) => `${id}${String(value.length).padStart(2, "0")}${value}`;
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF), as required for field 63 of the BR Code
+ */
+export const crc16 = (payload: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+};
+
+/**
+ * Static PIX BR Code ("copia e cola"), built locally from the receiver's key
+ */
+export const buildPixPayload = ({ key, name, city, amount, description, txid = "***" }: PixPayloadOptions): string => {
+  const normalizedKey = normalizePixKey(key);
+  const accountInfoBase = emvField("00", PIX_GUI) + emvField("01", normalizedKey);
+  // A descrição divide o limite de 99 caracteres do campo 26 com a chave
+  const descriptionRoom = MAX_FIELD_LENGTH - accountInfoBase.length - 4;
+  const cleanDescription = description && descriptionRoom > 0 ? toPixText(description, descriptionRoom) : "";
+  const accountInfo = accountInfoBase + (cleanDescription ? emvField("02", cleanDescription) : "");
+
+  const cleanTxid = txid === "***" ? txid : txid.replace(/[^A-Za-z0-9]/g, "").slice(0, 25) || "***";
+
+  const payload =
+    emvField("00", "01") +
+    emvField("26", accountInfo) +
+    emvField("52", "0000") +
+    emvField("53", "986") +
+    (amount && amount > 0 ? emvField("54", amount.toFixed(2)) : "") +
+    emvField("58", "BR") +
+    emvField("59", toPixText(name, 25) || "RECEBEDOR") +
+    emvField("60", toPixText(city, 15) || "BRASIL") +
+    emvField("62", emvField("05", cleanTxid)) +
+    "6304";
+
+  return payload + crc16(payload);
+};
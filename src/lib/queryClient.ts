@@ -0,0 +1,54 @@
+import { QueryCache, QueryClient } from "@tanstack/react-query";
+import { toast } from "@/components/ui/use-toast";
+import type { TransactionFilters, TransactionTotalsOptions } from "@/services/transactions";
+
+/**
+ * Cache shared by every screen. Data is served from the cache and revalidated in the background
+ * once it is older than staleTime, when the window regains focus or after a mutation invalidates it.
+ */
+export const queryClient = new QueryClient({
+  // Consultas com meta.errorMessage avisam o usuário quando falham
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      console.error('Erro ao carregar dados:', query.queryKey, error);
+      if (typeof query.meta?.errorMessage === "string") {
+        toast({
+          title: "Erro",
+          description: query.meta.errorMessage,
+          variant: "destructive",
+        });
+      }
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      retry: 1,
+    },
+  },
+});
+
+/**
+ * Query keys. Everything derived from transactions lives under "transactions", so a single
+ * invalidation refreshes lists, pages, totals and balances together.
+ */
+export const queryKeys = {
+  transactions: {
+    all: ["transactions"] as const,
+    lists: () => ["transactions", "list"] as const,
+    list: (userId: string, filters: TransactionFilters) => ["transactions", "list", userId, filters] as const,
+    pages: () => ["transactions", "page"] as const,
+    page: (userId: string, filters: TransactionFilters) => ["transactions", "page", userId, filters] as const,
+    totals: (startDate: string, endDate: string, options: TransactionTotalsOptions = {}) =>
+      ["transactions", "totals", startDate, endDate, options] as const,
+    balance: (beforeDate: string, options: TransactionTotalsOptions = {}) =>
+      ["transactions", "balance", beforeDate, options] as const,
+    accountBalances: (until: string) => ["transactions", "accountBalances", until] as const,
+  },
+  groups: {
+    all: ["groups"] as const,
+    // Período no formato yyyy-MM; null para o histórico inteiro
+    dashboards: (userId: string, month: string | null) => ["groups", userId, month] as const,
+  },
+  profile: (userId: string) => ["profile", userId] as const,
+};
@@ -0,0 +1,138 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  isAfter,
+  isWeekend,
+  parseISO,
+  setDate,
+  startOfMonth,
+  subDays,
+} from "date-fns";
+
+export type RecurrenceFrequency =
+  | "weekly"
+  | "biweekly"
+  | "monthly"
+  | "yearly"
+  | "last_business_day";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  start_date: string;
+  end_date: string;
+  // Só usado pela frequência mensal; quando ausente, usa o dia da data de início
+  day_of_month?: number | null;
+}
+
+export const recurrenceFrequencyLabels: Record<RecurrenceFrequency, string> = {
+  weekly: "Semanal",
+  biweekly: "Quinzenal",
+  monthly: "Mensal",
+  yearly: "Anual",
+  last_business_day: "Último dia útil do mês",
+};
+
+// Limite de segurança para evitar gerar milhares de linhas por engano; séries maiores são recusadas
+export const MAX_OCCURRENCES = 520;
+
+const toDate = (value: string) => parseISO(value);
+
+export const formatRecurrenceDate = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Returns the last weekday (Monday to Friday) of the month of the given date
+ */
+export const getLastBusinessDay = (date: Date): Date => {
+  let day = endOfMonth(date);
+  while (isWeekend(day)) {
+    day = subDays(day, 1);
+  }
+  return day;
+};
+
+/**
+ * Returns the given day of the month, clamped to the month length
+ * (e.g. day 31 in February becomes the 28th or 29th)
+ */
+const getDayOfMonth = (month: Date, dayOfMonth: number): Date => {
+  const day = Math.min(dayOfMonth, getDaysInMonth(month));
+  return setDate(startOfMonth(month), day);
+};
+
+/**
+ * Expands a recurrence rule into the occurrence dates between its start and end dates (inclusive),
+ * stopping after limit dates
+ */
+const expandRule = (rule: RecurrenceRule, limit: number): Date[] => {
+  const start = toDate(rule.start_date);
+  const end = toDate(rule.end_date);
+
+  if (isAfter(start, end)) {
+    return [];
+  }
+
+  const dates: Date[] = [];
+
+  const push = (date: Date) => {
+    if (!isAfter(start, date) && !isAfter(date, end)) {
+      dates.push(date);
+    }
+  };
+
+  switch (rule.frequency) {
+    case "weekly":
+    case "biweekly": {
+      const step = rule.frequency === "weekly" ? 1 : 2;
+      for (let date = start; !isAfter(date, end) && dates.length < limit; date = addWeeks(date, step)) {
+        push(date);
+      }
+      break;
+    }
+    case "monthly": {
+      const dayOfMonth = rule.day_of_month || start.getDate();
+      for (let month = startOfMonth(start); !isAfter(month, end) && dates.length < limit; month = addMonths(month, 1)) {
+        push(getDayOfMonth(month, dayOfMonth));
+      }
+      break;
+    }
+    case "yearly": {
+      for (let i = 0; dates.length < limit; i++) {
+        // Sempre a partir da data de início para não perder o dia 29/02 nos anos bissextos
+        const date = addYears(start, i);
+        if (isAfter(date, end)) break;
+        push(date);
+      }
+      break;
+    }
+    case "last_business_day": {
+      for (let month = startOfMonth(start); !isAfter(month, end) && dates.length < limit; month = addMonths(month, 1)) {
+        push(getLastBusinessDay(month));
+      }
+      break;
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Expands a recurrence rule into every occurrence date between its start and end dates (inclusive).
+ * Rules past MAX_OCCURRENCES are cut short; check them with exceedsMaxOccurrences before saving.
+ */
+export const generateOccurrenceDates = (rule: RecurrenceRule): Date[] => expandRule(rule, MAX_OCCURRENCES);
+
+/**
+ * Whether the rule has more occurrences than a series may hold
+ */
+export const exceedsMaxOccurrences = (rule: RecurrenceRule): boolean =>
+  expandRule(rule, MAX_OCCURRENCES + 1).length > MAX_OCCURRENCES;
+
+/**
+ * Day before the given date, used to close a series right before one of its occurrences
+ */
+export const getDayBefore = (date: string) => formatRecurrenceDate(addDays(toDate(date), -1));
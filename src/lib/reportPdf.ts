@@ -0,0 +1,114 @@
+import type { jsPDF } from "jspdf";
+import { MonthlyTotals } from "./monthlyMetrics";
+
+export interface ReportCategoryLine {
+  type: "income" | "expense";
+  label: string;
+  count: number;
+  total: number;
+  percentage: number;
+}
+
+export interface ReportTransactionLine {
+  date: string;
+  description: string;
+  category: string;
+  account: string;
+  type: string;
+  // Com sinal: negativo para despesas e saídas de transferência
+  amount: number;
+}
+
+export interface MonthlyReportData {
+  title: string;
+  monthLabel: string;
+  previousMonthLabel: string;
+  regimeLabel: string;
+  generatedAt: string;
+  current: MonthlyTotals;
+  previous: MonthlyTotals;
+  variation: MonthlyTotals;
+  categories: ReportCategoryLine[];
+  transactions: ReportTransactionLine[];
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(amount);
+
+const formatVariation = (variation: number) => `${variation > 0 ? "+" : ""}${variation.toFixed(1)}%`;
+
+const MARGIN = 14;
+
+/**
+ * Builds the monthly statement PDF in the browser (no server round trip) and starts the download
+ */
+export const downloadMonthlyReportPdf = async (report: MonthlyReportData, fileName: string) => {
+  const [{ jsPDF: JsPDF }, { autoTable }] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+  ]);
+
+  const doc = new JsPDF({ unit: "mm", format: "a4" });
+  const getFinalY = () => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+  doc.setFontSize(16);
+  doc.text(report.title, MARGIN, 18);
+  doc.setFontSize(10);
+  doc.text(`${report.monthLabel} · ${report.regimeLabel}`, MARGIN, 25);
+  doc.text(`Gerado em ${report.generatedAt}`, MARGIN, 30);
+
+  autoTable(doc, {
+    startY: 36,
+    head: [["", report.monthLabel, report.previousMonthLabel, "Variação"]],
+    body: (["income", "expenses", "balance"] as const).map((key) => [
+      { income: "Receitas", expenses: "Despesas", balance: "Saldo" }[key],
+      formatCurrency(report.current[key]),
+      formatCurrency(report.previous[key]),
+      formatVariation(report.variation[key]),
+    ]),
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" } },
+    theme: "grid",
+  });
+
+  autoTable(doc, {
+    startY: getFinalY() + 8,
+    head: [["Categoria", "Tipo", "Qtd.", "Total", "%"]],
+    body: report.categories.map((line) => [
+      line.label,
+      line.type === "income" ? "Receita" : "Despesa",
+      String(line.count),
+      formatCurrency(line.total),
+      `${line.percentage.toFixed(1)}%`,
+    ]),
+    columnStyles: { 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" } },
+  });
+
+  autoTable(doc, {
+    startY: getFinalY() + 8,
+    head: [["Data", "Descrição", "Categoria", "Conta", "Valor"]],
+    body: report.transactions.map((line) => [
+      line.date,
+      line.description,
+      line.category,
+      line.account,
+      formatCurrency(line.amount),
+    ]),
+    columnStyles: { 4: { halign: "right" } },
+    styles: { fontSize: 8 },
+  });
+
+  // Numeração das páginas no rodapé
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.text(
+      `Página ${page} de ${pageCount}`,
+      doc.internal.pageSize.getWidth() - MARGIN,
+      doc.internal.pageSize.getHeight() - 8,
+      { align: "right" }
+    );
+  }
+
+  doc.save(fileName);
+};
@@ -0,0 +1,43 @@
+import { MemberBalance } from "./splits";
+
+export interface SuggestedPayment {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+/**
+ * Payments that clear every balance, picked greedily: the biggest debtor pays the biggest creditor until one of
+ * them is even, then repeat. At most one payment fewer than the people with a balance, but not always the fewest
+ * possible. Works in cents so rounding never leaves a payment of a fraction of a cent.
+ */
+export const simplifyDebts = (balances: MemberBalance[]): SuggestedPayment[] => {
+  const creditors = balances
+    .filter((balance) => toCents(balance.net) > 0)
+    .map((balance) => ({ userId: balance.user_id, cents: toCents(balance.net) }));
+  const debtors = balances
+    .filter((balance) => toCents(balance.net) < 0)
+    .map((balance) => ({ userId: balance.user_id, cents: -toCents(balance.net) }));
+
+  const payments: SuggestedPayment[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.cents - a.cents);
+    debtors.sort((a, b) => b.cents - a.cents);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const cents = Math.min(creditor.cents, debtor.cents);
+
+    payments.push({ from: debtor.userId, to: creditor.userId, amount: cents / 100 });
+    creditor.cents -= cents;
+    debtor.cents -= cents;
+
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+
+  return payments;
+};
@@ -0,0 +1,131 @@
+export type SplitMethod = "equal" | "exact" | "percentage" | "shares";
+
+export const splitMethodLabels: Record<SplitMethod, string> = {
+  equal: "Igualmente",
+  exact: "Valores exatos",
+  percentage: "Percentuais",
+  shares: "Cotas",
+};
+
+export interface SplitEntry {
+  user_id: string;
+  // Valor exato, percentual ou número de cotas, conforme o método; ignorado na divisão igual
+  value: number;
+}
+
+export interface SplitRow {
+  transaction_id: string;
+  user_id: string;
+  paid_amount: number;
+  owed_amount: number;
+  split_method: SplitMethod;
+  share: number | null;
+}
+
+export interface MemberBalance {
+  user_id: string;
+  paid: number;
+  owed: number;
+  // Positivo: o grupo deve a ele; negativo: ele deve ao grupo
+  net: number;
+}
+
+// Diferença aceita ao conferir se as partes fecham com o total
+const CENT_TOLERANCE = 0.005;
+
+/**
+ * Checks that the entries add up for the method; returns the error message or null
+ */
+export const validateSplit = (total: number, method: SplitMethod, entries: SplitEntry[]): string | null => {
+  if (entries.length === 0) return "Selecione ao menos um membro para dividir";
+  if (method === "equal") return null;
+  if (entries.some((entry) => isNaN(entry.value) || entry.value < 0)) return "Informe valores válidos para cada membro";
+
+  const sum = entries.reduce((acc, entry) => acc + entry.value, 0);
+  if (method === "exact" && Math.abs(sum - total) > CENT_TOLERANCE) {
+    return `A soma das partes (${sum.toFixed(2)}) precisa ser igual ao valor da despesa (${total.toFixed(2)})`;
+  }
+  if (method === "percentage" && Math.abs(sum - 100) > CENT_TOLERANCE) {
+    return `Os percentuais somam ${sum.toFixed(2)}%, e precisam somar 100%`;
+  }
+  if (method === "shares" && sum <= 0) return "Informe ao menos uma cota";
+  return null;
+};
+
+/**
+ * Splits a total proportionally to the weights, working in cents; the leftover cents go to the largest remainders
+ */
+export const splitByWeights = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((acc, weight) => acc + weight, 0);
+  if (weights.length === 0 || weightSum <= 0) return weights.map(() => 0);
+
+  const totalCents = Math.round(total * 100);
+  const exact = weights.map((weight) => (totalCents * weight) / weightSum);
+  const cents = exact.map(Math.floor);
+  let leftover = totalCents - cents.reduce((acc, value) => acc + value, 0);
+
+  exact
+    .map((value, index) => ({ index, remainder: value - cents[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (leftover <= 0) return;
+      cents[index] += 1;
+      leftover -= 1;
+    });
+
+  return cents.map((value) => value / 100);
+};
+
+/**
+ * Amount each member owes of the total.
+ * referenceTotal is the amount the exact values were typed for; when the total differs (an installment or an
+ * occurrence of a series), the exact values are applied as proportions.
+ */
+export const calculateSplitAmounts = (
+  total: number,
+  method: SplitMethod,
+  entries: SplitEntry[],
+  referenceTotal: number = total,
+): { user_id: string; amount: number }[] => {
+  const isExactTotal = Math.abs(total - referenceTotal) <= CENT_TOLERANCE;
+  const amounts =
+    method === "exact" && isExactTotal
+      ? entries.map((entry) => Math.round(entry.value * 100) / 100)
+      : splitByWeights(total, entries.map((entry) => (method === "equal" ? 1 : entry.value)));
+
+  return entries.map((entry, index) => ({ user_id: entry.user_id, amount: amounts[index] }));
+};
+
+/**
+ * Split rows of one transaction: one per participant, plus the payer when they are not part of the split
+ */
+export const buildSplitRows = (
+  transaction: { id: string; amount: number },
+  paidBy: string,
+  method: SplitMethod,
+  entries: SplitEntry[],
+  referenceTotal?: number,
+): SplitRow[] => {
+  const amount = Number(transaction.amount);
+  const rows: SplitRow[] = calculateSplitAmounts(amount, method, entries, referenceTotal).map((split, index) => ({
+    transaction_id: transaction.id,
+    user_id: split.user_id,
+    paid_amount: split.user_id === paidBy ? amount : 0,
+    owed_amount: split.amount,
+    split_method: method,
+    share: method === "equal" ? null : entries[index].value,
+  }));
+
+  if (!rows.some((row) => row.user_id === paidBy)) {
+    rows.push({
+      transaction_id: transaction.id,
+      user_id: paidBy,
+      paid_amount: amount,
+      owed_amount: 0,
+      split_method: method,
+      share: method === "equal" ? null : 0,
+    });
+  }
+
+  return rows;
+};
@@ -2,14 +2,21 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { AuthProvider } from "./contexts/AuthContext";
+import { CategoriesProvider } from "./contexts/CategoriesContext";
+import { queryClient } from "./lib/queryClient";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <div className="min-h-screen bg-background">
-      <AuthProvider>
-        <App />
-      </AuthProvider>
+      <QueryClientProvider client={queryClient}>
+        <AuthProvider>
+          <CategoriesProvider>
+            <App />
+          </CategoriesProvider>
+        </AuthProvider>
+      </QueryClientProvider>
     </div>
   </React.StrictMode>,
 );
@@ -0,0 +1,136 @@
+import { supabase } from "@/lib/supabase";
+
+export type AccountType = "checking" | "savings" | "cash" | "credit_card";
+
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number;
+  currency: string;
+  archived: boolean;
+  // Só para cartões de crédito
+  closing_day?: number | null;
+  due_day?: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NewAccount = Pick<Account, "user_id" | "name" | "type"> &
+  Partial<Pick<Account, "opening_balance" | "currency" | "closing_day" | "due_day">>;
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  checking: "Conta Corrente",
+  savings: "Poupança",
+  cash: "Dinheiro",
+  credit_card: "Cartão de Crédito",
+};
+
+export const getAccounts = async (userId: string, includeArchived = false): Promise<Account[]> => {
+  console.log('Fetching accounts for user:', userId);
+  try {
+    let query = supabase
+      .from("accounts")
+      .select("*")
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+
+    if (!includeArchived) {
+      query = query.eq("archived", false);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching accounts:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getAccounts:', error);
+    throw error;
+  }
+};
+
+export const createAccount = async (account: NewAccount): Promise<Account> => {
+  console.log('Creating account:', account);
+  try {
+    if (!account.user_id || !account.name?.trim()) {
+      throw new Error('Missing required fields');
+    }
+
+    const { data, error } = await supabase
+      .from("accounts")
+      .insert([{
+        ...account,
+        name: account.name.trim(),
+        opening_balance: Number(account.opening_balance || 0),
+        currency: (account.currency || "BRL").toUpperCase(),
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating account:', error);
+      throw error;
+    }
+
+    console.log('Account created successfully:', data);
+    return data;
+  } catch (error) {
+    console.error('Error in createAccount:', error);
+    throw error;
+  }
+};
+
+export const updateAccount = async (id: string, updates: Partial<Omit<Account, "id" | "user_id">>): Promise<Account> => {
+  console.log('Updating account:', { id, updates });
+  try {
+    const { data, error } = await supabase
+      .from("accounts")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating account:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in updateAccount:', error);
+    throw error;
+  }
+};
+
+/**
+ * Archives an account; its transactions keep pointing to it so the history stays intact
+ */
+export const archiveAccount = (id: string) => updateAccount(id, { archived: true });
+
+/**
+ * Balance of each of the user's accounts up to the date (inclusive): opening balance plus its transactions
+ */
+export const getAccountBalances = async (until: string): Promise<Record<string, number>> => {
+  console.log('Fetching account balances until:', until);
+  try {
+    const { data, error } = await supabase.rpc("get_account_balances", { p_until: until });
+
+    if (error) {
+      console.error('Error fetching account balances:', error);
+      throw error;
+    }
+
+    return ((data || []) as { account_id: string; balance: number }[]).reduce((acc, row) => {
+      acc[row.account_id] = Number(row.balance);
+      return acc;
+    }, {} as Record<string, number>);
+  } catch (error) {
+    console.error('Error in getAccountBalances:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,144 @@
+import { supabase } from "@/lib/supabase";
+
+export interface Budget {
+  id: string;
+  user_id: string;
+  group_id?: string | null;
+  category: string;
+  // Primeiro dia do mês ("yyyy-MM-01"); null vale para todo mês
+  month?: string | null;
+  amount: number;
+  rollover: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NewBudget = Omit<Budget, "id" | "created_at" | "updated_at">;
+
+export type BudgetChanges = Partial<Pick<Budget, "category" | "month" | "amount" | "rollover">>;
+
+// Violação de índice único no Postgres
+const UNIQUE_VIOLATION = "23505";
+
+const DUPLICATED_BUDGET_MESSAGE = 'Já existe um orçamento para essa categoria neste período';
+
+/**
+ * Personal budgets of the user (group budgets are fetched with getGroupBudgets)
+ */
+export const getBudgets = async (userId: string): Promise<Budget[]> => {
+  console.log('Fetching budgets for user:', userId);
+  try {
+    const { data, error } = await supabase
+      .from("budgets")
+      .select("*")
+      .eq("user_id", userId)
+      .is("group_id", null);
+
+    if (error) {
+      console.error('Error fetching budgets:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getBudgets:', error);
+    throw error;
+  }
+};
+
+export const getGroupBudgets = async (groupId: string): Promise<Budget[]> => {
+  console.log('Fetching budgets for group:', groupId);
+  try {
+    const { data, error } = await supabase
+      .from("budgets")
+      .select("*")
+      .eq("group_id", groupId);
+
+    if (error) {
+      console.error('Error fetching group budgets:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getGroupBudgets:', error);
+    throw error;
+  }
+};
+
+export const createBudget = async (budget: NewBudget): Promise<Budget> => {
+  console.log('Creating budget:', budget);
+  try {
+    if (!budget.user_id || !budget.category || !(Number(budget.amount) > 0)) {
+      throw new Error('Missing required fields');
+    }
+
+    const { data, error } = await supabase
+      .from("budgets")
+      .insert([{
+        ...budget,
+        group_id: budget.group_id || null,
+        month: budget.month || null,
+        amount: Number(budget.amount),
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating budget:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error(DUPLICATED_BUDGET_MESSAGE);
+      }
+      throw error;
+    }
+
+    console.log('Budget created successfully:', data);
+    return data;
+  } catch (error) {
+    console.error('Error in createBudget:', error);
+    throw error;
+  }
+};
+
+export const updateBudget = async (id: string, changes: BudgetChanges): Promise<Budget> => {
+  console.log('Updating budget:', { id, changes });
+  try {
+    const { data, error } = await supabase
+      .from("budgets")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating budget:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error(DUPLICATED_BUDGET_MESSAGE);
+      }
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in updateBudget:', error);
+    throw error;
+  }
+};
+
+export const deleteBudget = async (id: string) => {
+  console.log('Deleting budget:', id);
+  try {
+    const { error } = await supabase
+      .from("budgets")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error('Error deleting budget:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in deleteBudget:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,96 @@
+import { supabase } from "@/lib/supabase";
+import { Transaction } from "@/services/transactions";
+import { createTransfer, deleteTransfer } from "@/services/transfers";
+
+// Fatura paga; as faturas abertas e fechadas são calculadas a partir dos lançamentos
+export interface CardStatementPayment {
+  id: string;
+  user_id: string;
+  account_id: string;
+  statement_month: string;
+  amount: number;
+  paid_at: string;
+  transfer_id?: string | null;
+  created_at?: string;
+}
+
+export interface NewCardStatementPayment {
+  user_id: string;
+  account_id: string;
+  from_account_id: string;
+  statement_month: string;
+  amount: number;
+  paid_at: string;
+  description: string;
+}
+
+export const getCardStatementPayments = async (userId: string): Promise<CardStatementPayment[]> => {
+  console.log('Fetching card statement payments for user:', userId);
+  try {
+    const { data, error } = await supabase
+      .from("card_statements")
+      .select("*")
+      .eq("user_id", userId)
+      .order("statement_month", { ascending: false });
+
+    if (error) {
+      console.error('Error fetching card statement payments:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getCardStatementPayments:', error);
+    throw error;
+  }
+};
+
+/**
+ * Pays a card statement with a transfer from another account to the card.
+ * The card expenses were already counted, so the payment itself is not an expense.
+ */
+export const payCardStatement = async (
+  payment: NewCardStatementPayment,
+): Promise<{ payment: CardStatementPayment; transactions: Transaction[] }> => {
+  console.log('Paying card statement:', payment);
+  try {
+    if (!(payment.amount > 0)) {
+      throw new Error('A fatura não possui valor a pagar');
+    }
+
+    const { transfer, transactions } = await createTransfer({
+      user_id: payment.user_id,
+      from_account_id: payment.from_account_id,
+      to_account_id: payment.account_id,
+      amount: payment.amount,
+      date: payment.paid_at,
+      description: payment.description,
+    });
+
+    const { data, error } = await supabase
+      .from("card_statements")
+      .insert([{
+        user_id: payment.user_id,
+        account_id: payment.account_id,
+        statement_month: payment.statement_month,
+        amount: Number(payment.amount),
+        paid_at: payment.paid_at,
+        transfer_id: transfer.id,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error registering card statement payment:', error);
+      // Não deixar um pagamento sem a fatura correspondente
+      await deleteTransfer(transfer.id);
+      throw error;
+    }
+
+    console.log('Card statement paid successfully:', data);
+    return { payment: data, transactions };
+  } catch (error) {
+    console.error('Error in payCardStatement:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,117 @@
+import { supabase } from "@/lib/supabase";
+import { DEFAULT_CATEGORY_COLOR, DEFAULT_CATEGORY_ICON, toCategoryKey } from "@/lib/categories";
+
+export type CategoryType = "income" | "expense";
+
+export interface Category {
+  id: string;
+  // Categorias padrão não têm dono
+  user_id?: string | null;
+  group_id?: string | null;
+  parent_id?: string | null;
+  key: string;
+  name: string;
+  type: CategoryType;
+  color: string;
+  icon: string;
+  archived: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NewCategory = Pick<Category, "user_id" | "name" | "type"> &
+  Partial<Pick<Category, "group_id" | "parent_id" | "color" | "icon">>;
+
+export type CategoryChanges = Partial<Pick<Category, "name" | "parent_id" | "color" | "icon" | "archived">>;
+
+// Violação de índice único no Postgres
+const UNIQUE_VIOLATION = "23505";
+
+export const getCategories = async (): Promise<Category[]> => {
+  console.log('Fetching categories');
+  try {
+    // As políticas de RLS já limitam às categorias padrão, do usuário e dos seus grupos
+    const { data, error } = await supabase
+      .from("categories")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error('Error fetching categories:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getCategories:', error);
+    throw error;
+  }
+};
+
+export const createCategory = async (category: NewCategory): Promise<Category> => {
+  console.log('Creating category:', category);
+  try {
+    const key = toCategoryKey(category.name || "");
+    if (!category.user_id || !key) {
+      throw new Error('Missing required fields');
+    }
+
+    const { data, error } = await supabase
+      .from("categories")
+      .insert([{
+        ...category,
+        key,
+        name: category.name.trim(),
+        group_id: category.group_id || null,
+        parent_id: category.parent_id || null,
+        color: category.color || DEFAULT_CATEGORY_COLOR,
+        icon: category.icon || DEFAULT_CATEGORY_ICON,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating category:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error('Já existe uma categoria com esse nome');
+      }
+      throw error;
+    }
+
+    console.log('Category created successfully:', data);
+    return data;
+  } catch (error) {
+    console.error('Error in createCategory:', error);
+    throw error;
+  }
+};
+
+/**
+ * Updates a category; the key is kept so existing transactions stay linked to it
+ */
+export const updateCategory = async (id: string, changes: CategoryChanges): Promise<Category> => {
+  console.log('Updating category:', { id, changes });
+  try {
+    const { data, error } = await supabase
+      .from("categories")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating category:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in updateCategory:', error);
+    throw error;
+  }
+};
+
+/**
+ * Archives a category: it leaves the pickers but keeps naming the transactions that use it
+ */
+export const archiveCategory = (id: string, archived = true) => updateCategory(id, { archived });
@@ -1,4 +1,7 @@
 import { supabase } from "@/lib/supabase";
+import { MemberBalance } from "@/lib/splits";
+import { Profile } from "./profiles";
+import { GroupRole } from "@/lib/groupRoles";
 
 export interface FinancialGroup {
   id: string;
@@ -8,18 +11,21 @@ export interface FinancialGroup {
   updated_at: string;
   group_members?: {
     user_id: string;
-    role: "owner" | "member";
+    role: GroupRole;
     users?: {
       email: string;
       user_metadata?: {
         name?: string;
       };
     };
+    user?: Profile | null;
   }[];
   summary?: {
     totalIncome: number;
     totalExpenses: number;
     balance: number;
+    // Quanto cada membro tem a receber (positivo) ou a pagar (negativo) nas despesas divididas
+    memberBalances?: MemberBalance[];
   };
 }
 
@@ -27,7 +33,7 @@ export interface GroupMember {
   id: string;
   group_id: string;
   user_id: string;
-  role: "owner" | "member";
+  role: GroupRole;
   created_at: string;
 }
 
@@ -42,20 +48,9 @@ export const createFinancialGroup = async (name: string, userId: string) => {
   try {
     console.log('Iniciando criação do grupo:', { name, userId });
 
-    // Verificar se o usuário está autenticado
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      console.error('Erro ao verificar usuário:', userError);
-      throw new Error('Usuário não autenticado');
-    }
-
-    // Criar o grupo
+    // Grupo e dono são criados juntos no banco, numa única transação
     const { data: group, error: groupError } = await supabase
-      .from("financial_groups")
-      .insert([{ name, created_by: userId }])
-      .select()
-      .single();
+      .rpc("create_financial_group", { p_name: name });
 
     if (groupError) {
       console.error('Erro ao criar grupo:', groupError);
@@ -64,18 +59,6 @@ export const createFinancialGroup = async (name: string, userId: string) => {
 
     console.log('Grupo criado com sucesso:', group);
 
-    // Adicionar o criador como membro do grupo
-    const { error: memberError } = await supabase
-      .from("group_members")
-      .insert([{ group_id: group.id, user_id: userId, role: "owner" }]);
-
-    if (memberError) {
-      console.error('Erro ao adicionar membro:', memberError);
-      throw new Error(memberError.message);
-    }
-
-    console.log('Membro adicionado com sucesso');
-
     // Buscar informações do usuário criador
     const { data: creator, error: creatorError } = await supabase
       .from('profiles')
@@ -115,184 +98,194 @@ export const createFinancialGroup = async (name: string, userId: string) => {
   }
 };
 
-export const getFinancialGroups = async (userId: string) => {
+// Formato devolvido pela função get_group_dashboards
+interface GroupDashboardRow {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  members: NonNullable<FinancialGroup["group_members"]>;
+  total_income: number;
+  total_expenses: number;
+  member_balances: MemberBalance[];
+}
+
+// Receitas e despesas do período informado (datas yyyy-MM-dd); sem período, todo o histórico.
+// Os saldos entre membros são sempre do histórico inteiro.
+export const getFinancialGroups = async (userId: string, period?: { start: string; end: string }) => {
   try {
-    console.log('Iniciando busca de grupos para o usuário:', userId);
-    
-    // Verificar se o usuário está autenticado
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      console.error('Erro ao verificar usuário:', userError);
-      throw new Error('Usuário não autenticado');
+    console.log('Iniciando busca de grupos para o usuário:', { userId, period });
+
+    // Grupos, membros, totais e saldos saem prontos do banco, numa única chamada
+    const { data, error } = await supabase
+      .rpc("get_group_dashboards", {
+        p_start_date: period?.start ?? null,
+        p_end_date: period?.end ?? null,
+      });
+
+    if (error) {
+      console.error('Erro ao buscar grupos:', error);
+      throw new Error(error.message);
     }
 
-    console.log('Usuário autenticado, buscando grupos...');
-    
-    // Primeiro, buscar os IDs dos grupos onde o usuário é membro
-    const { data: memberGroups, error: memberError } = await supabase
-      .from("group_members")
-      .select("group_id")
-      .eq("user_id", userId);
-
-    if (memberError) {
-      console.error('Erro ao buscar grupos do usuário:', memberError);
-      throw new Error(memberError.message);
-    }
+    const groups: FinancialGroup[] = ((data || []) as GroupDashboardRow[]).map((row) => {
+      const totalIncome = Number(row.total_income);
+      const totalExpenses = Number(row.total_expenses);
 
-    if (!memberGroups || memberGroups.length === 0) {
-      console.log('Nenhum grupo encontrado');
-      return [];
-    }
+      return {
+        id: row.id,
+        name: row.name,
+        created_by: row.created_by,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        group_members: row.members,
+        summary: {
+          totalIncome,
+          totalExpenses,
+          balance: totalIncome - totalExpenses,
+          memberBalances: row.member_balances.map((balance) => ({
+            user_id: balance.user_id,
+            paid: Number(balance.paid),
+            owed: Number(balance.owed),
+            net: Number(balance.net),
+          })),
+        },
+      };
+    });
+
+    console.log('Grupos com resumo:', groups);
+    return groups;
+  } catch (error) {
+    console.error("Erro ao buscar grupos:", error);
+    throw error;
+  }
+};
 
-    const groupIds = memberGroups.map(mg => mg.group_id);
+export const renameGroup = async (groupId: string, name: string) => {
+  try {
+    console.log('Renomeando grupo:', { groupId, name });
+
+    if (!name.trim()) {
+      throw new Error('invalid_name');
+    }
 
-    // Buscar os detalhes dos grupos
-    const { data: groups, error: groupsError } = await supabase
+    const { data, error } = await supabase
       .from("financial_groups")
-      .select("*")
-      .in("id", groupIds);
+      .update({ name: name.trim(), updated_at: new Date().toISOString() })
+      .eq("id", groupId)
+      .select();
 
-    if (groupsError) {
-      console.error('Erro ao buscar detalhes dos grupos:', groupsError);
-      throw new Error(groupsError.message);
+    if (error) {
+      console.error('Erro ao renomear grupo:', error);
+      throw new Error(error.message);
     }
 
-    // Buscar os membros de cada grupo
-    const groupsWithMembers = await Promise.all(groups.map(async (group) => {
-      const { data: members, error: membersError } = await supabase
-        .from("group_members")
-        .select("user_id, role")
-        .eq("group_id", group.id);
+    // Sem linhas afetadas: a RLS barrou quem não é dono nem admin
+    if (!data || data.length === 0) {
+      throw new Error('forbidden');
+    }
 
-      if (membersError) {
-        console.error('Erro ao buscar membros do grupo:', membersError);
-        return group;
-      }
+    return data[0];
+  } catch (error) {
+    console.error("Erro ao renomear grupo:", error);
+    throw error;
+  }
+};
 
-      return {
-        ...group,
-        group_members: members
-      };
-    }));
+// As transações do grupo voltam a ser pessoais de quem as lançou; orçamentos, categorias e acertos são excluídos
+export const deleteGroup = async (groupId: string) => {
+  try {
+    console.log('Excluindo grupo:', groupId);
 
-    // Buscar informações dos usuários
-    const allMemberIds = groupsWithMembers
-      .flatMap(group => group.group_members?.map(member => member.user_id) || [])
-      .filter((id, index, self) => self.indexOf(id) === index); // Remove duplicatas
+    const { data, error } = await supabase
+      .from("financial_groups")
+      .delete()
+      .eq("id", groupId)
+      .select("id");
 
-    const { data: users, error: usersError } = await supabase
-      .from('profiles')
-      .select('id, email, full_name')
-      .in('id', allMemberIds);
+    if (error) {
+      console.error('Erro ao excluir grupo:', error);
+      throw new Error(error.message);
+    }
 
-    if (usersError) {
-      console.error('Erro ao buscar usuários:', usersError);
-      return groupsWithMembers;
+    if (!data || data.length === 0) {
+      throw new Error('forbidden');
     }
 
-    // Mapear informações dos usuários para os membros
-    const groupsWithUsers = groupsWithMembers.map(group => ({
-      ...group,
-      group_members: group.group_members?.map(member => ({
-        ...member,
-        user: users?.find(user => user.id === member.user_id)
-      }))
-    }));
-
-    // Adicionar resumo para cada grupo
-    const groupsWithSummary = await Promise.all(groupsWithUsers.map(async (group) => {
-      // Buscar transações do grupo
-      const { data: transactions, error: transactionsError } = await supabase
-        .from("transactions")
-        .select("amount, type")
-        .eq("group_id", group.id);
-
-      if (transactionsError) {
-        console.error('Erro ao buscar transações do grupo:', transactionsError);
-        return {
-          ...group,
-          summary: {
-            totalIncome: 0,
-            totalExpenses: 0,
-            balance: 0
-          }
-        };
-      }
+    return true;
+  } catch (error) {
+    console.error("Erro ao excluir grupo:", error);
+    throw error;
+  }
+};
 
-      const summary = {
-        totalIncome: 0,
-        totalExpenses: 0,
-        balance: 0
-      };
+export const updateMemberRole = async (groupId: string, userId: string, role: GroupRole) => {
+  try {
+    console.log('Alterando papel do membro:', { groupId, userId, role });
 
-      if (transactions) {
-        transactions.forEach(transaction => {
-          if (transaction.type === 'income') {
-            summary.totalIncome += transaction.amount;
-          } else {
-            summary.totalExpenses += transaction.amount;
-          }
-        });
-        summary.balance = summary.totalIncome - summary.totalExpenses;
-      }
+    // "owner" só muda de mãos pela transferência de posse
+    if (role === "owner") {
+      throw new Error('invalid_role');
+    }
 
-      return {
-        ...group,
-        summary
-      };
-    }));
+    const { error } = await supabase
+      .rpc("update_group_member_role", { p_group_id: groupId, p_user_id: userId, p_role: role });
+
+    if (error) {
+      console.error('Erro ao alterar papel do membro:', error);
+      throw new Error(error.message);
+    }
 
-    console.log('Grupos com resumo:', groupsWithSummary);
-    return groupsWithSummary;
+    return true;
   } catch (error) {
-    console.error("Erro ao buscar grupos:", error);
+    console.error("Erro ao alterar papel do membro:", error);
     throw error;
   }
 };
 
-export const inviteToGroup = async (groupId: string, email: string) => {
+// As transações de quem sai continuam no grupo, em nome dele, e seguem contando nos saldos
+export const removeMember = async (groupId: string, userId: string) => {
   try {
-    console.log('Iniciando convite para o grupo:', { groupId, email });
+    console.log('Removendo membro do grupo:', { groupId, userId });
 
-    // Verificar se o usuário existe
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("email", email)
-      .single();
+    const { error } = await supabase
+      .rpc("remove_group_member", { p_group_id: groupId, p_user_id: userId });
 
-    if (userError) {
-      console.error('Erro ao verificar usuário:', userError);
-      throw new Error('Usuário não encontrado');
+    if (error) {
+      console.error('Erro ao remover membro:', error);
+      throw new Error(error.message);
     }
 
-    // Verificar se o usuário já é membro do grupo
-    const { data: existingMember, error: checkError } = await supabase
-      .from("group_members")
-      .select("id")
-      .eq("group_id", groupId)
-      .eq("user_id", user.id)
-      .single();
+    return true;
+  } catch (error) {
+    console.error("Erro ao remover membro:", error);
+    throw error;
+  }
+};
 
-    if (existingMember) {
-      throw new Error('Usuário já é membro deste grupo');
-    }
+// O dono não sai: o banco responde owner_must_transfer até ele transferir a posse
+export const leaveGroup = async (groupId: string, userId: string) => {
+  console.log('Saindo do grupo:', { groupId, userId });
+  return removeMember(groupId, userId);
+};
+
+// O dono atual passa a administrador
+export const transferOwnership = async (groupId: string, newOwnerId: string) => {
+  try {
+    console.log('Transferindo posse do grupo:', { groupId, newOwnerId });
 
-    // Adicionar o usuário como membro do grupo
-    const { error: memberError } = await supabase
-      .from("group_members")
-      .insert([{ group_id: groupId, user_id: user.id, role: "member" }]);
+    const { error } = await supabase
+      .rpc("transfer_group_ownership", { p_group_id: groupId, p_new_owner_id: newOwnerId });
 
-    if (memberError) {
-      console.error('Erro ao adicionar membro:', memberError);
-      throw new Error(memberError.message);
+    if (error) {
+      console.error('Erro ao transferir posse do grupo:', error);
+      throw new Error(error.message);
     }
 
-    console.log('Membro adicionado com sucesso');
     return true;
   } catch (error) {
-    console.error("Erro ao convidar membro:", error);
+    console.error("Erro ao transferir posse do grupo:", error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,192 @@
+import { supabase } from "@/lib/supabase";
+
+export interface Goal {
+  id: string;
+  user_id: string;
+  name: string;
+  target_amount: number;
+  // "yyyy-MM-dd"
+  target_date: string;
+  account_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NewGoal = Omit<Goal, "id" | "created_at" | "updated_at">;
+
+export type GoalChanges = Partial<Pick<Goal, "name" | "target_amount" | "target_date" | "account_id">>;
+
+export interface GoalContribution {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  // Negativo quando é um resgate
+  amount: number;
+  date: string;
+  note?: string | null;
+  created_at?: string;
+}
+
+export type NewGoalContribution = Omit<GoalContribution, "id" | "created_at">;
+
+export const getGoals = async (userId: string): Promise<Goal[]> => {
+  console.log('Fetching goals for user:', userId);
+  try {
+    const { data, error } = await supabase
+      .from("goals")
+      .select("*")
+      .eq("user_id", userId)
+      .order("target_date", { ascending: true });
+
+    if (error) {
+      console.error('Error fetching goals:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getGoals:', error);
+    throw error;
+  }
+};
+
+export const createGoal = async (goal: NewGoal): Promise<Goal> => {
+  console.log('Creating goal:', goal);
+  try {
+    if (!goal.user_id || !goal.name || !goal.target_date || !(Number(goal.target_amount) > 0)) {
+      throw new Error('Missing required fields');
+    }
+
+    const { data, error } = await supabase
+      .from("goals")
+      .insert([{
+        ...goal,
+        account_id: goal.account_id || null,
+        target_amount: Number(goal.target_amount),
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating goal:', error);
+      throw error;
+    }
+
+    console.log('Goal created successfully:', data);
+    return data;
+  } catch (error) {
+    console.error('Error in createGoal:', error);
+    throw error;
+  }
+};
+
+export const updateGoal = async (id: string, changes: GoalChanges): Promise<Goal> => {
+  console.log('Updating goal:', { id, changes });
+  try {
+    const { data, error } = await supabase
+      .from("goals")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating goal:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in updateGoal:', error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes the goal; its contributions go with it (ON DELETE CASCADE)
+ */
+export const deleteGoal = async (id: string) => {
+  console.log('Deleting goal:', id);
+  try {
+    const { error } = await supabase
+      .from("goals")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error('Error deleting goal:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in deleteGoal:', error);
+    throw error;
+  }
+};
+
+export const getGoalContributions = async (userId: string): Promise<GoalContribution[]> => {
+  console.log('Fetching goal contributions for user:', userId);
+  try {
+    const { data, error } = await supabase
+      .from("goal_contributions")
+      .select("*")
+      .eq("user_id", userId)
+      .order("date", { ascending: false });
+
+    if (error) {
+      console.error('Error fetching goal contributions:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getGoalContributions:', error);
+    throw error;
+  }
+};
+
+export const createGoalContribution = async (contribution: NewGoalContribution): Promise<GoalContribution> => {
+  console.log('Creating goal contribution:', contribution);
+  try {
+    if (!contribution.goal_id || !contribution.user_id || !contribution.date || !Number(contribution.amount)) {
+      throw new Error('Missing required fields');
+    }
+
+    const { data, error } = await supabase
+      .from("goal_contributions")
+      .insert([{
+        ...contribution,
+        amount: Number(contribution.amount),
+        note: contribution.note || null,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating goal contribution:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in createGoalContribution:', error);
+    throw error;
+  }
+};
+
+export const deleteGoalContribution = async (id: string) => {
+  console.log('Deleting goal contribution:', id);
+  try {
+    const { error } = await supabase
+      .from("goal_contributions")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error('Error deleting goal contribution:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in deleteGoalContribution:', error);
+    throw error;
+  }
+};
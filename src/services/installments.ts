@@ -0,0 +1,250 @@
+import { parseISO } from "date-fns";
+import { supabase } from "@/lib/supabase";
+import {
+  InstallmentAmountMode,
+  buildInstallmentSchedule,
+  getInstallmentTotal,
+  isPendingInstallment,
+  validateInstallmentPlan,
+} from "@/lib/installments";
+import { Transaction, createTransactions } from "@/services/transactions";
+
+export interface InstallmentPurchase {
+  id: string;
+  user_id: string;
+  group_id?: string | null;
+  account_id?: string | null;
+  description: string;
+  category: string;
+  total_amount: number;
+  installment_count: number;
+  first_due_date: string;
+  cancelled_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface NewInstallmentPurchase {
+  user_id: string;
+  group_id?: string | null;
+  account_id?: string | null;
+  description: string;
+  category: string;
+  amount: number;
+  amount_mode: InstallmentAmountMode;
+  installment_count: number;
+  first_due_date: string;
+}
+
+// "this": só a parcela; "pending": todas as parcelas ainda não vencidas da compra
+export type InstallmentScope = "this" | "pending";
+
+export interface InstallmentChanges {
+  description?: string;
+  category?: string;
+  account_id?: string | null;
+  // Novo valor de cada parcela pendente
+  amount?: number;
+}
+
+/**
+ * Creates an installment purchase and one expense per parcel
+ */
+export const createInstallmentPurchase = async (
+  purchase: NewInstallmentPurchase,
+): Promise<{ purchase: InstallmentPurchase; transactions: Transaction[] }> => {
+  console.log('Creating installment purchase:', purchase);
+  try {
+    if (purchase.installment_count < 2) {
+      throw new Error('Uma compra parcelada precisa de pelo menos 2 parcelas');
+    }
+
+    const plan = {
+      amount: Number(purchase.amount),
+      amountMode: purchase.amount_mode,
+      count: purchase.installment_count,
+      firstDueDate: parseISO(purchase.first_due_date),
+    };
+
+    const planError = validateInstallmentPlan(plan);
+    if (planError) {
+      throw new Error(planError);
+    }
+
+    const { data, error } = await supabase
+      .from("installment_purchases")
+      .insert([{
+        user_id: purchase.user_id,
+        group_id: purchase.group_id ?? null,
+        account_id: purchase.account_id ?? null,
+        description: purchase.description,
+        category: purchase.category,
+        total_amount: getInstallmentTotal(plan),
+        installment_count: purchase.installment_count,
+        first_due_date: purchase.first_due_date,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating installment purchase:', error);
+      throw error;
+    }
+
+    try {
+      const transactions = await createTransactions(
+        buildInstallmentSchedule(plan).map((parcel) => ({
+          user_id: purchase.user_id,
+          group_id: purchase.group_id ?? null,
+          account_id: purchase.account_id ?? null,
+          type: "expense" as const,
+          date: parcel.date,
+          description: purchase.description,
+          amount: parcel.amount,
+          category: purchase.category,
+          is_recurring: false,
+          installment_purchase_id: data.id,
+          installment_number: parcel.number,
+          installment_count: purchase.installment_count,
+        }))
+      );
+      console.log('Installment purchase created successfully:', { purchase: data.id, parcels: transactions.length });
+      return { purchase: data, transactions };
+    } catch (parcelsError) {
+      // Não deixar uma compra sem parcelas
+      await supabase.from("installment_purchases").delete().eq("id", data.id);
+      throw parcelsError;
+    }
+  } catch (error) {
+    console.error('Error in createInstallmentPurchase:', error);
+    throw error;
+  }
+};
+
+const getPurchaseParcels = async (purchaseId: string): Promise<Transaction[]> => {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("*")
+    .eq("installment_purchase_id", purchaseId)
+    .order("installment_number", { ascending: true });
+
+  if (error) {
+    console.error('Error fetching installment parcels:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Applies changes to the purchase and to every parcel that is still pending; past parcels are kept as they are
+ */
+export const updateInstallmentPurchase = async (purchaseId: string, changes: InstallmentChanges) => {
+  console.log('Updating installment purchase:', { purchaseId, changes });
+  try {
+    const parcels = await getPurchaseParcels(purchaseId);
+    const pending = parcels.filter((parcel) => isPendingInstallment(parcel.date));
+    const paidTotal = parcels
+      .filter((parcel) => !isPendingInstallment(parcel.date))
+      .reduce((sum, parcel) => sum + Number(parcel.amount), 0);
+
+    const { amount, ...textChanges } = changes;
+
+    await Promise.all(
+      pending.map(async (parcel) => {
+        const { error } = await supabase
+          .from("transactions")
+          .update({ ...textChanges, ...(amount !== undefined && { amount }) })
+          .eq("id", parcel.id);
+
+        if (error) {
+          console.error('Error updating installment parcel:', error);
+          throw error;
+        }
+      })
+    );
+
+    const pendingTotal = amount !== undefined
+      ? amount * pending.length
+      : pending.reduce((sum, parcel) => sum + Number(parcel.amount), 0);
+
+    const { error } = await supabase
+      .from("installment_purchases")
+      .update({
+        ...textChanges,
+        total_amount: Math.round((paidTotal + pendingTotal) * 100) / 100,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", purchaseId);
+
+    if (error) {
+      console.error('Error updating installment purchase:', error);
+      throw error;
+    }
+
+    console.log('Installment purchase updated successfully:', { purchaseId, pending: pending.length });
+  } catch (error) {
+    console.error('Error in updateInstallmentPurchase:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancels a purchase: pending parcels are removed and the ones already due stay in the history
+ */
+export const cancelInstallmentPurchase = async (purchaseId: string) => {
+  console.log('Cancelling installment purchase:', purchaseId);
+  try {
+    const parcels = await getPurchaseParcels(purchaseId);
+    const paid = parcels.filter((parcel) => !isPendingInstallment(parcel.date));
+
+    if (paid.length === 0) {
+      // Nenhuma parcela venceu: a compra inteira é removida (parcelas em cascata)
+      const { error } = await supabase
+        .from("installment_purchases")
+        .delete()
+        .eq("id", purchaseId);
+
+      if (error) {
+        console.error('Error deleting installment purchase:', error);
+        throw error;
+      }
+      return;
+    }
+
+    const pendingIds = parcels
+      .filter((parcel) => isPendingInstallment(parcel.date))
+      .map((parcel) => parcel.id);
+
+    if (pendingIds.length > 0) {
+      const { error } = await supabase
+        .from("transactions")
+        .delete()
+        .in("id", pendingIds);
+
+      if (error) {
+        console.error('Error deleting pending parcels:', error);
+        throw error;
+      }
+    }
+
+    const { error } = await supabase
+      .from("installment_purchases")
+      .update({
+        cancelled_at: new Date().toISOString(),
+        total_amount: paid.reduce((sum, parcel) => sum + Number(parcel.amount), 0),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", purchaseId);
+
+    if (error) {
+      console.error('Error cancelling installment purchase:', error);
+      throw error;
+    }
+
+    console.log('Installment purchase cancelled successfully:', { purchaseId, removed: pendingIds.length });
+  } catch (error) {
+    console.error('Error in cancelInstallmentPurchase:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,182 @@
+import { supabase } from "@/lib/supabase";
+import { GroupRole } from "@/lib/groupRoles";
+
+export type InvitationStatus = "pending" | "accepted" | "declined" | "expired";
+
+export interface GroupInvitation {
+  id: string;
+  group_id: string;
+  invited_by: string;
+  // NULL nos convites por link
+  email?: string | null;
+  role: Exclude<GroupRole, "owner">;
+  status: InvitationStatus;
+  token: string;
+  expires_at: string;
+  responded_by?: string | null;
+  responded_at?: string | null;
+  created_at?: string;
+}
+
+export type NewGroupInvitation = Pick<GroupInvitation, "group_id" | "email" | "role">;
+
+// Convite visto por quem foi convidado: traz o nome do grupo, que ele ainda não consegue ler
+export interface ReceivedInvitation {
+  id: string;
+  group_id: string;
+  group_name: string;
+  invited_by_name?: string | null;
+  email?: string | null;
+  role: Exclude<GroupRole, "owner">;
+  status: InvitationStatus;
+  token?: string;
+  expires_at: string;
+}
+
+// Link aberto antes do login: o token fica guardado até a pessoa entrar ou criar a conta
+export const PENDING_INVITATION_STORAGE_KEY = "pending-group-invitation";
+
+export const getInvitationLink = (token: string) => `${window.location.origin}/convite/${token}`;
+
+/**
+ * Pending invitations past their expiry date are shown as expired even before anyone tries to use them
+ */
+export const getInvitationStatus = (invitation: Pick<GroupInvitation, "status" | "expires_at">): InvitationStatus =>
+  invitation.status === "pending" && new Date(invitation.expires_at) < new Date() ? "expired" : invitation.status;
+
+export const getGroupInvitations = async (groupId: string): Promise<GroupInvitation[]> => {
+  console.log('Fetching invitations for group:', groupId);
+  try {
+    const { data, error } = await supabase
+      .from("group_invitations")
+      .select("*")
+      .eq("group_id", groupId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error('Error fetching group invitations:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getGroupInvitations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Invites someone to the group. The database checks the caller's role, refuses e-mails that are already members or
+ * already have a pending invitation, and records the caller as the one who invited.
+ */
+export const createGroupInvitation = async (invitation: NewGroupInvitation): Promise<GroupInvitation> => {
+  console.log('Creating group invitation:', invitation);
+  try {
+    if (!invitation.group_id || !invitation.role) {
+      throw new Error('Missing required fields');
+    }
+
+    const { data, error } = await supabase.rpc("invite_group_member", {
+      p_group_id: invitation.group_id,
+      p_email: invitation.email || null,
+      p_role: invitation.role,
+    });
+
+    if (error) {
+      console.error('Error creating group invitation:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in createGroupInvitation:', error);
+    throw error;
+  }
+};
+
+export const deleteGroupInvitation = async (id: string) => {
+  console.log('Deleting group invitation:', id);
+  try {
+    const { error } = await supabase
+      .from("group_invitations")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error('Error deleting group invitation:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in deleteGroupInvitation:', error);
+    throw error;
+  }
+};
+
+export const getMyInvitations = async (): Promise<ReceivedInvitation[]> => {
+  console.log('Fetching received invitations');
+  try {
+    const { data, error } = await supabase.rpc("get_my_group_invitations");
+
+    if (error) {
+      console.error('Error fetching received invitations:', error);
+      throw error;
+    }
+
+    return (data || []).map((invitation: Omit<ReceivedInvitation, "status">) => ({
+      ...invitation,
+      status: "pending" as const,
+    }));
+  } catch (error) {
+    console.error('Error in getMyInvitations:', error);
+    throw error;
+  }
+};
+
+export const getInvitationByToken = async (token: string): Promise<ReceivedInvitation | null> => {
+  console.log('Fetching invitation by token');
+  try {
+    const { data, error } = await supabase.rpc("get_group_invitation", { p_token: token });
+
+    if (error) {
+      console.error('Error fetching invitation:', error);
+      throw error;
+    }
+
+    return data?.[0] || null;
+  } catch (error) {
+    console.error('Error in getInvitationByToken:', error);
+    throw error;
+  }
+};
+
+export const acceptGroupInvitation = async (token: string): Promise<InvitationStatus> => {
+  console.log('Accepting group invitation');
+  try {
+    const { data, error } = await supabase.rpc("accept_group_invitation", { p_token: token });
+
+    if (error) {
+      console.error('Error accepting group invitation:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in acceptGroupInvitation:', error);
+    throw error;
+  }
+};
+
+export const declineGroupInvitation = async (token: string) => {
+  console.log('Declining group invitation');
+  try {
+    const { error } = await supabase.rpc("decline_group_invitation", { p_token: token });
+
+    if (error) {
+      console.error('Error declining group invitation:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in declineGroupInvitation:', error);
+    throw error;
+  }
+};
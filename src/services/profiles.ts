@@ -0,0 +1,88 @@
+import { supabase } from "@/lib/supabase";
+
+export interface Profile {
+  id: string;
+  full_name?: string | null;
+  email?: string | null;
+  pix_key?: string | null;
+  pix_city?: string | null;
+}
+
+export type PixSettings = Pick<Profile, "pix_key" | "pix_city">;
+
+export const getProfileName = (profile?: Profile) =>
+  profile?.full_name || profile?.email || "Usuário";
+
+export const getProfiles = async (ids: string[]): Promise<Profile[]> => {
+  console.log('Fetching profiles:', ids.length);
+  try {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id, full_name, email, pix_key, pix_city")
+      .in("id", ids);
+
+    if (error) {
+      console.error('Error fetching profiles:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getProfiles:', error);
+    throw error;
+  }
+};
+
+export const getProfile = async (id: string): Promise<Profile | null> => {
+  console.log('Fetching profile:', id);
+  try {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id, full_name, email, pix_key, pix_city")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in getProfile:', error);
+    throw error;
+  }
+};
+
+/**
+ * Saves the PIX key of the user, creating the profile row when it does not exist yet
+ */
+export const updatePixSettings = async (profile: Profile & PixSettings): Promise<Profile> => {
+  console.log('Updating PIX settings for profile:', profile.id);
+  try {
+    const { data, error } = await supabase
+      .from("profiles")
+      .upsert({
+        ...profile,
+        pix_key: profile.pix_key || null,
+        pix_city: profile.pix_city || null,
+        updated_at: new Date().toISOString(),
+      })
+      .select("id, full_name, email, pix_key, pix_city")
+      .single();
+
+    if (error) {
+      console.error('Error updating PIX settings:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in updatePixSettings:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,276 @@
+import { supabase } from "@/lib/supabase";
+import {
+  MAX_OCCURRENCES,
+  RecurrenceFrequency,
+  exceedsMaxOccurrences,
+  formatRecurrenceDate,
+  generateOccurrenceDates,
+  getDayBefore,
+} from "@/lib/recurrence";
+import {
+  Transaction,
+  createTransactions,
+  deleteTransaction,
+  updateTransaction,
+} from "@/services/transactions";
+
+export interface RecurringSeries {
+  id: string;
+  user_id: string;
+  group_id?: string | null;
+  account_id?: string | null;
+  type: "income" | "expense";
+  description: string;
+  amount: number;
+  category: string;
+  frequency: RecurrenceFrequency;
+  day_of_month?: number | null;
+  start_date: string;
+  end_date: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NewRecurringSeries = Omit<RecurringSeries, "id" | "created_at" | "updated_at">;
+
+// "this": só a ocorrência; "following": esta e as seguintes; "all": a série inteira
+export type SeriesScope = "this" | "following" | "all";
+
+// Campos que podem ser propagados para as ocorrências; a data só muda com o escopo "this"
+export type SeriesChanges = Partial<
+  Pick<RecurringSeries, "type" | "description" | "amount" | "category" | "account_id"> & { date: string }
+>;
+
+type SeriesOccurrence = Pick<Transaction, "id" | "series_id" | "date">;
+
+/**
+ * Builds the transaction rows for every occurrence of a series
+ */
+export const buildSeriesOccurrences = (series: RecurringSeries) =>
+  generateOccurrenceDates(series).map((date) => ({
+    user_id: series.user_id,
+    group_id: series.group_id ?? null,
+    account_id: series.account_id ?? null,
+    type: series.type,
+    date: formatRecurrenceDate(date),
+    description: series.description,
+    amount: series.amount,
+    category: series.category,
+    is_recurring: true,
+    recurring_start_date: series.start_date,
+    recurring_end_date: series.end_date,
+    series_id: series.id,
+  }));
+
+/**
+ * Creates a recurring series and one transaction per occurrence between its start and end dates
+ */
+export const createRecurringSeries = async (
+  series: NewRecurringSeries,
+): Promise<{ series: RecurringSeries; transactions: Transaction[] }> => {
+  console.log('Creating recurring series:', series);
+  try {
+    if (generateOccurrenceDates(series).length === 0) {
+      throw new Error('A série recorrente não possui nenhuma ocorrência no período informado');
+    }
+
+    // Gravar só parte das ocorrências deixaria recurring_end_date apontando para uma data nunca alcançada
+    if (exceedsMaxOccurrences(series)) {
+      throw new Error(`A série recorrente passa do limite de ${MAX_OCCURRENCES} ocorrências`);
+    }
+
+    const { data, error } = await supabase
+      .from("recurring_series")
+      .insert([{ ...series, amount: Number(series.amount) }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating recurring series:', error);
+      throw error;
+    }
+
+    try {
+      const transactions = await createTransactions(buildSeriesOccurrences(data));
+      console.log('Recurring series created successfully:', { series: data.id, occurrences: transactions.length });
+      return { series: data, transactions };
+    } catch (occurrencesError) {
+      // Não deixar uma série órfã, sem ocorrências
+      await supabase.from("recurring_series").delete().eq("id", data.id);
+      throw occurrencesError;
+    }
+  } catch (error) {
+    console.error('Error in createRecurringSeries:', error);
+    throw error;
+  }
+};
+
+export const getRecurringSeries = async (id: string): Promise<RecurringSeries> => {
+  console.log('Fetching recurring series:', id);
+  try {
+    const { data, error } = await supabase
+      .from("recurring_series")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching recurring series:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in getRecurringSeries:', error);
+    throw error;
+  }
+};
+
+const updateSeriesRow = async (id: string, updates: Partial<RecurringSeries>) => {
+  const { data, error } = await supabase
+    .from("recurring_series")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating recurring series:', error);
+    throw error;
+  }
+
+  return data as RecurringSeries;
+};
+
+/**
+ * Closes a series the day before the given occurrence, keeping the earlier occurrences in sync
+ */
+const endSeriesBefore = async (series: RecurringSeries, date: string) => {
+  const endDate = getDayBefore(date);
+  await updateSeriesRow(series.id, { end_date: endDate });
+
+  const { error } = await supabase
+    .from("transactions")
+    .update({ recurring_end_date: endDate })
+    .eq("series_id", series.id)
+    .lt("date", date);
+
+  if (error) {
+    console.error('Error updating series end date on occurrences:', error);
+    throw error;
+  }
+};
+
+/**
+ * Applies changes to an occurrence of a recurring series, following the chosen scope
+ */
+export const updateSeriesOccurrences = async (
+  occurrence: SeriesOccurrence,
+  changes: SeriesChanges,
+  scope: SeriesScope,
+) => {
+  console.log('Updating recurring series occurrences:', { occurrence, changes, scope });
+  try {
+    if (scope === "this" || !occurrence.series_id) {
+      await updateTransaction(occurrence.id, changes);
+      return;
+    }
+
+    const { date: _date, ...seriesChanges } = changes;
+    const series = await getRecurringSeries(occurrence.series_id);
+
+    if (scope === "all" || occurrence.date <= series.start_date) {
+      await updateSeriesRow(series.id, seriesChanges);
+
+      const { error } = await supabase
+        .from("transactions")
+        .update(seriesChanges)
+        .eq("series_id", series.id);
+
+      if (error) {
+        console.error('Error updating series occurrences:', error);
+        throw error;
+      }
+      return;
+    }
+
+    // "Esta e as seguintes": divide a série, preservando o histórico anterior
+    const { id: _id, created_at: _createdAt, updated_at: _updatedAt, ...seriesData } = series;
+    const { data: newSeries, error: newSeriesError } = await supabase
+      .from("recurring_series")
+      .insert([{ ...seriesData, ...seriesChanges, start_date: occurrence.date }])
+      .select()
+      .single();
+
+    if (newSeriesError) {
+      console.error('Error splitting recurring series:', newSeriesError);
+      throw newSeriesError;
+    }
+
+    const { error } = await supabase
+      .from("transactions")
+      .update({
+        ...seriesChanges,
+        series_id: newSeries.id,
+        recurring_start_date: occurrence.date,
+      })
+      .eq("series_id", series.id)
+      .gte("date", occurrence.date);
+
+    if (error) {
+      console.error('Error moving occurrences to the new series:', error);
+      throw error;
+    }
+
+    await endSeriesBefore(series, occurrence.date);
+    console.log('Recurring series split successfully:', { from: series.id, to: newSeries.id });
+  } catch (error) {
+    console.error('Error in updateSeriesOccurrences:', error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes occurrences of a recurring series, following the chosen scope
+ */
+export const deleteSeriesOccurrences = async (occurrence: SeriesOccurrence, scope: SeriesScope) => {
+  console.log('Deleting recurring series occurrences:', { occurrence, scope });
+  try {
+    if (scope === "this" || !occurrence.series_id) {
+      await deleteTransaction(occurrence.id);
+      return;
+    }
+
+    const series = await getRecurringSeries(occurrence.series_id);
+
+    if (scope === "all" || occurrence.date <= series.start_date) {
+      // As ocorrências são removidas em cascata junto com a série
+      const { error } = await supabase
+        .from("recurring_series")
+        .delete()
+        .eq("id", series.id);
+
+      if (error) {
+        console.error('Error deleting recurring series:', error);
+        throw error;
+      }
+      return;
+    }
+
+    const { error } = await supabase
+      .from("transactions")
+      .delete()
+      .eq("series_id", series.id)
+      .gte("date", occurrence.date);
+
+    if (error) {
+      console.error('Error deleting following occurrences:', error);
+      throw error;
+    }
+
+    await endSeriesBefore(series, occurrence.date);
+  } catch (error) {
+    console.error('Error in deleteSeriesOccurrences:', error);
+    throw error;
+  }
+};
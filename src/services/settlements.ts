@@ -0,0 +1,87 @@
+import { supabase } from "@/lib/supabase";
+
+export interface GroupSettlement {
+  id: string;
+  group_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  amount: number;
+  date: string;
+  note?: string | null;
+  created_by: string;
+  created_at?: string;
+}
+
+export type NewGroupSettlement = Omit<GroupSettlement, "id" | "created_at">;
+
+export const getGroupSettlements = async (groupId: string): Promise<GroupSettlement[]> => {
+  console.log('Fetching settlements for group:', groupId);
+  try {
+    const { data, error } = await supabase
+      .from("group_settlements")
+      .select("*")
+      .eq("group_id", groupId)
+      .order("date", { ascending: false });
+
+    if (error) {
+      console.error('Error fetching group settlements:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getGroupSettlements:', error);
+    throw error;
+  }
+};
+
+export const createGroupSettlement = async (settlement: NewGroupSettlement): Promise<GroupSettlement> => {
+  console.log('Creating group settlement:', settlement);
+  try {
+    if (!settlement.group_id || !settlement.from_user_id || !settlement.to_user_id || !(Number(settlement.amount) > 0)) {
+      throw new Error('Missing required fields');
+    }
+
+    if (settlement.from_user_id === settlement.to_user_id) {
+      throw new Error('Quem paga e quem recebe precisam ser pessoas diferentes');
+    }
+
+    const { data, error } = await supabase
+      .from("group_settlements")
+      .insert([{
+        ...settlement,
+        amount: Number(settlement.amount),
+        note: settlement.note || null,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating group settlement:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in createGroupSettlement:', error);
+    throw error;
+  }
+};
+
+export const deleteGroupSettlement = async (id: string) => {
+  console.log('Deleting group settlement:', id);
+  try {
+    const { error } = await supabase
+      .from("group_settlements")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error('Error deleting group settlement:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in deleteGroupSettlement:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,81 @@
+import { supabase } from "@/lib/supabase";
+import { SplitMethod } from "@/lib/splits";
+
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  user_id: string;
+  paid_amount: number;
+  owed_amount: number;
+  split_method: SplitMethod;
+  share?: number | null;
+  created_at?: string;
+}
+
+export type NewTransactionSplit = Omit<TransactionSplit, "id" | "created_at">;
+
+// Limite de ids por requisição, para a URL do filtro "in" não ficar grande demais
+const IDS_PER_REQUEST = 200;
+
+export const getTransactionSplits = async (transactionIds: string[]): Promise<TransactionSplit[]> => {
+  console.log('Fetching splits for transactions:', transactionIds.length);
+  try {
+    const chunks: string[][] = [];
+    for (let i = 0; i < transactionIds.length; i += IDS_PER_REQUEST) {
+      chunks.push(transactionIds.slice(i, i + IDS_PER_REQUEST));
+    }
+
+    const results = await Promise.all(
+      chunks.map(async (ids) => {
+        const { data, error } = await supabase
+          .from("transaction_splits")
+          .select("*")
+          .in("transaction_id", ids);
+
+        if (error) {
+          console.error('Error fetching transaction splits:', error);
+          throw error;
+        }
+
+        return data || [];
+      })
+    );
+
+    return results.flat();
+  } catch (error) {
+    console.error('Error in getTransactionSplits:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replaces the split of each transaction in the list (the default equal split written when the expense was
+ * saved, or an earlier one) with the given rows, all at once. The rows of each transaction must add up to its amount.
+ */
+export const replaceTransactionSplits = async (splits: NewTransactionSplit[]): Promise<TransactionSplit[]> => {
+  console.log('Replacing transaction splits:', splits.length);
+  try {
+    if (splits.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .rpc("replace_transaction_splits", {
+        p_splits: splits.map((split) => ({
+          ...split,
+          paid_amount: Number(split.paid_amount),
+          owed_amount: Number(split.owed_amount),
+        })),
+      });
+
+    if (error) {
+      console.error('Error replacing transaction splits:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in replaceTransactionSplits:', error);
+    throw error;
+  }
+};
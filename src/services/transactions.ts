@@ -1,9 +1,13 @@
 import { supabase } from "@/lib/supabase";
+import { AccountingRegime } from "@/lib/creditCard";
+
+// "transfer" marca as pernas de uma transferência entre contas, fora dos totais de receitas e despesas
+export type TransactionType = "income" | "expense" | "transfer";
 
 export interface Transaction {
   id: string;
   user_id: string;
-  type: "income" | "expense";
+  type: TransactionType;
   date: string;
   description: string;
   amount: number;
@@ -11,81 +15,395 @@ export interface Transaction {
   is_recurring?: boolean;
   recurring_start_date?: string;
   recurring_end_date?: string;
+  series_id?: string | null;
+  installment_purchase_id?: string | null;
+  installment_number?: number | null;
+  installment_count?: number | null;
+  group_id?: string | null;
+  account_id?: string | null;
+  transfer_id?: string | null;
+  transfer_direction?: "out" | "in" | null;
+  // Preenchido pelo banco para lançamentos em cartão de crédito (mês de vencimento da fatura)
+  statement_month?: string | null;
+  // FITID do banco para lançamentos importados de OFX
+  external_id?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
-export const createTransaction = async (transaction: Omit<Transaction, "id" | "created_at" | "updated_at">) => {
-  console.log('Creating transaction in Supabase:', transaction);
+export type NewTransaction = Omit<Transaction, "id" | "statement_month" | "created_at" | "updated_at">;
+
+const normalizeTransaction = (transaction: NewTransaction) => {
+  if (transaction.type !== 'income' && transaction.type !== 'expense' && transaction.type !== 'transfer') {
+    throw new Error('Invalid transaction type. Must be "income", "expense" or "transfer"');
+  }
+
+  if (transaction.type === 'transfer' && (!transaction.transfer_id || !transaction.transfer_direction || !transaction.account_id)) {
+    throw new Error('Transfer legs must reference a transfer and an account');
+  }
+
+  if (!transaction.user_id || !transaction.date || !transaction.description || !transaction.amount || !transaction.category) {
+    throw new Error('Missing required fields');
+  }
+
+  return {
+    ...transaction,
+    is_recurring: transaction.is_recurring || false,
+    type: transaction.type.toLowerCase() as TransactionType,
+    amount: Number(transaction.amount)
+  };
+};
+
+export const createTransactions = async (transactions: NewTransaction[]): Promise<Transaction[]> => {
+  console.log('Creating transactions in Supabase:', transactions.length);
   try {
-    if (transaction.type !== 'income' && transaction.type !== 'expense') {
-      throw new Error('Invalid transaction type. Must be either "income" or "expense"');
+    if (transactions.length === 0) {
+      return [];
     }
 
-    if (!transaction.user_id || !transaction.date || !transaction.description || !transaction.amount || !transaction.category) {
-      throw new Error('Missing required fields');
+    const transactionsData = transactions.map(normalizeTransaction);
+
+    const { data, error } = await supabase
+      .from("transactions")
+      .insert(transactionsData)
+      .select();
+
+    if (error) {
+      console.error('Error creating transactions:', error);
+      throw error;
     }
 
-    const transactionData = {
-      ...transaction,
-      is_recurring: transaction.is_recurring || false,
-      type: transaction.type.toLowerCase() as "income" | "expense",
-      amount: Number(transaction.amount)
-    };
+    console.log('Transactions created successfully:', data.length);
+    return data;
+  } catch (error) {
+    console.error('Error in createTransactions:', error);
+    throw error;
+  }
+};
 
-    console.log('Final transaction data:', transactionData);
+/**
+ * Inserts imported rows, silently ignoring the ones whose external_id already exists in the account.
+ * Returns only the rows actually inserted.
+ */
+export const importTransactions = async (transactions: NewTransaction[]): Promise<Transaction[]> => {
+  console.log('Importing transactions in Supabase:', transactions.length);
+  try {
+    if (transactions.length === 0) {
+      return [];
+    }
 
     const { data, error } = await supabase
       .from("transactions")
-      .insert([transactionData])
-      .select()
-      .single();
+      .upsert(transactions.map(normalizeTransaction), {
+        onConflict: "account_id,external_id",
+        ignoreDuplicates: true,
+      })
+      .select();
 
     if (error) {
-      console.error('Error creating transaction:', error);
+      console.error('Error importing transactions:', error);
       throw error;
     }
 
-    console.log('Transaction created successfully:', data);
+    console.log('Transactions imported successfully:', data.length);
     return data;
   } catch (error) {
-    console.error('Error in createTransaction:', error);
+    console.error('Error in importTransactions:', error);
     throw error;
   }
 };
 
-export const getTransactions = async (userId: string) => {
-  console.log('Fetching transactions for user:', userId);
+/**
+ * Transactions of the account already imported with any of the given external ids
+ */
+export const getTransactionsByExternalIds = async (accountId: string, externalIds: string[]): Promise<Transaction[]> => {
+  console.log('Fetching imported transactions for account:', accountId);
+  try {
+    if (externalIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("account_id", accountId)
+      .in("external_id", externalIds);
+
+    if (error) {
+      console.error('Error fetching imported transactions:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getTransactionsByExternalIds:', error);
+    throw error;
+  }
+};
+
+export const createTransaction = async (transaction: NewTransaction): Promise<Transaction> => {
+  console.log('Creating transaction in Supabase:', transaction);
+  const [data] = await createTransactions([transaction]);
+  return data;
+};
+
+export interface TransactionFilters {
+  // Datas inclusivas, no formato yyyy-MM-dd
+  startDate?: string;
+  endDate?: string;
+  type?: TransactionType;
+  category?: string;
+  // undefined: qualquer transação do usuário; null: só as pessoais; id: todas as do grupo, de qualquer membro
+  groupId?: string | null;
+  accountIds?: string[];
+  // Busca na descrição e na chave da categoria; searchCategories acrescenta categorias cujo nome bate com a busca
+  search?: string;
+  searchCategories?: string[];
+}
+
+// Posição da última linha carregada, na ordem data desc, id desc
+export interface TransactionCursor {
+  date: string;
+  id: string;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: TransactionCursor | null;
+}
+
+export interface TransactionTotal {
+  // Primeiro dia do mês em que as transações contam
+  month: string;
+  type: TransactionType;
+  category: string;
+  amount: number;
+  count: number;
+}
+
+export interface TransactionTotalsOptions {
+  // Sem regime, cada transação conta na própria data
+  regime?: AccountingRegime;
+  personalOnly?: boolean;
+  // Mesma busca da lista (TransactionFilters), para os totais baterem com o que aparece na tela
+  search?: string;
+  searchCategories?: string[];
+}
+
+interface TransactionTotalRow {
+  month: string;
+  type: TransactionType;
+  category: string;
+  total: number;
+  transaction_count: number;
+}
+
+export const TRANSACTIONS_PAGE_SIZE = 100;
+
+// Páginas usadas para baixar tudo: cada consulta pede uma linha a mais que o limite, e o PostgREST corta
+// as respostas em 1000 linhas (max-rows); com 1000 a última linha nunca chegaria e a paginação pararia ali
+const FULL_FETCH_PAGE_SIZE = 500;
+
+// Caracteres com significado nos filtros do PostgREST
+const sanitizeSearch = (search: string) => search.replace(/[%_*\\"(),]/g, " ").trim();
+
+/**
+ * One page of transactions matching the filters, newest first.
+ * Pass the returned cursor back to get the next page; it is null on the last one.
+ */
+export const queryTransactions = async (
+  userId: string,
+  filters: TransactionFilters = {},
+  cursor?: TransactionCursor | null,
+  limit = TRANSACTIONS_PAGE_SIZE,
+): Promise<TransactionPage> => {
+  console.log('Querying transactions for user:', userId, filters);
   try {
     if (!userId) {
       console.error('Error: userId is required');
       throw new Error('User ID is required');
     }
 
-    const { data, error } = await supabase
+    let query = supabase
       .from("transactions")
       .select("*")
-      .eq("user_id", userId)
-      .order("date", { ascending: false });
+      .order("date", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit + 1);
+
+    // Transações de grupo aparecem para todos os membros; as demais, só para quem lançou
+    if (filters.groupId) {
+      query = query.eq("group_id", filters.groupId);
+    } else {
+      query = query.eq("user_id", userId);
+      if (filters.groupId === null) {
+        query = query.is("group_id", null);
+      }
+    }
+
+    if (filters.startDate) query = query.gte("date", filters.startDate);
+    if (filters.endDate) query = query.lte("date", filters.endDate);
+    if (filters.type) query = query.eq("type", filters.type);
+    if (filters.category) query = query.eq("category", filters.category);
+    if (filters.accountIds) query = query.in("account_id", filters.accountIds);
+
+    // Busca e cursor são condições "ou"; juntas viram uma única árvore lógica
+    const conditions: string[] = [];
+    const search = filters.search ? sanitizeSearch(filters.search) : "";
+    if (search) {
+      const searchConditions = [`description.ilike."*${search}*"`, `category.ilike."*${search}*"`];
+      if (filters.searchCategories?.length) {
+        searchConditions.push(`category.in.(${filters.searchCategories.map((key) => `"${key}"`).join(",")})`);
+      }
+      conditions.push(`or(${searchConditions.join(",")})`);
+    }
+    if (cursor) {
+      conditions.push(`or(date.lt.${cursor.date},and(date.eq.${cursor.date},id.lt.${cursor.id}))`);
+    }
+    if (conditions.length > 0) {
+      query = query.or(`and(${conditions.join(",")})`);
+    }
+
+    const { data, error } = await query;
 
     if (error) {
-      console.error('Error fetching transactions:', error);
+      console.error('Error querying transactions:', error);
       throw error;
     }
 
-    if (!data) {
-      console.log('No transactions found for user:', userId);
-      return [];
-    }
+    const rows: Transaction[] = data || [];
+    const transactions = rows.slice(0, limit);
+    const last = transactions[transactions.length - 1];
 
-    console.log('Transactions fetched successfully:', data.length);
-    return data;
+    return {
+      transactions,
+      nextCursor: rows.length > limit && last ? { date: last.date, id: last.id } : null,
+    };
+  } catch (error) {
+    console.error('Error in queryTransactions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Every transaction matching the filters, newest first (walks all the pages)
+ */
+export const getTransactions = async (userId: string, filters: TransactionFilters = {}): Promise<Transaction[]> => {
+  console.log('Fetching transactions for user:', userId);
+  try {
+    const transactions: Transaction[] = [];
+    let cursor: TransactionCursor | null = null;
+
+    do {
+      const page: TransactionPage = await queryTransactions(userId, filters, cursor, FULL_FETCH_PAGE_SIZE);
+      transactions.push(...page.transactions);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    console.log('Transactions fetched successfully:', transactions.length);
+    return transactions;
   } catch (error) {
     console.error('Error in getTransactions:', error);
     throw error;
   }
 };
 
+/**
+ * Totals per month, type and category of the caller's transactions reported between the dates (inclusive)
+ */
+export const getTransactionTotals = async (
+  startDate: string,
+  endDate: string,
+  options: TransactionTotalsOptions = {},
+): Promise<TransactionTotal[]> => {
+  console.log('Fetching transaction totals:', { startDate, endDate, ...options });
+  try {
+    const search = options.search ? sanitizeSearch(options.search) : "";
+    const { data, error } = await supabase.rpc("get_transaction_totals", {
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_regime: options.regime ?? null,
+      p_personal_only: options.personalOnly ?? false,
+      p_search: search || null,
+      p_search_categories: search && options.searchCategories?.length ? options.searchCategories : null,
+    });
+
+    if (error) {
+      console.error('Error fetching transaction totals:', error);
+      throw error;
+    }
+
+    return ((data || []) as TransactionTotalRow[]).map((row) => ({
+      month: row.month,
+      type: row.type,
+      category: row.category,
+      amount: Number(row.total),
+      count: Number(row.transaction_count),
+    }));
+  } catch (error) {
+    console.error('Error in getTransactionTotals:', error);
+    throw error;
+  }
+};
+
+/**
+ * Balance effect of every transaction of the caller reported before the date
+ */
+export const getTransactionBalance = async (
+  beforeDate: string,
+  options: TransactionTotalsOptions = {},
+): Promise<number> => {
+  console.log('Fetching transaction balance before:', beforeDate);
+  try {
+    const { data, error } = await supabase.rpc("get_transaction_balance", {
+      p_before_date: beforeDate,
+      p_regime: options.regime ?? null,
+      p_personal_only: options.personalOnly ?? false,
+    });
+
+    if (error) {
+      console.error('Error fetching transaction balance:', error);
+      throw error;
+    }
+
+    return Number(data) || 0;
+  } catch (error) {
+    console.error('Error in getTransactionBalance:', error);
+    throw error;
+  }
+};
+
+export const getGroupTransactions = async (groupId: string): Promise<Transaction[]> => {
+  console.log('Fetching transactions for group:', groupId);
+  try {
+    const transactions: Transaction[] = [];
+
+    // Uma consulta só pararia no limite de linhas do PostgREST
+    for (let from = 0; ; from += FULL_FETCH_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("*")
+        .eq("group_id", groupId)
+        .order("date", { ascending: false })
+        .order("id", { ascending: false })
+        .range(from, from + FULL_FETCH_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching group transactions:', error);
+        throw error;
+      }
+
+      transactions.push(...(data || []));
+      if (!data || data.length < FULL_FETCH_PAGE_SIZE) break;
+    }
+
+    return transactions;
+  } catch (error) {
+    console.error('Error in getGroupTransactions:', error);
+    throw error;
+  }
+};
+
 export const updateTransaction = async (id: string, updates: Partial<Transaction>) => {
   console.log('Updating transaction:', { id, updates });
   try {
@@ -0,0 +1,100 @@
+import { supabase } from "@/lib/supabase";
+import { Transaction, createTransactions } from "@/services/transactions";
+
+export interface Transfer {
+  id: string;
+  user_id: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  date: string;
+  description: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NewTransfer = Omit<Transfer, "id" | "created_at" | "updated_at">;
+
+// Categoria fixa das pernas; transferências não entram no agrupamento por categoria
+export const TRANSFER_CATEGORY = "transfer";
+
+/**
+ * Builds the two legs of a transfer: money leaving one account and arriving at the other
+ */
+const buildTransferLegs = (transfer: Transfer) =>
+  ([
+    { account_id: transfer.from_account_id, transfer_direction: "out" },
+    { account_id: transfer.to_account_id, transfer_direction: "in" },
+  ] as const).map((leg) => ({
+    user_id: transfer.user_id,
+    type: "transfer" as const,
+    date: transfer.date,
+    description: transfer.description,
+    amount: transfer.amount,
+    category: TRANSFER_CATEGORY,
+    is_recurring: false,
+    transfer_id: transfer.id,
+    ...leg,
+  }));
+
+/**
+ * Creates a transfer between two accounts and its two linked legs
+ */
+export const createTransfer = async (
+  transfer: NewTransfer,
+): Promise<{ transfer: Transfer; transactions: Transaction[] }> => {
+  console.log('Creating transfer:', transfer);
+  try {
+    if (!transfer.from_account_id || !transfer.to_account_id) {
+      throw new Error('Selecione as contas de origem e destino');
+    }
+
+    if (transfer.from_account_id === transfer.to_account_id) {
+      throw new Error('As contas de origem e destino devem ser diferentes');
+    }
+
+    const { data, error } = await supabase
+      .from("transfers")
+      .insert([{ ...transfer, amount: Number(transfer.amount) }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating transfer:', error);
+      throw error;
+    }
+
+    try {
+      const transactions = await createTransactions(buildTransferLegs(data));
+      console.log('Transfer created successfully:', data.id);
+      return { transfer: data, transactions };
+    } catch (legsError) {
+      await supabase.from("transfers").delete().eq("id", data.id);
+      throw legsError;
+    }
+  } catch (error) {
+    console.error('Error in createTransfer:', error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes a transfer; both legs are removed in cascade
+ */
+export const deleteTransfer = async (id: string) => {
+  console.log('Deleting transfer:', id);
+  try {
+    const { error } = await supabase
+      .from("transfers")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error('Error deleting transfer:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in deleteTransfer:', error);
+    throw error;
+  }
+};
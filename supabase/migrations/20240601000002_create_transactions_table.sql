@@ -1,3 +1,46 @@
+-- Grupos financeiros e seus membros, usados pelas transações de grupo
+CREATE TABLE IF NOT EXISTS public.financial_groups (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.group_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT group_members_group_id_fkey FOREIGN KEY (group_id) REFERENCES public.financial_groups(id),
+  CONSTRAINT group_members_role_check CHECK (role IN ('owner', 'member')),
+  UNIQUE (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_members_user_id ON public.group_members(user_id);
+
+ALTER TABLE public.financial_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their memberships" ON public.group_members;
+CREATE POLICY "Users can view their memberships"
+  ON public.group_members
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their groups" ON public.financial_groups;
+CREATE POLICY "Users can view their groups"
+  ON public.financial_groups
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM group_members gm
+      WHERE gm.group_id = financial_groups.id
+      AND gm.user_id = auth.uid()
+    )
+  );
+
 -- Create transactions table
 CREATE TABLE IF NOT EXISTS public.transactions (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -85,15 +128,3 @@ CREATE POLICY "Users can delete group transactions"
 
 -- Set up realtime
 ALTER PUBLICATION supabase_realtime ADD TABLE public.transactions;
-
--- Primeiro, vamos desabilitar temporariamente o RLS para limpar os dados
-ALTER TABLE public.transactions DISABLE ROW LEVEL SECURITY;
-ALTER TABLE public.profiles DISABLE ROW LEVEL SECURITY;
-
--- Limpar as tabelas
-TRUNCATE TABLE public.transactions;
-TRUNCATE TABLE public.profiles;
-
--- Reabilitar o RLS
-ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
-ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY; 
\ No newline at end of file
@@ -1,8 +1,6 @@
--- Drop existing table if exists
-DROP TABLE IF EXISTS public.transactions;
-
--- Create transactions table
-CREATE TABLE public.transactions (
+-- Esta migração recriava a tabela com DROP TABLE, apagando todas as transações.
+-- A tabela já é criada em 20240601000002; aqui ficam só as políticas por dono.
+CREATE TABLE IF NOT EXISTS public.transactions (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID REFERENCES auth.users(id) NOT NULL,
   type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
@@ -21,25 +19,26 @@ CREATE TABLE public.transactions (
 ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
 
 -- Create policies
+DROP POLICY IF EXISTS "Users can view their own transactions" ON public.transactions;
 CREATE POLICY "Users can view their own transactions"
   ON public.transactions
   FOR SELECT
   USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can insert their own transactions" ON public.transactions;
 CREATE POLICY "Users can insert their own transactions"
   ON public.transactions
   FOR INSERT
   WITH CHECK (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can update their own transactions" ON public.transactions;
 CREATE POLICY "Users can update their own transactions"
   ON public.transactions
   FOR UPDATE
   USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can delete their own transactions" ON public.transactions;
 CREATE POLICY "Users can delete their own transactions"
   ON public.transactions
   FOR DELETE
   USING (auth.uid() = user_id);
-
--- Set up realtime
-ALTER PUBLICATION supabase_realtime ADD TABLE public.transactions; 
\ No newline at end of file
@@ -4,6 +4,3 @@ ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_chec
 -- Agora vamos adicionar a restrição correta
 ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check 
   CHECK (type IN ('income', 'expense'));
-
--- Vamos verificar se a tabela está vazia e limpar se necessário
-TRUNCATE TABLE public.transactions; 
\ No newline at end of file
@@ -31,18 +31,6 @@ FROM transactions t;
 CREATE INDEX IF NOT EXISTS idx_transactions_with_translated_categories_user_id 
 ON transactions_with_translated_categories(user_id);
 
--- Garantir que o trigger de refresh funcione corretamente
-DROP TRIGGER IF EXISTS refresh_transactions_view_trigger ON transactions;
-CREATE TRIGGER refresh_transactions_view_trigger
-AFTER INSERT OR UPDATE OR DELETE ON transactions
-FOR EACH STATEMENT
-EXECUTE FUNCTION refresh_transactions_view();
-
--- Conceder permissões necessárias
-GRANT SELECT ON transactions_with_translated_categories TO authenticated;
+-- O trigger de refresh é criado em 20240601000021, junto com a função que ele chama.
+-- A view não tem RLS, então só o service_role pode lê-la.
 GRANT SELECT ON transactions_with_translated_categories TO service_role;
-GRANT SELECT ON transactions_with_translated_categories TO anon;
-
--- Garantir que o usuário autenticado possa atualizar a view
-GRANT TRIGGER ON transactions TO authenticated;
-GRANT TRIGGER ON transactions TO service_role; 
\ No newline at end of file
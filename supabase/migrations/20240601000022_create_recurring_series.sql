@@ -0,0 +1,112 @@
+-- Séries de transações recorrentes: cada série gera uma transação real por período
+CREATE TABLE IF NOT EXISTS public.recurring_series (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  group_id UUID REFERENCES public.financial_groups(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+  description TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  category TEXT NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'yearly', 'last_business_day')),
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT recurring_series_dates_check CHECK (start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_series_user_id ON public.recurring_series(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.recurring_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuários podem ver suas séries recorrentes" ON public.recurring_series;
+CREATE POLICY "Usuários podem ver suas séries recorrentes"
+ON public.recurring_series
+FOR SELECT
+USING (
+    recurring_series.user_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM group_members
+        WHERE group_members.group_id = recurring_series.group_id
+        AND group_members.user_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem inserir suas séries recorrentes" ON public.recurring_series;
+CREATE POLICY "Usuários podem inserir suas séries recorrentes"
+ON public.recurring_series
+FOR INSERT
+WITH CHECK (recurring_series.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem atualizar suas séries recorrentes" ON public.recurring_series;
+CREATE POLICY "Usuários podem atualizar suas séries recorrentes"
+ON public.recurring_series
+FOR UPDATE
+USING (recurring_series.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem deletar suas séries recorrentes" ON public.recurring_series;
+CREATE POLICY "Usuários podem deletar suas séries recorrentes"
+ON public.recurring_series
+FOR DELETE
+USING (recurring_series.user_id = auth.uid());
+
+-- Cada ocorrência aponta para a sua série
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.recurring_series(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_series_id ON public.transactions(series_id);
+
+-- As ocorrências futuras precisam ser gravadas, então a data não pode mais ser limitada a hoje
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS transactions_date_check;
+
+-- Converter as transações recorrentes antigas (uma única linha) em séries mensais
+DO $$
+DECLARE
+    legacy RECORD;
+    new_series_id UUID;
+BEGIN
+    FOR legacy IN
+        SELECT * FROM public.transactions
+        WHERE is_recurring = true
+        AND series_id IS NULL
+        AND recurring_start_date IS NOT NULL
+        AND recurring_end_date IS NOT NULL
+        AND recurring_start_date <= recurring_end_date
+    LOOP
+        INSERT INTO public.recurring_series (
+            user_id, group_id, type, description, amount, category,
+            frequency, day_of_month, start_date, end_date
+        ) VALUES (
+            legacy.user_id, legacy.group_id, legacy.type, legacy.description, legacy.amount, legacy.category,
+            'monthly', EXTRACT(DAY FROM legacy.date)::INTEGER, legacy.recurring_start_date, legacy.recurring_end_date
+        )
+        RETURNING id INTO new_series_id;
+
+        UPDATE public.transactions SET series_id = new_series_id WHERE id = legacy.id;
+
+        -- Gerar as demais ocorrências mensais, mantendo o dia da transação original
+        INSERT INTO public.transactions (
+            user_id, group_id, type, date, description, amount, category,
+            is_recurring, recurring_start_date, recurring_end_date, series_id
+        )
+        SELECT
+            legacy.user_id, legacy.group_id, legacy.type, occurrence.date, legacy.description, legacy.amount, legacy.category,
+            true, legacy.recurring_start_date, legacy.recurring_end_date, new_series_id
+        FROM (
+            SELECT LEAST(
+                gs.month_start::DATE + (EXTRACT(DAY FROM legacy.date)::INTEGER - 1),
+                (gs.month_start + INTERVAL '1 month' - INTERVAL '1 day')::DATE
+            ) AS date
+            FROM generate_series(
+                date_trunc('month', legacy.recurring_start_date)::DATE,
+                legacy.recurring_end_date,
+                INTERVAL '1 month'
+            ) AS gs(month_start)
+        ) AS occurrence
+        WHERE occurrence.date BETWEEN legacy.recurring_start_date AND legacy.recurring_end_date
+        AND date_trunc('month', occurrence.date) <> date_trunc('month', legacy.date);
+    END LOOP;
+END $$;
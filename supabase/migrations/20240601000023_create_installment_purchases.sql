@@ -0,0 +1,68 @@
+-- Compras parceladas: cada compra gera uma transação de despesa por parcela
+CREATE TABLE IF NOT EXISTS public.installment_purchases (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  group_id UUID REFERENCES public.financial_groups(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  category TEXT NOT NULL,
+  total_amount DECIMAL(10,2) NOT NULL CHECK (total_amount > 0),
+  installment_count INTEGER NOT NULL CHECK (installment_count BETWEEN 2 AND 120),
+  first_due_date DATE NOT NULL,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_installment_purchases_user_id ON public.installment_purchases(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.installment_purchases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuários podem ver suas compras parceladas" ON public.installment_purchases;
+CREATE POLICY "Usuários podem ver suas compras parceladas"
+ON public.installment_purchases
+FOR SELECT
+USING (
+    installment_purchases.user_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM group_members
+        WHERE group_members.group_id = installment_purchases.group_id
+        AND group_members.user_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem inserir suas compras parceladas" ON public.installment_purchases;
+CREATE POLICY "Usuários podem inserir suas compras parceladas"
+ON public.installment_purchases
+FOR INSERT
+WITH CHECK (installment_purchases.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem atualizar suas compras parceladas" ON public.installment_purchases;
+CREATE POLICY "Usuários podem atualizar suas compras parceladas"
+ON public.installment_purchases
+FOR UPDATE
+USING (installment_purchases.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem deletar suas compras parceladas" ON public.installment_purchases;
+CREATE POLICY "Usuários podem deletar suas compras parceladas"
+ON public.installment_purchases
+FOR DELETE
+USING (installment_purchases.user_id = auth.uid());
+
+-- Cada parcela aponta para a compra e guarda sua posição ("3/12")
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS installment_purchase_id UUID REFERENCES public.installment_purchases(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS installment_number INTEGER,
+ADD COLUMN IF NOT EXISTS installment_count INTEGER;
+
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS transactions_installment_check;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_installment_check
+CHECK (
+    installment_purchase_id IS NULL
+    OR (installment_number BETWEEN 1 AND installment_count)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_installment_purchase_id ON public.transactions(installment_purchase_id);
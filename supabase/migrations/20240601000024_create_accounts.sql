@@ -0,0 +1,53 @@
+-- Contas/carteiras: de onde o dinheiro sai e para onde ele vai
+CREATE TABLE IF NOT EXISTS public.accounts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('checking', 'savings', 'cash', 'credit_card')),
+  opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'BRL' CHECK (char_length(currency) = 3),
+  archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON public.accounts(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuários podem ver suas contas" ON public.accounts;
+CREATE POLICY "Usuários podem ver suas contas"
+ON public.accounts
+FOR SELECT
+USING (accounts.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem inserir suas contas" ON public.accounts;
+CREATE POLICY "Usuários podem inserir suas contas"
+ON public.accounts
+FOR INSERT
+WITH CHECK (accounts.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem atualizar suas contas" ON public.accounts;
+CREATE POLICY "Usuários podem atualizar suas contas"
+ON public.accounts
+FOR UPDATE
+USING (accounts.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem deletar suas contas" ON public.accounts;
+CREATE POLICY "Usuários podem deletar suas contas"
+ON public.accounts
+FOR DELETE
+USING (accounts.user_id = auth.uid());
+
+-- Conta opcional nas transações e nas origens que geram transações
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.recurring_series
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.installment_purchases
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON public.transactions(account_id);
@@ -0,0 +1,61 @@
+-- Transferências entre contas: duas pernas (saída e entrada) que não contam como receita nem despesa
+CREATE TABLE IF NOT EXISTS public.transfers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  from_account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+  to_account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL,
+  description TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT transfers_accounts_check CHECK (from_account_id <> to_account_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfers_user_id ON public.transfers(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.transfers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuários podem ver suas transferências" ON public.transfers;
+CREATE POLICY "Usuários podem ver suas transferências"
+ON public.transfers
+FOR SELECT
+USING (transfers.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem inserir suas transferências" ON public.transfers;
+CREATE POLICY "Usuários podem inserir suas transferências"
+ON public.transfers
+FOR INSERT
+WITH CHECK (transfers.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem atualizar suas transferências" ON public.transfers;
+CREATE POLICY "Usuários podem atualizar suas transferências"
+ON public.transfers
+FOR UPDATE
+USING (transfers.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem deletar suas transferências" ON public.transfers;
+CREATE POLICY "Usuários podem deletar suas transferências"
+ON public.transfers
+FOR DELETE
+USING (transfers.user_id = auth.uid());
+
+-- Pernas da transferência na tabela de transações
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS transfer_id UUID REFERENCES public.transfers(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS transfer_direction TEXT CHECK (transfer_direction IN ('out', 'in'));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_id ON public.transactions(transfer_id);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type IN ('income', 'expense', 'transfer'));
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_transfer_check;
+
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_transfer_check
+  CHECK (
+    (type = 'transfer') = (transfer_id IS NOT NULL AND transfer_direction IS NOT NULL AND account_id IS NOT NULL)
+  );
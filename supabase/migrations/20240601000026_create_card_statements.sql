@@ -0,0 +1,127 @@
+-- Cartão de crédito: dia de fechamento e dia de vencimento da fatura
+ALTER TABLE public.accounts
+ADD COLUMN IF NOT EXISTS closing_day INTEGER CHECK (closing_day BETWEEN 1 AND 31),
+ADD COLUMN IF NOT EXISTS due_day INTEGER CHECK (due_day BETWEEN 1 AND 31);
+
+-- Fatura de cada lançamento no cartão, identificada pelo primeiro dia do mês de vencimento
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS statement_month DATE;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_statement ON public.transactions(account_id, statement_month);
+
+-- Calcula a fatura de uma compra: a partir do dia de fechamento, a compra vai para a fatura seguinte
+CREATE OR REPLACE FUNCTION public.get_statement_month(purchase_date DATE, closing_day INTEGER, due_day INTEGER)
+RETURNS DATE AS $$
+DECLARE
+    closing_month DATE := date_trunc('month', purchase_date)::DATE;
+    closing_date DATE;
+BEGIN
+    closing_date := LEAST(
+        closing_month + (closing_day - 1),
+        (closing_month + INTERVAL '1 month' - INTERVAL '1 day')::DATE
+    );
+
+    IF purchase_date >= closing_date THEN
+        closing_month := (closing_month + INTERVAL '1 month')::DATE;
+    END IF;
+
+    -- Vencimento antes (ou no) dia do fechamento cai no mês seguinte ao fechamento
+    IF due_day > closing_day THEN
+        RETURN closing_month;
+    END IF;
+
+    RETURN (closing_month + INTERVAL '1 month')::DATE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Atribuir a fatura sempre que um lançamento no cartão for gravado
+CREATE OR REPLACE FUNCTION public.set_transaction_statement_month()
+RETURNS TRIGGER AS $$
+DECLARE
+    card RECORD;
+BEGIN
+    NEW.statement_month := NULL;
+
+    IF NEW.account_id IS NOT NULL AND NEW.type IN ('income', 'expense') THEN
+        SELECT type, closing_day, due_day INTO card
+        FROM public.accounts
+        WHERE id = NEW.account_id;
+
+        IF card.type = 'credit_card' AND card.closing_day IS NOT NULL AND card.due_day IS NOT NULL THEN
+            NEW.statement_month := public.get_statement_month(NEW.date, card.closing_day, card.due_day);
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_transaction_statement_month_trigger ON public.transactions;
+CREATE TRIGGER set_transaction_statement_month_trigger
+BEFORE INSERT OR UPDATE OF date, account_id, type ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_transaction_statement_month();
+
+-- Faturas pagas: o pagamento é uma transferência da conta de origem para o cartão
+CREATE TABLE IF NOT EXISTS public.card_statements (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+  statement_month DATE NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  paid_at DATE NOT NULL,
+  transfer_id UUID REFERENCES public.transfers(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT card_statements_account_month_key UNIQUE (account_id, statement_month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_statements_user_id ON public.card_statements(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.card_statements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuários podem ver suas faturas" ON public.card_statements;
+CREATE POLICY "Usuários podem ver suas faturas"
+ON public.card_statements
+FOR SELECT
+USING (card_statements.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem inserir suas faturas" ON public.card_statements;
+CREATE POLICY "Usuários podem inserir suas faturas"
+ON public.card_statements
+FOR INSERT
+WITH CHECK (card_statements.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem deletar suas faturas" ON public.card_statements;
+CREATE POLICY "Usuários podem deletar suas faturas"
+ON public.card_statements
+FOR DELETE
+USING (card_statements.user_id = auth.uid());
+
+-- Recalcular as faturas em aberto quando o fechamento ou o vencimento do cartão mudar
+CREATE OR REPLACE FUNCTION public.refresh_card_statement_months()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.transactions t
+    SET statement_month = CASE
+        WHEN NEW.type = 'credit_card' AND NEW.closing_day IS NOT NULL AND NEW.due_day IS NOT NULL
+        THEN public.get_statement_month(t.date, NEW.closing_day, NEW.due_day)
+        ELSE NULL
+    END
+    WHERE t.account_id = NEW.id
+    AND t.type IN ('income', 'expense')
+    AND NOT EXISTS (
+        SELECT 1 FROM public.card_statements cs
+        WHERE cs.account_id = t.account_id
+        AND cs.statement_month = t.statement_month
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_card_statement_months_trigger ON public.accounts;
+CREATE TRIGGER refresh_card_statement_months_trigger
+AFTER UPDATE OF type, closing_day, due_day ON public.accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_card_statement_months();
@@ -0,0 +1,130 @@
+-- Categorias persistidas: padrão (sem dono), do usuário ou do grupo, com hierarquia de subcategorias
+CREATE TABLE IF NOT EXISTS public.categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- NULL nas categorias padrão, disponíveis para todos
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  group_id UUID REFERENCES public.financial_groups(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  -- Valor gravado em transactions.category
+  key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+  color TEXT NOT NULL DEFAULT '#64748b',
+  icon TEXT NOT NULL DEFAULT 'tag',
+  archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT categories_parent_check CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+-- A chave é única dentro de cada escopo (padrão, usuário ou grupo) e tipo
+CREATE UNIQUE INDEX IF NOT EXISTS categories_default_key
+ON public.categories(type, key) WHERE user_id IS NULL AND group_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS categories_user_key
+ON public.categories(user_id, type, key) WHERE user_id IS NOT NULL AND group_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS categories_group_key
+ON public.categories(group_id, type, key) WHERE group_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON public.categories(parent_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuários podem ver suas categorias" ON public.categories;
+CREATE POLICY "Usuários podem ver suas categorias"
+ON public.categories
+FOR SELECT
+USING (
+    (categories.user_id IS NULL AND categories.group_id IS NULL)
+    OR (categories.group_id IS NULL AND categories.user_id = auth.uid())
+    OR EXISTS (
+        SELECT 1 FROM group_members
+        WHERE group_members.group_id = categories.group_id
+        AND group_members.user_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem inserir suas categorias" ON public.categories;
+CREATE POLICY "Usuários podem inserir suas categorias"
+ON public.categories
+FOR INSERT
+WITH CHECK (
+    categories.user_id = auth.uid()
+    AND (
+        categories.group_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM group_members
+            WHERE group_members.group_id = categories.group_id
+            AND group_members.user_id = auth.uid()
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem atualizar suas categorias" ON public.categories;
+CREATE POLICY "Usuários podem atualizar suas categorias"
+ON public.categories
+FOR UPDATE
+USING (
+    (categories.group_id IS NULL AND categories.user_id = auth.uid())
+    OR EXISTS (
+        SELECT 1 FROM group_members
+        WHERE group_members.group_id = categories.group_id
+        AND group_members.user_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem deletar suas categorias" ON public.categories;
+CREATE POLICY "Usuários podem deletar suas categorias"
+ON public.categories
+FOR DELETE
+USING (categories.user_id = auth.uid());
+
+-- Categorias padrão (antes duplicadas no formulário, na lista e na view)
+INSERT INTO public.categories (key, name, type, color, icon) VALUES
+    ('salary', 'Salário', 'income', '#16a34a', 'briefcase'),
+    ('freelance', 'Freelance', 'income', '#0d9488', 'laptop'),
+    ('investment', 'Investimento', 'income', '#2563eb', 'trending-up'),
+    ('gift', 'Presente', 'income', '#db2777', 'gift'),
+    ('other', 'Outro', 'income', '#64748b', 'tag'),
+    ('housing', 'Moradia', 'expense', '#9333ea', 'home'),
+    ('food', 'Alimentação', 'expense', '#ea580c', 'utensils'),
+    ('transportation', 'Transporte', 'expense', '#0284c7', 'car'),
+    ('entertainment', 'Lazer', 'expense', '#e11d48', 'gamepad'),
+    ('utilities', 'Contas', 'expense', '#ca8a04', 'zap'),
+    ('healthcare', 'Saúde', 'expense', '#dc2626', 'heart-pulse'),
+    ('recurring', 'Pagamento Recorrente', 'expense', '#4f46e5', 'repeat'),
+    ('other', 'Outro', 'expense', '#64748b', 'tag')
+ON CONFLICT (type, key) WHERE user_id IS NULL AND group_id IS NULL DO NOTHING;
+
+-- A view passa a buscar o nome na tabela de categorias, sem CASE fixo nem atualização por trigger
+DROP TRIGGER IF EXISTS refresh_transactions_view_trigger ON transactions;
+DROP FUNCTION IF EXISTS refresh_transactions_view();
+DROP MATERIALIZED VIEW IF EXISTS transactions_with_translated_categories;
+DROP FUNCTION IF EXISTS translate_transaction_category(text);
+
+-- Prioridade: categoria do grupo, depois a do usuário, depois a padrão
+CREATE OR REPLACE VIEW transactions_with_translated_categories
+WITH (security_invoker = true) AS
+SELECT
+    t.*,
+    COALESCE(c.name, t.category) AS translated_category,
+    c.color AS category_color,
+    c.icon AS category_icon
+FROM transactions t
+LEFT JOIN LATERAL (
+    SELECT categories.name, categories.color, categories.icon
+    FROM categories
+    WHERE categories.key = t.category
+    AND categories.type = t.type
+    AND (
+        categories.group_id = t.group_id
+        OR (categories.group_id IS NULL AND (categories.user_id = t.user_id OR categories.user_id IS NULL))
+    )
+    ORDER BY categories.group_id IS NULL, categories.user_id IS NULL
+    LIMIT 1
+) c ON true;
+
+GRANT SELECT ON transactions_with_translated_categories TO authenticated;
+GRANT SELECT ON transactions_with_translated_categories TO service_role;
@@ -0,0 +1,80 @@
+-- Orçamentos por categoria: de um mês específico ou de todo mês (month nulo), pessoais ou do grupo
+CREATE TABLE IF NOT EXISTS public.budgets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  group_id UUID REFERENCES public.financial_groups(id) ON DELETE CASCADE,
+  -- Chave da categoria, como em transactions.category
+  category TEXT NOT NULL,
+  -- Primeiro dia do mês; NULL vale para todos os meses
+  month DATE CHECK (month IS NULL OR EXTRACT(DAY FROM month) = 1),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  -- Leva o saldo (sobra ou estouro) do mês anterior para o mês seguinte
+  rollover BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Um orçamento por categoria e mês em cada escopo (pessoal ou grupo)
+CREATE UNIQUE INDEX IF NOT EXISTS budgets_user_category_month
+ON public.budgets(user_id, category, COALESCE(month, '1900-01-01'::DATE)) WHERE group_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS budgets_group_category_month
+ON public.budgets(group_id, category, COALESCE(month, '1900-01-01'::DATE)) WHERE group_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuários podem ver seus orçamentos" ON public.budgets;
+CREATE POLICY "Usuários podem ver seus orçamentos"
+ON public.budgets
+FOR SELECT
+USING (
+    (budgets.group_id IS NULL AND budgets.user_id = auth.uid())
+    OR EXISTS (
+        SELECT 1 FROM group_members
+        WHERE group_members.group_id = budgets.group_id
+        AND group_members.user_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem inserir seus orçamentos" ON public.budgets;
+CREATE POLICY "Usuários podem inserir seus orçamentos"
+ON public.budgets
+FOR INSERT
+WITH CHECK (
+    budgets.user_id = auth.uid()
+    AND (
+        budgets.group_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM group_members
+            WHERE group_members.group_id = budgets.group_id
+            AND group_members.user_id = auth.uid()
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem atualizar seus orçamentos" ON public.budgets;
+CREATE POLICY "Usuários podem atualizar seus orçamentos"
+ON public.budgets
+FOR UPDATE
+USING (
+    (budgets.group_id IS NULL AND budgets.user_id = auth.uid())
+    OR EXISTS (
+        SELECT 1 FROM group_members
+        WHERE group_members.group_id = budgets.group_id
+        AND group_members.user_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem deletar seus orçamentos" ON public.budgets;
+CREATE POLICY "Usuários podem deletar seus orçamentos"
+ON public.budgets
+FOR DELETE
+USING (
+    (budgets.group_id IS NULL AND budgets.user_id = auth.uid())
+    OR EXISTS (
+        SELECT 1 FROM group_members
+        WHERE group_members.group_id = budgets.group_id
+        AND group_members.user_id = auth.uid()
+    )
+);
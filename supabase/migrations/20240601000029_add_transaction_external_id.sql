@@ -0,0 +1,7 @@
+-- Identificador do lançamento no banco (FITID do OFX), usado para não importar o mesmo extrato duas vezes
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+-- O FITID só é único dentro da conta; lançamentos sem external_id não entram na restrição (NULLs são distintos)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_account_external_id
+ON public.transactions(account_id, external_id);
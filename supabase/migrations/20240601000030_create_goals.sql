@@ -0,0 +1,79 @@
+-- Metas de economia: valor alvo, data alvo e conta opcional onde o dinheiro fica guardado
+CREATE TABLE IF NOT EXISTS public.goals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  target_amount DECIMAL(12,2) NOT NULL CHECK (target_amount > 0),
+  target_date DATE NOT NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_goals_user_id ON public.goals(user_id);
+
+-- Histórico de aportes; valores negativos registram resgates
+CREATE TABLE IF NOT EXISTS public.goal_contributions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id UUID REFERENCES public.goals(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0),
+  date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_contributions_goal_id ON public.goal_contributions(goal_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goal_contributions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuários podem ver suas metas" ON public.goals;
+CREATE POLICY "Usuários podem ver suas metas"
+ON public.goals
+FOR SELECT
+USING (goals.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem inserir suas metas" ON public.goals;
+CREATE POLICY "Usuários podem inserir suas metas"
+ON public.goals
+FOR INSERT
+WITH CHECK (goals.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem atualizar suas metas" ON public.goals;
+CREATE POLICY "Usuários podem atualizar suas metas"
+ON public.goals
+FOR UPDATE
+USING (goals.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem deletar suas metas" ON public.goals;
+CREATE POLICY "Usuários podem deletar suas metas"
+ON public.goals
+FOR DELETE
+USING (goals.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem ver os aportes das suas metas" ON public.goal_contributions;
+CREATE POLICY "Usuários podem ver os aportes das suas metas"
+ON public.goal_contributions
+FOR SELECT
+USING (goal_contributions.user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Usuários podem inserir aportes nas suas metas" ON public.goal_contributions;
+CREATE POLICY "Usuários podem inserir aportes nas suas metas"
+ON public.goal_contributions
+FOR INSERT
+WITH CHECK (
+    goal_contributions.user_id = auth.uid()
+    AND EXISTS (
+        SELECT 1 FROM goals
+        WHERE goals.id = goal_contributions.goal_id
+        AND goals.user_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem deletar os aportes das suas metas" ON public.goal_contributions;
+CREATE POLICY "Usuários podem deletar os aportes das suas metas"
+ON public.goal_contributions
+FOR DELETE
+USING (goal_contributions.user_id = auth.uid());
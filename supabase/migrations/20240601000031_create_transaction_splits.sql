@@ -0,0 +1,250 @@
+-- Divisão de despesas do grupo: uma linha por membro, com quanto ele pagou e quanto ele deve da transação
+CREATE TABLE IF NOT EXISTS public.transaction_splits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  paid_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (paid_amount >= 0),
+  owed_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (owed_amount >= 0),
+  -- Como a parte foi informada; share guarda o valor digitado (valor exato, percentual ou número de cotas)
+  split_method TEXT NOT NULL DEFAULT 'equal' CHECK (split_method IN ('equal', 'exact', 'percentage', 'shares')),
+  share DECIMAL(12,4),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (transaction_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction_id ON public.transaction_splits(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_user_id ON public.transaction_splits(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+
+-- As divisões seguem o acesso à transação: qualquer membro do grupo da despesa
+DROP POLICY IF EXISTS "Membros podem ver as divisões das despesas do grupo" ON public.transaction_splits;
+CREATE POLICY "Membros podem ver as divisões das despesas do grupo"
+ON public.transaction_splits
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM transactions
+        JOIN group_members ON group_members.group_id = transactions.group_id
+        WHERE transactions.id = transaction_splits.transaction_id
+        AND group_members.user_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Membros podem inserir divisões nas despesas do grupo" ON public.transaction_splits;
+CREATE POLICY "Membros podem inserir divisões nas despesas do grupo"
+ON public.transaction_splits
+FOR INSERT
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM transactions
+        JOIN group_members ON group_members.group_id = transactions.group_id
+        WHERE transactions.id = transaction_splits.transaction_id
+        AND group_members.user_id = auth.uid()
+    )
+    -- Só entra na divisão quem é membro do grupo
+    AND EXISTS (
+        SELECT 1 FROM transactions
+        JOIN group_members ON group_members.group_id = transactions.group_id
+        WHERE transactions.id = transaction_splits.transaction_id
+        AND group_members.user_id = transaction_splits.user_id
+    )
+);
+
+DROP POLICY IF EXISTS "Membros podem deletar divisões das despesas do grupo" ON public.transaction_splits;
+CREATE POLICY "Membros podem deletar divisões das despesas do grupo"
+ON public.transaction_splits
+FOR DELETE
+USING (
+    EXISTS (
+        SELECT 1 FROM transactions
+        JOIN group_members ON group_members.group_id = transactions.group_id
+        WHERE transactions.id = transaction_splits.transaction_id
+        AND group_members.user_id = auth.uid()
+    )
+);
+
+-- Toda despesa do grupo tem linhas de divisão, gravadas na hora em que é lançada. Assim o saldo de cada
+-- membro não muda quando alguém entra ou sai do grupo depois.
+-- Divisão padrão: quem lançou pagou tudo e os membros daquele momento devem partes iguais; os centavos
+-- que sobram vão para os membros mais antigos. Leitores só acompanham o grupo e não entram na conta.
+CREATE OR REPLACE FUNCTION public.insert_equal_splits(p_transaction_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+    WITH t AS (
+        SELECT id, group_id, user_id, amount, round(amount * 100) AS cents
+        FROM public.transactions
+        WHERE id = p_transaction_id
+    ),
+    members AS (
+        SELECT
+            gm.user_id,
+            row_number() OVER (ORDER BY gm.created_at, gm.user_id) AS position,
+            count(*) OVER () AS member_count
+        FROM public.group_members gm
+        JOIN t ON t.group_id = gm.group_id
+        WHERE gm.role <> 'viewer'
+    ),
+    parts AS (
+        SELECT
+            m.user_id,
+            (floor(t.cents / m.member_count)
+                + CASE WHEN m.position <= t.cents - floor(t.cents / m.member_count) * m.member_count
+                    THEN 1 ELSE 0 END) / 100 AS owed
+        FROM members m
+        CROSS JOIN t
+    ),
+    -- Quem lançou entra mesmo sem ser mais membro, para ficar com o crédito do que pagou
+    people AS (
+        SELECT user_id FROM parts
+        UNION
+        SELECT user_id FROM t
+    )
+    INSERT INTO public.transaction_splits (transaction_id, user_id, paid_amount, owed_amount, split_method, share)
+    SELECT
+        t.id,
+        p.user_id,
+        CASE WHEN p.user_id = t.user_id THEN t.amount ELSE 0 END,
+        COALESCE(parts.owed, 0),
+        'equal',
+        NULL
+    FROM t
+    CROSS JOIN people p
+    LEFT JOIN parts ON parts.user_id = p.user_id
+    ON CONFLICT (transaction_id, user_id) DO NOTHING;
+$$;
+
+-- Quando o valor muda, as partes são refeitas na mesma proporção (em centavos, sobras para os maiores restos)
+-- e quem pagou passa a ter pago o novo valor. Trocar a despesa de grupo refaz a divisão padrão no grupo novo.
+CREATE OR REPLACE FUNCTION public.sync_transaction_splits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.group_id IS DISTINCT FROM NEW.group_id THEN
+        DELETE FROM public.transaction_splits WHERE transaction_id = NEW.id;
+    END IF;
+
+    IF NEW.group_id IS NULL OR NEW.type <> 'expense' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.transaction_splits WHERE transaction_id = NEW.id) THEN
+        PERFORM public.insert_equal_splits(NEW.id);
+    ELSIF TG_OP = 'UPDATE' AND OLD.amount IS DISTINCT FROM NEW.amount THEN
+        WITH weights AS (
+            SELECT id, user_id, owed_amount, SUM(owed_amount) OVER () AS total_owed
+            FROM public.transaction_splits
+            WHERE transaction_id = NEW.id
+        ),
+        exact AS (
+            SELECT id, user_id, round(NEW.amount * 100) * owed_amount / NULLIF(total_owed, 0) AS cents
+            FROM weights
+        ),
+        floored AS (
+            SELECT id, user_id, floor(cents) AS cents, cents - floor(cents) AS remainder
+            FROM exact
+        ),
+        ranked AS (
+            SELECT
+                id,
+                cents + CASE
+                    WHEN row_number() OVER (ORDER BY remainder DESC, user_id)
+                        <= round(NEW.amount * 100) - SUM(cents) OVER ()
+                    THEN 1 ELSE 0 END AS cents
+            FROM floored
+        )
+        UPDATE public.transaction_splits s
+        SET
+            owed_amount = ranked.cents / 100,
+            paid_amount = CASE WHEN s.paid_amount > 0 THEN NEW.amount ELSE 0 END,
+            share = CASE WHEN s.split_method = 'exact' THEN ranked.cents / 100 ELSE s.share END
+        FROM ranked
+        WHERE s.id = ranked.id
+        AND ranked.cents IS NOT NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_transaction_splits ON public.transactions;
+CREATE TRIGGER sync_transaction_splits
+AFTER INSERT OR UPDATE OF amount, type, group_id ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_transaction_splits();
+
+-- Só o gatilho e a carga abaixo usam; do navegador, a divisão padrão não é chamada direto
+REVOKE EXECUTE ON FUNCTION public.insert_equal_splits(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Despesas lançadas antes das divisões: a divisão padrão entre os membros atuais, uma única vez
+SELECT public.insert_equal_splits(t.id)
+FROM public.transactions t
+WHERE t.group_id IS NOT NULL
+AND t.type = 'expense'
+AND NOT EXISTS (SELECT 1 FROM public.transaction_splits s WHERE s.transaction_id = t.id);
+
+-- Troca a divisão de despesas (a padrão ou uma anterior) pela informada, numa transação só.
+-- As partes precisam fechar com o valor de cada despesa. SECURITY INVOKER: passa pela RLS das divisões.
+CREATE OR REPLACE FUNCTION public.replace_transaction_splits(p_splits JSONB)
+RETURNS SETOF public.transaction_splits
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.transaction_splits
+    WHERE transaction_id IN (
+        SELECT (split ->> 'transaction_id')::UUID FROM jsonb_array_elements(p_splits) AS split
+    );
+
+    INSERT INTO public.transaction_splits (transaction_id, user_id, paid_amount, owed_amount, split_method, share)
+    SELECT s.transaction_id, s.user_id, s.paid_amount, s.owed_amount, s.split_method, s.share
+    FROM jsonb_to_recordset(p_splits) AS s(
+        transaction_id UUID,
+        user_id UUID,
+        paid_amount NUMERIC,
+        owed_amount NUMERIC,
+        split_method TEXT,
+        share NUMERIC
+    );
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.transactions t
+        JOIN public.transaction_splits s ON s.transaction_id = t.id
+        WHERE t.id IN (SELECT (split ->> 'transaction_id')::UUID FROM jsonb_array_elements(p_splits) AS split)
+        GROUP BY t.id, t.amount
+        HAVING SUM(s.paid_amount) <> t.amount OR SUM(s.owed_amount) <> t.amount
+    ) THEN
+        RAISE EXCEPTION 'invalid_split' USING ERRCODE = '22023';
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM public.transaction_splits
+    WHERE transaction_id IN (
+        SELECT (split ->> 'transaction_id')::UUID FROM jsonb_array_elements(p_splits) AS split
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replace_transaction_splits(JSONB) TO authenticated;
+
+-- O saldo de cada membro precisa do nome dos colegas de grupo
+DROP POLICY IF EXISTS "Membros podem ver o perfil dos colegas de grupo" ON public.profiles;
+CREATE POLICY "Membros podem ver o perfil dos colegas de grupo"
+ON public.profiles
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM group_members mine
+        JOIN group_members theirs ON theirs.group_id = mine.group_id
+        WHERE mine.user_id = auth.uid()
+        AND theirs.user_id = profiles.id
+    )
+);
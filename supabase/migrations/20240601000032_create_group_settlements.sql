@@ -0,0 +1,78 @@
+-- Acertos de contas entre membros do grupo: ficam fora dos totais de receitas e despesas
+CREATE TABLE IF NOT EXISTS public.group_settlements (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID REFERENCES public.financial_groups(id) ON DELETE CASCADE NOT NULL,
+  -- Quem pagou e quem recebeu
+  from_user_id UUID REFERENCES auth.users(id) NOT NULL,
+  to_user_id UUID REFERENCES auth.users(id) NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL,
+  note TEXT,
+  -- Quem registrou o acerto
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CHECK (from_user_id <> to_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_settlements_group_id ON public.group_settlements(group_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.group_settlements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Membros podem ver os acertos do grupo" ON public.group_settlements;
+CREATE POLICY "Membros podem ver os acertos do grupo"
+ON public.group_settlements
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM group_members
+        WHERE group_members.group_id = group_settlements.group_id
+        AND group_members.user_id = auth.uid()
+    )
+);
+
+-- Membro atual ou alguém que ainda aparece nas divisões do grupo (quem saiu continua com o saldo do seu
+-- tempo e precisa poder acertá-lo). SECURITY INVOKER: só enxerga o que a RLS de quem chama deixa ver.
+CREATE OR REPLACE FUNCTION public.has_group_balance(p_group_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.group_members
+        WHERE group_id = p_group_id
+        AND user_id = p_user_id
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.transaction_splits s
+        JOIN public.transactions t ON t.id = s.transaction_id
+        WHERE t.group_id = p_group_id
+        AND s.user_id = p_user_id
+    );
+$$;
+
+DROP POLICY IF EXISTS "Membros podem registrar acertos no grupo" ON public.group_settlements;
+CREATE POLICY "Membros podem registrar acertos no grupo"
+ON public.group_settlements
+FOR INSERT
+WITH CHECK (
+    group_settlements.created_by = auth.uid()
+    AND group_settlements.from_user_id <> group_settlements.to_user_id
+    AND group_settlements.amount > 0
+    AND EXISTS (
+        SELECT 1 FROM group_members
+        WHERE group_members.group_id = group_settlements.group_id
+        AND group_members.user_id = auth.uid()
+    )
+    -- Quem paga e quem recebe precisam ter parte no grupo: membros ou ex-membros com saldo nas divisões
+    AND public.has_group_balance(group_settlements.group_id, group_settlements.from_user_id)
+    AND public.has_group_balance(group_settlements.group_id, group_settlements.to_user_id)
+);
+
+-- Só quem registrou pode desfazer o acerto
+DROP POLICY IF EXISTS "Usuários podem deletar os acertos que registraram" ON public.group_settlements;
+CREATE POLICY "Usuários podem deletar os acertos que registraram"
+ON public.group_settlements
+FOR DELETE
+USING (group_settlements.created_by = auth.uid());
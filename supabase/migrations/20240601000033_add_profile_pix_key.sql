@@ -0,0 +1,12 @@
+-- Chave PIX do membro, usada para gerar o QR Code de quem precisa pagar a ele no acerto de contas
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS pix_key TEXT,
+-- Cidade do recebedor, exigida pelo BR Code
+ADD COLUMN IF NOT EXISTS pix_city TEXT;
+
+-- Nem todo usuário tem linha em profiles; ao salvar a chave PIX ela é criada
+DROP POLICY IF EXISTS "Users can insert their own profile" ON public.profiles;
+CREATE POLICY "Users can insert their own profile"
+  ON public.profiles
+  FOR INSERT
+  WITH CHECK (auth.uid() = id);
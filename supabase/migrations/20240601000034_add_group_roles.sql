@@ -0,0 +1,290 @@
+-- Papéis do grupo:
+--   owner  - dono; único que exclui o grupo, nomeia admins e transfere a posse
+--   admin  - renomeia o grupo, gerencia membros e leitores e edita qualquer transação do grupo
+--   member - lança e edita as próprias transações do grupo
+--   viewer - só leitura
+ALTER TABLE public.group_members DROP CONSTRAINT IF EXISTS group_members_role_check;
+ALTER TABLE public.group_members
+ADD CONSTRAINT group_members_role_check CHECK (role IN ('owner', 'admin', 'member', 'viewer'));
+
+-- Papel do usuário logado no grupo (NULL quando não é membro). SECURITY DEFINER para que as políticas
+-- de group_members possam consultá-la sem cair na própria RLS.
+CREATE OR REPLACE FUNCTION public.get_group_role(p_group_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM public.group_members
+    WHERE group_id = p_group_id
+    AND user_id = auth.uid();
+$$;
+
+-- Transações: a política de leitura continua a mesma (membros e ex-membros que lançaram a transação).
+-- As de escrita passam a respeitar o papel; as antigas eram permissivas e seriam somadas às novas.
+DROP POLICY IF EXISTS "Users can insert their own transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Users can update their own transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Users can delete their own transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Users can insert group transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Users can update group transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Users can delete group transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Usuários podem inserir transações nos seus grupos" ON public.transactions;
+DROP POLICY IF EXISTS "Usuários podem atualizar transações dos seus grupos" ON public.transactions;
+DROP POLICY IF EXISTS "Usuários podem deletar transações dos seus grupos" ON public.transactions;
+
+DROP POLICY IF EXISTS "Usuários podem inserir transações" ON public.transactions;
+CREATE POLICY "Usuários podem inserir transações"
+ON public.transactions
+FOR INSERT
+WITH CHECK (
+    transactions.user_id = auth.uid()
+    AND (
+        transactions.group_id IS NULL
+        OR public.get_group_role(transactions.group_id) IN ('owner', 'admin', 'member')
+    )
+);
+
+-- Membros editam só o que lançaram; dono e admins editam qualquer transação do grupo.
+-- Quem sai do grupo perde a edição das transações que deixou lá.
+DROP POLICY IF EXISTS "Usuários podem atualizar transações" ON public.transactions;
+CREATE POLICY "Usuários podem atualizar transações"
+ON public.transactions
+FOR UPDATE
+USING (
+    (transactions.group_id IS NULL AND transactions.user_id = auth.uid())
+    OR public.get_group_role(transactions.group_id) IN ('owner', 'admin')
+    OR (transactions.user_id = auth.uid() AND public.get_group_role(transactions.group_id) = 'member')
+)
+WITH CHECK (
+    (transactions.group_id IS NULL AND transactions.user_id = auth.uid())
+    OR public.get_group_role(transactions.group_id) IN ('owner', 'admin')
+    OR (transactions.user_id = auth.uid() AND public.get_group_role(transactions.group_id) = 'member')
+);
+
+DROP POLICY IF EXISTS "Usuários podem deletar transações" ON public.transactions;
+CREATE POLICY "Usuários podem deletar transações"
+ON public.transactions
+FOR DELETE
+USING (
+    (transactions.group_id IS NULL AND transactions.user_id = auth.uid())
+    OR public.get_group_role(transactions.group_id) IN ('owner', 'admin')
+    OR (transactions.user_id = auth.uid() AND public.get_group_role(transactions.group_id) = 'member')
+);
+
+-- Excluir o grupo devolve as transações a quem as lançou, como transações pessoais
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_group_id_fkey;
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_group_id_fkey
+FOREIGN KEY (group_id) REFERENCES public.financial_groups(id) ON DELETE SET NULL;
+
+-- Séries e compras parceladas também ficam com quem as criou; com CASCADE, apagar o grupo apagaria
+-- as ocorrências e as parcelas junto (as transações seguem a série e a compra em cascata)
+ALTER TABLE public.recurring_series DROP CONSTRAINT IF EXISTS recurring_series_group_id_fkey;
+ALTER TABLE public.recurring_series
+ADD CONSTRAINT recurring_series_group_id_fkey
+FOREIGN KEY (group_id) REFERENCES public.financial_groups(id) ON DELETE SET NULL;
+
+ALTER TABLE public.installment_purchases DROP CONSTRAINT IF EXISTS installment_purchases_group_id_fkey;
+ALTER TABLE public.installment_purchases
+ADD CONSTRAINT installment_purchases_group_id_fkey
+FOREIGN KEY (group_id) REFERENCES public.financial_groups(id) ON DELETE SET NULL;
+
+ALTER TABLE public.group_members DROP CONSTRAINT IF EXISTS group_members_group_id_fkey;
+ALTER TABLE public.group_members
+ADD CONSTRAINT group_members_group_id_fkey
+FOREIGN KEY (group_id) REFERENCES public.financial_groups(id) ON DELETE CASCADE;
+
+-- Divisões de transações que deixaram de ser do grupo não têm mais uso
+CREATE OR REPLACE FUNCTION public.delete_splits_when_leaving_group()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.transaction_splits WHERE transaction_id = NEW.id;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_splits_when_leaving_group ON public.transactions;
+CREATE TRIGGER delete_splits_when_leaving_group
+AFTER UPDATE OF group_id ON public.transactions
+FOR EACH ROW
+WHEN (OLD.group_id IS NOT NULL AND NEW.group_id IS NULL)
+EXECUTE FUNCTION public.delete_splits_when_leaving_group();
+
+-- Orçamentos do grupo: leitores só consultam; como nas transações, membros alteram só os que criaram
+DROP POLICY IF EXISTS "Usuários podem inserir seus orçamentos" ON public.budgets;
+CREATE POLICY "Usuários podem inserir seus orçamentos"
+ON public.budgets
+FOR INSERT
+WITH CHECK (
+    budgets.user_id = auth.uid()
+    AND (
+        budgets.group_id IS NULL
+        OR public.get_group_role(budgets.group_id) IN ('owner', 'admin', 'member')
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem atualizar seus orçamentos" ON public.budgets;
+CREATE POLICY "Usuários podem atualizar seus orçamentos"
+ON public.budgets
+FOR UPDATE
+USING (
+    (budgets.group_id IS NULL AND budgets.user_id = auth.uid())
+    OR public.get_group_role(budgets.group_id) IN ('owner', 'admin')
+    OR (budgets.user_id = auth.uid() AND public.get_group_role(budgets.group_id) = 'member')
+)
+WITH CHECK (
+    (budgets.group_id IS NULL AND budgets.user_id = auth.uid())
+    OR public.get_group_role(budgets.group_id) IN ('owner', 'admin')
+    OR (budgets.user_id = auth.uid() AND public.get_group_role(budgets.group_id) = 'member')
+);
+
+DROP POLICY IF EXISTS "Usuários podem deletar seus orçamentos" ON public.budgets;
+CREATE POLICY "Usuários podem deletar seus orçamentos"
+ON public.budgets
+FOR DELETE
+USING (
+    (budgets.group_id IS NULL AND budgets.user_id = auth.uid())
+    OR public.get_group_role(budgets.group_id) IN ('owner', 'admin')
+    OR (budgets.user_id = auth.uid() AND public.get_group_role(budgets.group_id) = 'member')
+);
+
+-- Categorias do grupo: leitores só consultam
+DROP POLICY IF EXISTS "Usuários podem inserir suas categorias" ON public.categories;
+CREATE POLICY "Usuários podem inserir suas categorias"
+ON public.categories
+FOR INSERT
+WITH CHECK (
+    categories.user_id = auth.uid()
+    AND (
+        categories.group_id IS NULL
+        OR public.get_group_role(categories.group_id) IN ('owner', 'admin', 'member')
+    )
+);
+
+DROP POLICY IF EXISTS "Usuários podem atualizar suas categorias" ON public.categories;
+CREATE POLICY "Usuários podem atualizar suas categorias"
+ON public.categories
+FOR UPDATE
+USING (
+    (categories.group_id IS NULL AND categories.user_id = auth.uid())
+    OR public.get_group_role(categories.group_id) IN ('owner', 'admin', 'member')
+)
+WITH CHECK (
+    (categories.group_id IS NULL AND categories.user_id = auth.uid())
+    OR public.get_group_role(categories.group_id) IN ('owner', 'admin', 'member')
+);
+
+-- Divisões: quem pode editar a transação pode refazer a divisão dela
+DROP POLICY IF EXISTS "Membros podem inserir divisões nas despesas do grupo" ON public.transaction_splits;
+CREATE POLICY "Membros podem inserir divisões nas despesas do grupo"
+ON public.transaction_splits
+FOR INSERT
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM transactions
+        WHERE transactions.id = transaction_splits.transaction_id
+        AND (
+            public.get_group_role(transactions.group_id) IN ('owner', 'admin')
+            OR (transactions.user_id = auth.uid() AND public.get_group_role(transactions.group_id) = 'member')
+        )
+    )
+    -- Só entra na divisão quem é membro do grupo; leitores não dividem despesas
+    AND EXISTS (
+        SELECT 1 FROM transactions
+        JOIN group_members ON group_members.group_id = transactions.group_id
+        WHERE transactions.id = transaction_splits.transaction_id
+        AND group_members.user_id = transaction_splits.user_id
+        AND group_members.role <> 'viewer'
+    )
+);
+
+DROP POLICY IF EXISTS "Membros podem deletar divisões das despesas do grupo" ON public.transaction_splits;
+CREATE POLICY "Membros podem deletar divisões das despesas do grupo"
+ON public.transaction_splits
+FOR DELETE
+USING (
+    EXISTS (
+        SELECT 1 FROM transactions
+        WHERE transactions.id = transaction_splits.transaction_id
+        AND (
+            public.get_group_role(transactions.group_id) IN ('owner', 'admin')
+            OR (transactions.user_id = auth.uid() AND public.get_group_role(transactions.group_id) = 'member')
+        )
+    )
+);
+
+-- Acertos: leitores não registram pagamentos
+DROP POLICY IF EXISTS "Membros podem registrar acertos no grupo" ON public.group_settlements;
+CREATE POLICY "Membros podem registrar acertos no grupo"
+ON public.group_settlements
+FOR INSERT
+WITH CHECK (
+    group_settlements.created_by = auth.uid()
+    AND group_settlements.from_user_id <> group_settlements.to_user_id
+    AND group_settlements.amount > 0
+    AND public.get_group_role(group_settlements.group_id) IN ('owner', 'admin', 'member')
+    -- Quem paga e quem recebe precisam ter parte no grupo: membros ou ex-membros com saldo nas divisões
+    AND public.has_group_balance(group_settlements.group_id, group_settlements.from_user_id)
+    AND public.has_group_balance(group_settlements.group_id, group_settlements.to_user_id)
+);
+
+-- Grupo: dono e admins renomeiam, só o dono exclui
+DROP POLICY IF EXISTS "Dono e admins podem renomear o grupo" ON public.financial_groups;
+CREATE POLICY "Dono e admins podem renomear o grupo"
+ON public.financial_groups
+FOR UPDATE
+USING (public.get_group_role(financial_groups.id) IN ('owner', 'admin'))
+WITH CHECK (public.get_group_role(financial_groups.id) IN ('owner', 'admin'));
+
+DROP POLICY IF EXISTS "Dono pode excluir o grupo" ON public.financial_groups;
+CREATE POLICY "Dono pode excluir o grupo"
+ON public.financial_groups
+FOR DELETE
+USING (public.get_group_role(financial_groups.id) = 'owner');
+
+-- Membros: o dono muda qualquer papel e entrega a posse; admins só alternam membros e leitores
+DROP POLICY IF EXISTS "Dono e admins podem alterar papéis" ON public.group_members;
+CREATE POLICY "Dono e admins podem alterar papéis"
+ON public.group_members
+FOR UPDATE
+USING (
+    public.get_group_role(group_members.group_id) = 'owner'
+    OR (
+        public.get_group_role(group_members.group_id) = 'admin'
+        AND group_members.role IN ('member', 'viewer')
+    )
+)
+WITH CHECK (
+    public.get_group_role(group_members.group_id) = 'owner'
+    OR (
+        public.get_group_role(group_members.group_id) = 'admin'
+        AND group_members.role IN ('member', 'viewer')
+    )
+);
+
+-- Do navegador, só o papel muda: quem é o membro e de qual grupo ficam fixos
+REVOKE UPDATE ON public.group_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.group_members TO authenticated;
+
+-- Qualquer um sai do grupo, menos o dono (que precisa transferir a posse antes);
+-- dono remove qualquer outro membro e admins removem membros e leitores
+DROP POLICY IF EXISTS "Membros podem sair e ser removidos do grupo" ON public.group_members;
+CREATE POLICY "Membros podem sair e ser removidos do grupo"
+ON public.group_members
+FOR DELETE
+USING (
+    group_members.role <> 'owner'
+    AND (
+        group_members.user_id = auth.uid()
+        OR public.get_group_role(group_members.group_id) = 'owner'
+        OR (
+            public.get_group_role(group_members.group_id) = 'admin'
+            AND group_members.role IN ('member', 'viewer')
+        )
+    )
+);
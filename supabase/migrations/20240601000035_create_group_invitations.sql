@@ -0,0 +1,243 @@
+-- Convites para grupos: ninguém entra num grupo sem aceitar
+CREATE TABLE IF NOT EXISTS public.group_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID REFERENCES public.financial_groups(id) ON DELETE CASCADE NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) NOT NULL,
+  -- E-mail do convidado (minúsculo); NULL nos convites por link, que valem para quem abrir o link primeiro
+  email TEXT CHECK (email IS NULL OR email = lower(email)),
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member', 'viewer')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired')),
+  -- Segredo do link de convite
+  token UUID DEFAULT gen_random_uuid() NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT (now() + INTERVAL '7 days') NOT NULL,
+  -- Quem aceitou ou recusou e quando
+  responded_by UUID REFERENCES auth.users(id),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_invitations_group_id ON public.group_invitations(group_id);
+CREATE INDEX IF NOT EXISTS idx_group_invitations_email ON public.group_invitations(email) WHERE status = 'pending';
+
+-- Enable Row Level Security
+ALTER TABLE public.group_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Convidados e gestores podem ver os convites" ON public.group_invitations;
+CREATE POLICY "Convidados e gestores podem ver os convites"
+ON public.group_invitations
+FOR SELECT
+USING (
+    public.get_group_role(group_invitations.group_id) IN ('owner', 'admin')
+    OR group_invitations.email = lower(auth.jwt() ->> 'email')
+    OR group_invitations.responded_by = auth.uid()
+);
+
+-- Só o dono convida administradores
+DROP POLICY IF EXISTS "Dono e admins podem convidar" ON public.group_invitations;
+CREATE POLICY "Dono e admins podem convidar"
+ON public.group_invitations
+FOR INSERT
+WITH CHECK (
+    group_invitations.invited_by = auth.uid()
+    AND group_invitations.status = 'pending'
+    AND (
+        public.get_group_role(group_invitations.group_id) = 'owner'
+        OR (
+            public.get_group_role(group_invitations.group_id) = 'admin'
+            AND group_invitations.role IN ('member', 'viewer')
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "Dono e admins podem cancelar convites" ON public.group_invitations;
+CREATE POLICY "Dono e admins podem cancelar convites"
+ON public.group_invitations
+FOR DELETE
+USING (public.get_group_role(group_invitations.group_id) IN ('owner', 'admin'));
+
+-- Aceitar e recusar passam pelas funções abaixo; não há política de UPDATE
+
+-- Se o grupo já tem alguém (SECURITY DEFINER para não recair na RLS de group_members)
+CREATE OR REPLACE FUNCTION public.group_has_members(p_group_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.group_members WHERE group_id = p_group_id);
+$$;
+
+-- Do navegador só é possível entrar como dono do grupo que acabou de criar; o resto passa pelos convites.
+-- RESTRICTIVE: vale junto com qualquer política de INSERT que já exista em group_members.
+DROP POLICY IF EXISTS "Entrada no grupo só por convite" ON public.group_members;
+CREATE POLICY "Entrada no grupo só por convite"
+ON public.group_members
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (
+    group_members.user_id = auth.uid()
+    AND group_members.role = 'owner'
+    AND EXISTS (
+        SELECT 1 FROM financial_groups
+        WHERE financial_groups.id = group_members.group_id
+        AND financial_groups.created_by = auth.uid()
+    )
+    AND NOT public.group_has_members(group_members.group_id)
+);
+
+-- Dados do convite para a página do link; também atende quem ainda não tem conta
+CREATE OR REPLACE FUNCTION public.get_group_invitation(p_token UUID)
+RETURNS TABLE (
+    id UUID,
+    group_id UUID,
+    group_name TEXT,
+    invited_by_name TEXT,
+    email TEXT,
+    role TEXT,
+    status TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        i.id,
+        i.group_id,
+        g.name,
+        COALESCE(p.full_name, p.email),
+        i.email,
+        i.role,
+        CASE WHEN i.status = 'pending' AND i.expires_at < now() THEN 'expired' ELSE i.status END,
+        i.expires_at
+    FROM public.group_invitations i
+    JOIN public.financial_groups g ON g.id = i.group_id
+    LEFT JOIN public.profiles p ON p.id = i.invited_by
+    WHERE i.token = p_token;
+$$;
+
+-- Caixa de entrada: convites pendentes para o e-mail do usuário logado
+CREATE OR REPLACE FUNCTION public.get_my_group_invitations()
+RETURNS TABLE (
+    id UUID,
+    group_id UUID,
+    group_name TEXT,
+    invited_by_name TEXT,
+    role TEXT,
+    token UUID,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        i.id,
+        i.group_id,
+        g.name,
+        COALESCE(p.full_name, p.email),
+        i.role,
+        i.token,
+        i.expires_at,
+        i.created_at
+    FROM public.group_invitations i
+    JOIN public.financial_groups g ON g.id = i.group_id
+    LEFT JOIN public.profiles p ON p.id = i.invited_by
+    WHERE i.email = lower(auth.jwt() ->> 'email')
+    AND i.status = 'pending'
+    AND i.expires_at >= now()
+    ORDER BY i.created_at DESC;
+$$;
+
+-- Aceita o convite e inclui o usuário no grupo. Devolve o status final ('accepted' ou 'expired').
+CREATE OR REPLACE FUNCTION public.accept_group_invitation(p_token UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation public.group_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Entre na sua conta para aceitar o convite';
+    END IF;
+
+    SELECT * INTO v_invitation FROM public.group_invitations WHERE token = p_token FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Convite não encontrado';
+    END IF;
+
+    IF v_invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'Este convite já foi usado';
+    END IF;
+
+    IF v_invitation.email IS NOT NULL AND v_invitation.email <> lower(auth.jwt() ->> 'email') THEN
+        RAISE EXCEPTION 'Este convite foi enviado para outro e-mail';
+    END IF;
+
+    -- Marca como expirado em vez de falhar, para o status ficar gravado
+    IF v_invitation.expires_at < now() THEN
+        UPDATE public.group_invitations SET status = 'expired' WHERE id = v_invitation.id;
+        RETURN 'expired';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.group_members
+        WHERE group_id = v_invitation.group_id
+        AND user_id = auth.uid()
+    ) THEN
+        INSERT INTO public.group_members (group_id, user_id, role)
+        VALUES (v_invitation.group_id, auth.uid(), v_invitation.role);
+    END IF;
+
+    UPDATE public.group_invitations
+    SET status = 'accepted', responded_by = auth.uid(), responded_at = now()
+    WHERE id = v_invitation.id;
+
+    RETURN 'accepted';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_group_invitation(p_token UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation public.group_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Entre na sua conta para recusar o convite';
+    END IF;
+
+    SELECT * INTO v_invitation FROM public.group_invitations WHERE token = p_token FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Convite não encontrado';
+    END IF;
+
+    IF v_invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'Este convite já foi usado';
+    END IF;
+
+    IF v_invitation.email IS NOT NULL AND v_invitation.email <> lower(auth.jwt() ->> 'email') THEN
+        RAISE EXCEPTION 'Este convite foi enviado para outro e-mail';
+    END IF;
+
+    UPDATE public.group_invitations
+    SET status = 'declined', responded_by = auth.uid(), responded_at = now()
+    WHERE id = v_invitation.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_group_invitation(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_group_invitations() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_group_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_group_invitation(UUID) TO authenticated;
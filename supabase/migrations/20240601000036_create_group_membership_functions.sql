@@ -0,0 +1,347 @@
+-- Toda alteração de group_members passa por funções que validam quem pede.
+-- Os erros usam códigos estáveis (mensagem da exceção) que o app traduz:
+--   not_authenticated, invalid_name, group_not_found, forbidden, member_not_found, invalid_role,
+--   cannot_change_own_role, owner_must_transfer, already_member, invitation_pending,
+--   invitation_not_found, invitation_used, invitation_wrong_email
+-- Adicionar membro é convidar (invite_group_member): a pessoa só entra no grupo quando aceita o convite.
+
+CREATE OR REPLACE FUNCTION public.create_financial_group(p_name TEXT)
+RETURNS public.financial_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_group public.financial_groups%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_name IS NULL OR btrim(p_name) = '' THEN
+        RAISE EXCEPTION 'invalid_name' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.financial_groups (name, created_by)
+    VALUES (btrim(p_name), auth.uid())
+    RETURNING * INTO v_group;
+
+    INSERT INTO public.group_members (group_id, user_id, role)
+    VALUES (v_group.id, auth.uid(), 'owner');
+
+    RETURN v_group;
+END;
+$$;
+
+-- O dono muda qualquer papel (menos o próprio); admins só alternam membros e leitores
+CREATE OR REPLACE FUNCTION public.update_group_member_role(p_group_id UUID, p_user_id UUID, p_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor_role TEXT;
+    v_target_role TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_role IS NULL OR p_role NOT IN ('admin', 'member', 'viewer') THEN
+        RAISE EXCEPTION 'invalid_role' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_user_id = auth.uid() THEN
+        RAISE EXCEPTION 'cannot_change_own_role' USING ERRCODE = '22023';
+    END IF;
+
+    v_actor_role := public.get_group_role(p_group_id);
+    IF v_actor_role IS NULL THEN
+        RAISE EXCEPTION 'group_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT role INTO v_target_role FROM public.group_members
+    WHERE group_id = p_group_id AND user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'member_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_target_role = 'owner'
+        OR v_actor_role NOT IN ('owner', 'admin')
+        OR (v_actor_role = 'admin' AND (v_target_role NOT IN ('member', 'viewer') OR p_role NOT IN ('member', 'viewer')))
+    THEN
+        RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.group_members SET role = p_role
+    WHERE group_id = p_group_id AND user_id = p_user_id;
+END;
+$$;
+
+-- Remove outro membro ou, quando p_user_id é o próprio usuário, sai do grupo.
+-- As transações de quem sai continuam no grupo, em nome dele.
+CREATE OR REPLACE FUNCTION public.remove_group_member(p_group_id UUID, p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor_role TEXT;
+    v_target_role TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    v_actor_role := public.get_group_role(p_group_id);
+    IF v_actor_role IS NULL THEN
+        RAISE EXCEPTION 'group_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT role INTO v_target_role FROM public.group_members
+    WHERE group_id = p_group_id AND user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'member_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_target_role = 'owner' THEN
+        IF p_user_id = auth.uid() THEN
+            RAISE EXCEPTION 'owner_must_transfer' USING ERRCODE = '22023';
+        END IF;
+        RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_user_id <> auth.uid()
+        AND v_actor_role <> 'owner'
+        AND NOT (v_actor_role = 'admin' AND v_target_role IN ('member', 'viewer'))
+    THEN
+        RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM public.group_members
+    WHERE group_id = p_group_id AND user_id = p_user_id;
+END;
+$$;
+
+-- Troca de dono numa transação só: o novo dono sobe e o anterior passa a administrador
+CREATE OR REPLACE FUNCTION public.transfer_group_ownership(p_group_id UUID, p_new_owner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    IF public.get_group_role(p_group_id) IS NULL THEN
+        RAISE EXCEPTION 'group_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF public.get_group_role(p_group_id) <> 'owner' THEN
+        RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_new_owner_id = auth.uid() THEN
+        RAISE EXCEPTION 'cannot_change_own_role' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.group_members SET role = 'owner'
+    WHERE group_id = p_group_id AND user_id = p_new_owner_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'member_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE public.group_members SET role = 'admin'
+    WHERE group_id = p_group_id AND user_id = auth.uid();
+END;
+$$;
+
+-- Convites: mesmos códigos de erro das demais funções
+-- Convida por e-mail ou, sem e-mail, cria um convite por link. Só o dono convida administradores.
+CREATE OR REPLACE FUNCTION public.invite_group_member(p_group_id UUID, p_email TEXT, p_role TEXT)
+RETURNS public.group_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor_role TEXT;
+    v_email TEXT := NULLIF(lower(btrim(p_email)), '');
+    v_invitation public.group_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_role IS NULL OR p_role NOT IN ('admin', 'member', 'viewer') THEN
+        RAISE EXCEPTION 'invalid_role' USING ERRCODE = '22023';
+    END IF;
+
+    v_actor_role := public.get_group_role(p_group_id);
+    IF v_actor_role IS NULL THEN
+        RAISE EXCEPTION 'group_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_actor_role NOT IN ('owner', 'admin') OR (v_actor_role = 'admin' AND p_role = 'admin') THEN
+        RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_email IS NOT NULL THEN
+        IF EXISTS (
+            SELECT 1 FROM public.group_members
+            JOIN auth.users ON auth.users.id = group_members.user_id
+            WHERE group_members.group_id = p_group_id
+            AND lower(auth.users.email) = v_email
+        ) THEN
+            RAISE EXCEPTION 'already_member' USING ERRCODE = '23505';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM public.group_invitations
+            WHERE group_id = p_group_id
+            AND email = v_email
+            AND status = 'pending'
+            AND expires_at >= now()
+        ) THEN
+            RAISE EXCEPTION 'invitation_pending' USING ERRCODE = '23505';
+        END IF;
+    END IF;
+
+    INSERT INTO public.group_invitations (group_id, invited_by, email, role)
+    VALUES (p_group_id, auth.uid(), v_email, p_role)
+    RETURNING * INTO v_invitation;
+
+    RETURN v_invitation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_group_invitation(p_token UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation public.group_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_invitation FROM public.group_invitations WHERE token = p_token FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'invitation_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'invitation_used' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_invitation.email IS NOT NULL AND v_invitation.email <> lower(auth.jwt() ->> 'email') THEN
+        RAISE EXCEPTION 'invitation_wrong_email' USING ERRCODE = '42501';
+    END IF;
+
+    -- Marca como expirado em vez de falhar, para o status ficar gravado
+    IF v_invitation.expires_at < now() THEN
+        UPDATE public.group_invitations SET status = 'expired' WHERE id = v_invitation.id;
+        RETURN 'expired';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.group_members
+        WHERE group_id = v_invitation.group_id
+        AND user_id = auth.uid()
+    ) THEN
+        INSERT INTO public.group_members (group_id, user_id, role)
+        VALUES (v_invitation.group_id, auth.uid(), v_invitation.role);
+    END IF;
+
+    UPDATE public.group_invitations
+    SET status = 'accepted', responded_by = auth.uid(), responded_at = now()
+    WHERE id = v_invitation.id;
+
+    RETURN 'accepted';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_group_invitation(p_token UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation public.group_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_invitation FROM public.group_invitations WHERE token = p_token FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'invitation_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'invitation_used' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_invitation.email IS NOT NULL AND v_invitation.email <> lower(auth.jwt() ->> 'email') THEN
+        RAISE EXCEPTION 'invitation_wrong_email' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.group_invitations
+    SET status = 'declined', responded_by = auth.uid(), responded_at = now()
+    WHERE id = v_invitation.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_financial_group(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.invite_group_member(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_group_member_role(UUID, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_group_member(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.transfer_group_ownership(UUID, UUID) TO authenticated;
+
+-- Do navegador, group_members passa a ser só leitura. RESTRICTIVE: vale por cima de qualquer política
+-- permissiva que já exista na tabela.
+DROP POLICY IF EXISTS "Entrada no grupo só por convite" ON public.group_members;
+DROP POLICY IF EXISTS "Dono e admins podem alterar papéis" ON public.group_members;
+DROP POLICY IF EXISTS "Membros podem sair e ser removidos do grupo" ON public.group_members;
+
+DROP POLICY IF EXISTS "Membros só mudam pelas funções do grupo (insert)" ON public.group_members;
+CREATE POLICY "Membros só mudam pelas funções do grupo (insert)"
+ON public.group_members
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (false);
+
+DROP POLICY IF EXISTS "Membros só mudam pelas funções do grupo (update)" ON public.group_members;
+CREATE POLICY "Membros só mudam pelas funções do grupo (update)"
+ON public.group_members
+AS RESTRICTIVE
+FOR UPDATE
+USING (false);
+
+DROP POLICY IF EXISTS "Membros só mudam pelas funções do grupo (delete)" ON public.group_members;
+CREATE POLICY "Membros só mudam pelas funções do grupo (delete)"
+ON public.group_members
+AS RESTRICTIVE
+FOR DELETE
+USING (false);
+
+-- Convites também só são criados pela função, que confere duplicados e quem já é membro
+DROP POLICY IF EXISTS "Dono e admins podem convidar" ON public.group_invitations;
+
+-- group_has_members só servia à política de entrada removida acima
+DROP FUNCTION IF EXISTS public.group_has_members(UUID);
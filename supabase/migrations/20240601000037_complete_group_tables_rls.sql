@@ -0,0 +1,66 @@
+-- financial_groups e group_members foram criadas fora das migrações em bancos antigos, com políticas
+-- que não estão versionadas. Remove todas e recria o conjunto completo, igual ao de um banco novo.
+DO $$
+DECLARE
+    v_policy RECORD;
+BEGIN
+    FOR v_policy IN
+        SELECT policyname, tablename FROM pg_policies
+        WHERE schemaname = 'public'
+        AND tablename IN ('financial_groups', 'group_members')
+    LOOP
+        EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_policy.tablename);
+    END LOOP;
+END $$;
+
+-- Enable Row Level Security
+ALTER TABLE public.financial_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
+
+-- Grupos: só membros enxergam; criação pela função create_financial_group
+CREATE POLICY "Membros podem ver o grupo"
+ON public.financial_groups
+FOR SELECT
+USING (public.get_group_role(financial_groups.id) IS NOT NULL);
+
+CREATE POLICY "Dono e admins podem renomear o grupo"
+ON public.financial_groups
+FOR UPDATE
+USING (public.get_group_role(financial_groups.id) IN ('owner', 'admin'))
+WITH CHECK (public.get_group_role(financial_groups.id) IN ('owner', 'admin'));
+
+CREATE POLICY "Dono pode excluir o grupo"
+ON public.financial_groups
+FOR DELETE
+USING (public.get_group_role(financial_groups.id) = 'owner');
+
+-- Membros: cada um vê quem está nos seus grupos; alterações só pelas funções do grupo
+CREATE POLICY "Membros podem ver os colegas de grupo"
+ON public.group_members
+FOR SELECT
+USING (public.get_group_role(group_members.group_id) IS NOT NULL);
+
+CREATE POLICY "Membros só mudam pelas funções do grupo (insert)"
+ON public.group_members
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Membros só mudam pelas funções do grupo (update)"
+ON public.group_members
+AS RESTRICTIVE
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Membros só mudam pelas funções do grupo (delete)"
+ON public.group_members
+AS RESTRICTIVE
+FOR DELETE
+USING (false);
+
+-- Índices que os bancos antigos podem não ter
+CREATE INDEX IF NOT EXISTS idx_group_members_user_id ON public.group_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_financial_groups_created_by ON public.financial_groups(created_by);
+
+-- A tela inicial sempre filtra as transações por usuário e período
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date ON public.transactions(user_id, date);
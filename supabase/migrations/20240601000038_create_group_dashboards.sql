@@ -0,0 +1,129 @@
+-- Painel dos grupos numa chamada só: grupos do usuário, membros com perfil, totais do período e saldos.
+-- Receitas e despesas seguem o período pedido (sem datas, todo o histórico); os saldos entre membros
+-- são sempre do histórico inteiro, já descontados os acertos, porque dívidas não zeram na virada do mês.
+-- Os saldos vêm só das linhas de transaction_splits, gravadas junto com cada despesa: quem entra ou sai
+-- do grupo não muda a divisão do que já foi lançado.
+-- SECURITY INVOKER: cada leitura passa pela RLS de quem chama.
+CREATE OR REPLACE FUNCTION public.get_group_dashboards(p_start_date DATE DEFAULT NULL, p_end_date DATE DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    members JSONB,
+    total_income NUMERIC,
+    total_expenses NUMERIC,
+    member_balances JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH my_groups AS (
+        SELECT g.*
+        FROM public.financial_groups g
+        JOIN public.group_members me ON me.group_id = g.id AND me.user_id = auth.uid()
+    ),
+    members AS (
+        SELECT
+            gm.group_id,
+            gm.user_id,
+            gm.role,
+            row_number() OVER (PARTITION BY gm.group_id ORDER BY gm.created_at, gm.user_id) AS position
+        FROM public.group_members gm
+        JOIN my_groups g ON g.id = gm.group_id
+    ),
+    group_transactions AS (
+        SELECT
+            t.id,
+            t.group_id,
+            t.user_id,
+            t.type,
+            t.amount,
+            t.date
+        FROM public.transactions t
+        JOIN my_groups g ON g.id = t.group_id
+    ),
+    totals AS (
+        SELECT
+            group_id,
+            SUM(amount) FILTER (WHERE type = 'income') AS total_income,
+            SUM(amount) FILTER (WHERE type = 'expense') AS total_expenses
+        FROM group_transactions
+        WHERE (p_start_date IS NULL OR date >= p_start_date)
+        AND (p_end_date IS NULL OR date <= p_end_date)
+        GROUP BY group_id
+    ),
+    movements AS (
+        -- Despesas: o que cada um pagou e deve segundo a divisão gravada
+        SELECT t.group_id, s.user_id, s.paid_amount AS paid, s.owed_amount AS owed, 0::NUMERIC AS settled
+        FROM public.transaction_splits s
+        JOIN group_transactions t ON t.id = s.transaction_id
+        WHERE t.type = 'expense'
+        UNION ALL
+        -- Acertos: pagar aumenta o saldo de quem pagou, receber diminui o de quem recebeu
+        SELECT st.group_id, st.from_user_id, 0, 0, st.amount
+        FROM public.group_settlements st
+        JOIN my_groups g ON g.id = st.group_id
+        UNION ALL
+        SELECT st.group_id, st.to_user_id, 0, 0, -st.amount
+        FROM public.group_settlements st
+        JOIN my_groups g ON g.id = st.group_id
+        UNION ALL
+        -- Todo membro atual aparece, mesmo sem movimento
+        SELECT m.group_id, m.user_id, 0, 0, 0
+        FROM members m
+    ),
+    balances AS (
+        SELECT
+            group_id,
+            user_id,
+            round(SUM(paid), 2) AS paid,
+            round(SUM(owed), 2) AS owed,
+            round(SUM(paid) - SUM(owed) + SUM(settled), 2) AS net
+        FROM movements
+        GROUP BY group_id, user_id
+    )
+    SELECT
+        g.id,
+        g.name,
+        g.created_by,
+        g.created_at,
+        g.updated_at,
+        COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'user_id', m.user_id,
+                    'role', m.role,
+                    'user', CASE WHEN p.id IS NULL THEN NULL ELSE jsonb_build_object(
+                        'id', p.id,
+                        'email', p.email,
+                        'full_name', p.full_name,
+                        'pix_key', p.pix_key,
+                        'pix_city', p.pix_city
+                    ) END
+                )
+                ORDER BY m.position
+            )
+            FROM members m
+            LEFT JOIN public.profiles p ON p.id = m.user_id
+            WHERE m.group_id = g.id
+        ), '[]'::JSONB),
+        COALESCE(t.total_income, 0),
+        COALESCE(t.total_expenses, 0),
+        COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object('user_id', b.user_id, 'paid', b.paid, 'owed', b.owed, 'net', b.net)
+                ORDER BY b.user_id
+            )
+            FROM balances b
+            WHERE b.group_id = g.id
+        ), '[]'::JSONB)
+    FROM my_groups g
+    LEFT JOIN totals t ON t.group_id = g.id
+    ORDER BY g.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_group_dashboards(DATE, DATE) TO authenticated;
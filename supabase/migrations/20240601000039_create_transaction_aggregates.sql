@@ -0,0 +1,133 @@
+-- Totais e saldos calculados no banco, para a tela inicial não precisar baixar todo o histórico.
+-- Todas as funções são SECURITY INVOKER e olham só as transações de quem chama (user_id = auth.uid()).
+
+-- Data em que a transação conta nos totais, como getReportingDate no app:
+--   sem regime (NULL): a própria data; 'accrual': mês da fatura do cartão; 'cash': pagamento da fatura
+--   (NULL enquanto a fatura não for paga)
+CREATE OR REPLACE FUNCTION public.get_transaction_reporting_date(
+    p_date DATE,
+    p_account_id UUID,
+    p_statement_month DATE,
+    p_regime TEXT
+)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_regime IS NULL OR p_statement_month IS NULL THEN p_date
+        WHEN p_regime = 'accrual' THEN p_statement_month
+        ELSE (
+            SELECT cs.paid_at FROM public.card_statements cs
+            WHERE cs.account_id = p_account_id
+            AND cs.statement_month = p_statement_month
+        )
+    END;
+$$;
+
+-- Soma e quantidade por mês, tipo e categoria no período (datas inclusivas). A busca é a mesma da lista de
+-- transações: trecho da descrição ou da categoria, ou uma das categorias cujo nome combina com o termo.
+DROP FUNCTION IF EXISTS public.get_transaction_totals(DATE, DATE, TEXT, BOOLEAN);
+CREATE OR REPLACE FUNCTION public.get_transaction_totals(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_regime TEXT DEFAULT NULL,
+    p_personal_only BOOLEAN DEFAULT false,
+    p_search TEXT DEFAULT NULL,
+    p_search_categories TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+    month DATE,
+    type TEXT,
+    category TEXT,
+    total NUMERIC,
+    transaction_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH reported AS (
+        SELECT
+            t.type,
+            t.category,
+            t.amount,
+            public.get_transaction_reporting_date(t.date, t.account_id, t.statement_month, p_regime) AS reporting_date
+        FROM public.transactions t
+        WHERE t.user_id = auth.uid()
+        AND (NOT p_personal_only OR t.group_id IS NULL)
+        AND (
+            p_search IS NULL
+            OR t.description ILIKE '%' || p_search || '%'
+            OR t.category ILIKE '%' || p_search || '%'
+            OR t.category = ANY (COALESCE(p_search_categories, '{}'))
+        )
+    )
+    SELECT
+        date_trunc('month', reporting_date)::DATE,
+        type,
+        category,
+        SUM(amount),
+        COUNT(*)
+    FROM reported
+    WHERE reporting_date BETWEEN p_start_date AND p_end_date
+    GROUP BY 1, 2, 3
+    ORDER BY 1, 2, 3;
+$$;
+
+-- Saldo acumulado antes da data: receitas menos despesas, com as pernas de transferência (que se anulam)
+CREATE OR REPLACE FUNCTION public.get_transaction_balance(
+    p_before_date DATE,
+    p_regime TEXT DEFAULT NULL,
+    p_personal_only BOOLEAN DEFAULT false
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN t.type = 'income' OR t.transfer_direction = 'in' THEN t.amount
+            ELSE -t.amount
+        END
+    ), 0)
+    FROM public.transactions t
+    WHERE t.user_id = auth.uid()
+    AND (NOT p_personal_only OR t.group_id IS NULL)
+    AND public.get_transaction_reporting_date(t.date, t.account_id, t.statement_month, p_regime) < p_before_date;
+$$;
+
+-- Saldo de cada conta: saldo inicial mais as transações até a data (inclusiva)
+CREATE OR REPLACE FUNCTION public.get_account_balances(p_until DATE)
+RETURNS TABLE (
+    account_id UUID,
+    balance NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        a.id,
+        a.opening_balance + COALESCE(SUM(
+            CASE
+                WHEN t.type = 'income' OR t.transfer_direction = 'in' THEN t.amount
+                ELSE -t.amount
+            END
+        ), 0)
+    FROM public.accounts a
+    LEFT JOIN public.transactions t ON t.account_id = a.id AND t.date <= p_until
+    WHERE a.user_id = auth.uid()
+    GROUP BY a.id, a.opening_balance;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_transaction_reporting_date(DATE, UUID, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_transaction_totals(DATE, DATE, TEXT, BOOLEAN, TEXT, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_transaction_balance(DATE, TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_account_balances(DATE) TO authenticated;
+
@@ -0,0 +1,155 @@
+-- Papéis do grupo e exclusão do grupo: o que cada papel pode fazer e o que sobra quando o grupo some.
+-- Rodar com: supabase test db
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(14);
+
+-- Cenário (criado como postgres, sem RLS):
+--   A: dono do grupo G       B: membro de G       V: leitor de G       C: nunca esteve em G
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'a@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'b@example.com'),
+  ('00000000-0000-0000-0000-00000000000d', 'v@example.com'),
+  ('00000000-0000-0000-0000-00000000000c', 'c@example.com');
+
+insert into public.financial_groups (id, name, created_by) values
+  ('00000000-0000-0000-0000-0000000000f1', 'Casa', '00000000-0000-0000-0000-00000000000a');
+
+insert into public.group_members (group_id, user_id, role) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'owner'),
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 'member'),
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000d', 'viewer');
+
+insert into public.recurring_series (id, user_id, group_id, type, description, amount, category, frequency, day_of_month, start_date, end_date) values
+  ('20000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'expense', 'Aluguel', 1500, 'housing', 'monthly', 5, '2024-06-05', '2024-07-05');
+
+insert into public.installment_purchases (id, user_id, group_id, description, category, total_amount, installment_count, first_due_date) values
+  ('30000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000f1', 'Geladeira', 'housing', 3000, 2, '2024-06-10');
+
+insert into public.transactions (user_id, group_id, type, date, description, amount, category, series_id) values
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-06-05', 'Aluguel', 1500, 'housing', '20000000-0000-0000-0000-0000000000a1'),
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-07-05', 'Aluguel', 1500, 'housing', '20000000-0000-0000-0000-0000000000a1');
+
+insert into public.transactions (user_id, group_id, type, date, description, amount, category, installment_purchase_id, installment_number, installment_count) values
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-06-10', 'Geladeira', 1500, 'housing', '30000000-0000-0000-0000-0000000000b1', 1, 2),
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-07-10', 'Geladeira', 1500, 'housing', '30000000-0000-0000-0000-0000000000b1', 2, 2);
+
+insert into public.categories (id, user_id, group_id, key, name, type) values
+  ('40000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'cleaning', 'Limpeza', 'expense');
+
+insert into public.budgets (id, user_id, group_id, category, amount) values
+  ('50000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'food', 1000),
+  ('50000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000f1', 'housing', 2000);
+
+-- V: leitor, não mexe nas categorias do grupo
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000d", "email": "v@example.com", "role": "authenticated"}';
+
+select throws_ok(
+  $$ insert into public.categories (user_id, group_id, key, name, type)
+     values ('00000000-0000-0000-0000-00000000000d', '00000000-0000-0000-0000-0000000000f1', 'pets', 'Pets', 'expense') $$,
+  '42501',
+  'new row violates row-level security policy for table "categories"',
+  'V não cria categorias em G'
+);
+
+with changed as (
+  update public.categories set name = 'Faxina' where id = '40000000-0000-0000-0000-0000000000a1' returning 1
+)
+select is(count(*)::int, 0, 'V não renomeia categorias de G') from changed;
+
+-- B: membro, cria e renomeia categorias do grupo
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000b", "email": "b@example.com", "role": "authenticated"}';
+
+select lives_ok(
+  $$ insert into public.categories (user_id, group_id, key, name, type)
+     values ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000f1', 'pets', 'Pets', 'expense') $$,
+  'B cria categorias em G'
+);
+
+with changed as (
+  update public.categories set name = 'Faxina' where id = '40000000-0000-0000-0000-0000000000a1' returning 1
+)
+select is(count(*)::int, 1, 'B renomeia categorias de G') from changed;
+
+-- Orçamentos do grupo: como nas transações, o membro altera só os que criou
+with changed as (
+  update public.budgets set amount = 1 where id = '50000000-0000-0000-0000-0000000000a1' returning 1
+)
+select is(count(*)::int, 0, 'B não altera o orçamento que A criou') from changed;
+
+with removed as (
+  delete from public.budgets where id = '50000000-0000-0000-0000-0000000000a1' returning 1
+)
+select is(count(*)::int, 0, 'B não exclui o orçamento que A criou') from removed;
+
+with changed as (
+  update public.budgets set amount = 2500 where id = '50000000-0000-0000-0000-0000000000b1' returning 1
+)
+select is(count(*)::int, 1, 'B altera o próprio orçamento') from changed;
+
+-- A: dono, altera qualquer orçamento do grupo
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "email": "a@example.com", "role": "authenticated"}';
+
+with changed as (
+  update public.budgets set amount = 1800 where id = '50000000-0000-0000-0000-0000000000b1' returning 1
+)
+select is(count(*)::int, 1, 'A altera o orçamento que B criou') from changed;
+
+reset role;
+
+-- Quem sai continua devendo as parcelas do seu tempo e o acerto com ele pode ser registrado
+delete from public.group_members
+where group_id = '00000000-0000-0000-0000-0000000000f1' and user_id = '00000000-0000-0000-0000-00000000000b';
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "email": "a@example.com", "role": "authenticated"}';
+
+select lives_ok(
+  $$ insert into public.group_settlements (group_id, from_user_id, to_user_id, amount, date, created_by)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 100, '2024-08-01', '00000000-0000-0000-0000-00000000000a') $$,
+  'A registra acerto com B, que saiu de G com saldo'
+);
+select throws_ok(
+  $$ insert into public.group_settlements (group_id, from_user_id, to_user_id, amount, date, created_by)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000c', 100, '2024-08-01', '00000000-0000-0000-0000-00000000000a') $$,
+  '42501',
+  'new row violates row-level security policy for table "group_settlements"',
+  'A não registra acerto com C, que nunca esteve em G'
+);
+
+reset role;
+
+-- Excluir o grupo devolve séries, parcelas e suas transações a quem as lançou
+delete from public.financial_groups where id = '00000000-0000-0000-0000-0000000000f1';
+
+select is(
+  (select count(*)::int from public.transactions
+   where series_id = '20000000-0000-0000-0000-0000000000a1' and group_id is null),
+  2,
+  'As ocorrências da série continuam, como transações pessoais'
+);
+select is(
+  (select count(*)::int from public.transactions
+   where installment_purchase_id = '30000000-0000-0000-0000-0000000000b1' and group_id is null),
+  2,
+  'As parcelas continuam, como transações pessoais'
+);
+select is(
+  (select group_id from public.recurring_series where id = '20000000-0000-0000-0000-0000000000a1'),
+  null::uuid,
+  'A série continua com quem a criou, sem grupo'
+);
+select is(
+  (select group_id from public.installment_purchases where id = '30000000-0000-0000-0000-0000000000b1'),
+  null::uuid,
+  'A compra parcelada continua com quem a criou, sem grupo'
+);
+
+select * from finish();
+rollback;
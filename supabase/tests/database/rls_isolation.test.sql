@@ -0,0 +1,367 @@
+-- Isolamento entre usuários: ninguém lê dados pessoais de outra pessoa nem dados de grupos dos quais não participa.
+-- Rodar com: supabase test db
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(53);
+
+-- Cenário (criado como postgres, sem RLS):
+--   A: dono do grupo G       B: membro de G       V: leitor de G
+--   C: fora de G, dono do grupo H
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'a@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'b@example.com'),
+  ('00000000-0000-0000-0000-00000000000c', 'c@example.com'),
+  ('00000000-0000-0000-0000-00000000000d', 'v@example.com');
+
+insert into public.profiles (id, full_name, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'Ana', 'a@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'Bruno', 'b@example.com'),
+  ('00000000-0000-0000-0000-00000000000c', 'Carla', 'c@example.com'),
+  ('00000000-0000-0000-0000-00000000000d', 'Vera', 'v@example.com');
+
+insert into public.financial_groups (id, name, created_by) values
+  ('00000000-0000-0000-0000-0000000000f1', 'Casa', '00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-0000000000f2', 'Viagem', '00000000-0000-0000-0000-00000000000c');
+
+insert into public.group_members (group_id, user_id, role) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'owner'),
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 'member'),
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000d', 'viewer'),
+  ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000c', 'owner');
+
+insert into public.transactions (id, user_id, group_id, type, date, description, amount, category) values
+  ('10000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', null, 'expense', '2024-06-01', 'Farmácia', 50, 'health'),
+  ('10000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-06-02', 'Mercado', 300, 'food'),
+  ('10000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-00000000000b', null, 'income', '2024-06-05', 'Salário', 5000, 'salary'),
+  ('10000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000c', null, 'expense', '2024-06-03', 'Cinema', 40, 'entertainment'),
+  ('10000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-0000000000f2', 'expense', '2024-06-04', 'Hotel', 800, 'other');
+
+-- Troca a divisão padrão (gravada ao lançar a despesa) por uma meio a meio entre A e B
+delete from public.transaction_splits where transaction_id = '10000000-0000-0000-0000-0000000000a2';
+insert into public.transaction_splits (transaction_id, user_id, paid_amount, owed_amount) values
+  ('10000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-00000000000a', 300, 150),
+  ('10000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-00000000000b', 0, 150);
+
+insert into public.group_settlements (group_id, from_user_id, to_user_id, amount, date, created_by) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000a', 150, '2024-06-10', '00000000-0000-0000-0000-00000000000b');
+
+insert into public.budgets (user_id, group_id, category, amount) values
+  ('00000000-0000-0000-0000-00000000000a', null, 'health', 200),
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'food', 1000);
+
+insert into public.categories (user_id, group_id, key, name, type) values
+  ('00000000-0000-0000-0000-00000000000a', null, 'pets', 'Pets', 'expense'),
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'cleaning', 'Limpeza', 'expense');
+
+insert into public.accounts (user_id, name, type) values
+  ('00000000-0000-0000-0000-00000000000a', 'Conta corrente', 'checking');
+
+insert into public.goals (user_id, name, target_amount, target_date) values
+  ('00000000-0000-0000-0000-00000000000a', 'Reserva', 10000, '2025-12-31');
+
+insert into public.group_invitations (group_id, invited_by, email, role) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'amigo@example.com', 'member');
+
+-- C: não vê nada de A nem do grupo G
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000c", "email": "c@example.com", "role": "authenticated"}';
+
+select is_empty(
+  $$ select 1 from public.transactions where user_id <> '00000000-0000-0000-0000-00000000000c' $$,
+  'C só vê as próprias transações'
+);
+select is_empty(
+  $$ select 1 from public.transactions_with_translated_categories where user_id <> '00000000-0000-0000-0000-00000000000c' $$,
+  'A view de categorias traduzidas respeita a RLS de transactions'
+);
+select is_empty(
+  $$ select 1 from public.financial_groups where id = '00000000-0000-0000-0000-0000000000f1' $$,
+  'C não vê o grupo G'
+);
+select is_empty(
+  $$ select 1 from public.group_members where group_id = '00000000-0000-0000-0000-0000000000f1' $$,
+  'C não vê os membros de G'
+);
+select is_empty(
+  $$ select 1 from public.transaction_splits where transaction_id = '10000000-0000-0000-0000-0000000000a2' $$,
+  'C não vê as divisões das despesas de G'
+);
+select is_empty(
+  $$ select 1 from public.group_settlements $$,
+  'C não vê os acertos de G'
+);
+select is_empty(
+  $$ select 1 from public.budgets $$,
+  'C não vê orçamentos pessoais de A nem os de G'
+);
+select is_empty(
+  $$ select 1 from public.categories where user_id is not null or group_id is not null $$,
+  'C não vê categorias pessoais de A nem as de G'
+);
+select is_empty(
+  $$ select 1 from public.profiles where id <> '00000000-0000-0000-0000-00000000000c' $$,
+  'C não vê perfis de quem não está nos seus grupos'
+);
+select is_empty(
+  $$ select 1 from public.accounts $$,
+  'C não vê as contas de A'
+);
+select is_empty(
+  $$ select 1 from public.goals $$,
+  'C não vê as metas de A'
+);
+select is_empty(
+  $$ select 1 from public.group_invitations $$,
+  'C não vê os convites de G'
+);
+
+-- C também não escreve em G
+select throws_ok(
+  $$ insert into public.transactions (user_id, group_id, type, date, description, amount, category)
+     values ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-06-06', 'Intruso', 10, 'other') $$,
+  '42501',
+  'new row violates row-level security policy for table "transactions"',
+  'C não lança transações em G'
+);
+select throws_ok(
+  $$ insert into public.transactions (user_id, type, date, description, amount, category)
+     values ('00000000-0000-0000-0000-00000000000a', 'expense', '2024-06-06', 'Em nome de A', 10, 'other') $$,
+  '42501',
+  'new row violates row-level security policy for table "transactions"',
+  'C não lança transações em nome de A'
+);
+select throws_ok(
+  $$ insert into public.group_members (group_id, user_id, role)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c', 'owner') $$,
+  '42501',
+  'new row violates row-level security policy for table "group_members"',
+  'C não se adiciona a G'
+);
+select throws_ok(
+  $$ insert into public.group_invitations (group_id, invited_by, email, role)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c', 'c2@example.com', 'admin') $$,
+  '42501',
+  'new row violates row-level security policy for table "group_invitations"',
+  'C não cria convites para G'
+);
+select throws_ok(
+  $$ select public.invite_group_member('00000000-0000-0000-0000-0000000000f1', 'c2@example.com', 'member') $$,
+  'P0002',
+  'group_not_found',
+  'C não convida ninguém para G pelas funções do grupo'
+);
+select throws_ok(
+  $$ select public.remove_group_member('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b') $$,
+  'P0002',
+  'group_not_found',
+  'C não remove membros de G'
+);
+
+with changed as (
+  update public.transactions set amount = 1
+  where id in ('10000000-0000-0000-0000-0000000000a1', '10000000-0000-0000-0000-0000000000a2')
+  returning 1
+)
+select is(count(*)::int, 0, 'C não altera transações de A') from changed;
+
+with changed as (
+  update public.financial_groups set name = 'Invadido'
+  where id = '00000000-0000-0000-0000-0000000000f1'
+  returning 1
+)
+select is(count(*)::int, 0, 'C não renomeia G') from changed;
+
+with removed as (
+  delete from public.financial_groups
+  where id = '00000000-0000-0000-0000-0000000000f1'
+  returning 1
+)
+select is(count(*)::int, 0, 'C não exclui G') from removed;
+
+with removed as (
+  delete from public.profiles
+  where id = '00000000-0000-0000-0000-00000000000a'
+  returning 1
+)
+select is(count(*)::int, 0, 'C não apaga o perfil de A') from removed;
+
+-- A: vê o grupo, mas não as transações pessoais de B nem nada de C
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "email": "a@example.com", "role": "authenticated"}';
+
+select is(
+  (select count(*)::int from public.transactions),
+  2,
+  'A vê a própria transação pessoal e a do grupo G'
+);
+select is_empty(
+  $$ select 1 from public.transactions where id in ('10000000-0000-0000-0000-0000000000b1', '10000000-0000-0000-0000-0000000000c1', '10000000-0000-0000-0000-0000000000c2') $$,
+  'A não vê transações pessoais de B nem as de C'
+);
+select is_empty(
+  $$ select 1 from public.financial_groups where id = '00000000-0000-0000-0000-0000000000f2' $$,
+  'A não vê o grupo H'
+);
+select is(
+  (select count(*)::int from public.group_members),
+  3,
+  'A vê só os membros de G'
+);
+select is(
+  (select count(*)::int from public.profiles),
+  3,
+  'A vê o próprio perfil e os dos colegas de G'
+);
+select is(
+  (select count(*)::int from public.group_invitations),
+  1,
+  'A, dono de G, vê os convites de G'
+);
+select throws_ok(
+  $$ update public.group_members set user_id = '00000000-0000-0000-0000-00000000000c'
+     where group_id = '00000000-0000-0000-0000-0000000000f1' and user_id = '00000000-0000-0000-0000-00000000000b' $$,
+  '42501',
+  'permission denied for table group_members',
+  'A não troca quem é o membro de G'
+);
+select throws_ok(
+  $$ update public.group_members set group_id = '00000000-0000-0000-0000-0000000000f2'
+     where group_id = '00000000-0000-0000-0000-0000000000f1' and user_id = '00000000-0000-0000-0000-00000000000b' $$,
+  '42501',
+  'permission denied for table group_members',
+  'A não move membros de G para outro grupo'
+);
+select throws_ok(
+  $$ select public.invite_group_member('00000000-0000-0000-0000-0000000000f1', 'B@example.com', 'member') $$,
+  '23505',
+  'already_member',
+  'A não convida quem já é membro de G'
+);
+select lives_ok(
+  $$ select public.invite_group_member('00000000-0000-0000-0000-0000000000f1', 'novo@example.com', 'viewer') $$,
+  'A convida alguém novo para G'
+);
+
+-- B: membro, vê o grupo mas não os dados pessoais de A
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000b", "email": "b@example.com", "role": "authenticated"}';
+
+select is(
+  (select count(*)::int from public.transactions where group_id = '00000000-0000-0000-0000-0000000000f1'),
+  1,
+  'B vê a transação do grupo G'
+);
+select is_empty(
+  $$ select 1 from public.transactions where id = '10000000-0000-0000-0000-0000000000a1' $$,
+  'B não vê a transação pessoal de A'
+);
+select is(
+  (select count(*)::int from public.budgets),
+  1,
+  'B vê só o orçamento do grupo, não o pessoal de A'
+);
+select is_empty(
+  $$ select 1 from public.accounts $$,
+  'B não vê as contas de A'
+);
+select is_empty(
+  $$ select 1 from public.group_invitations $$,
+  'B, membro comum, não vê os convites de G'
+);
+
+with changed as (
+  update public.transactions set amount = 1
+  where id = '10000000-0000-0000-0000-0000000000a2'
+  returning 1
+)
+select is(count(*)::int, 0, 'B não altera a transação que A lançou no grupo') from changed;
+
+with changed as (
+  update public.group_members set role = 'owner'
+  where user_id = '00000000-0000-0000-0000-00000000000b'
+  returning 1
+)
+select is(count(*)::int, 0, 'B não promove a si mesmo') from changed;
+
+select throws_ok(
+  $$ select public.update_group_member_role('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000d', 'admin') $$,
+  '42501',
+  'forbidden',
+  'B não muda papéis pelas funções do grupo'
+);
+select throws_ok(
+  $$ insert into public.group_settlements (group_id, from_user_id, to_user_id, amount, date, created_by)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000c', 10, '2024-06-07', '00000000-0000-0000-0000-00000000000b') $$,
+  '42501',
+  'new row violates row-level security policy for table "group_settlements"',
+  'B não registra acerto com quem está fora de G'
+);
+select throws_ok(
+  $$ insert into public.group_settlements (group_id, from_user_id, to_user_id, amount, date, created_by)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000a', 10, '2024-06-07', '00000000-0000-0000-0000-00000000000b') $$,
+  '42501',
+  'new row violates row-level security policy for table "group_settlements"',
+  'B não registra acerto pago por quem está fora de G'
+);
+select lives_ok(
+  $$ insert into public.group_settlements (group_id, from_user_id, to_user_id, amount, date, created_by)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000a', 10, '2024-06-07', '00000000-0000-0000-0000-00000000000b') $$,
+  'B registra acerto entre membros de G'
+);
+
+-- V: leitor, só consulta
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000d", "email": "v@example.com", "role": "authenticated"}';
+
+select is(
+  (select count(*)::int from public.transactions),
+  1,
+  'V vê a transação do grupo G'
+);
+select throws_ok(
+  $$ insert into public.transactions (user_id, group_id, type, date, description, amount, category)
+     values ('00000000-0000-0000-0000-00000000000d', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-06-07', 'Leitor', 10, 'other') $$,
+  '42501',
+  'new row violates row-level security policy for table "transactions"',
+  'V não lança transações em G'
+);
+select throws_ok(
+  $$ insert into public.group_settlements (group_id, from_user_id, to_user_id, amount, date, created_by)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000d', '00000000-0000-0000-0000-00000000000a', 10, '2024-06-07', '00000000-0000-0000-0000-00000000000d') $$,
+  '42501',
+  'new row violates row-level security policy for table "group_settlements"',
+  'V não registra acertos em G'
+);
+select throws_ok(
+  $$ select public.invite_group_member('00000000-0000-0000-0000-0000000000f1', null, 'member') $$,
+  '42501',
+  'forbidden',
+  'V não convida para G'
+);
+
+-- Visitante sem login não vê nada
+reset role;
+set local role anon;
+set local request.jwt.claims = '{"role": "anon"}';
+
+select is_empty($$ select 1 from public.transactions $$, 'anon não vê transações');
+select is_empty($$ select 1 from public.financial_groups $$, 'anon não vê grupos');
+select is_empty($$ select 1 from public.group_members $$, 'anon não vê membros');
+select is_empty($$ select 1 from public.profiles $$, 'anon não vê perfis');
+select is_empty($$ select 1 from public.group_invitations $$, 'anon não vê convites');
+
+-- Toda tabela do schema public tem RLS ligada
+reset role;
+
+select is_empty(
+  $$ select c.relname from pg_class c join pg_namespace n on n.oid = c.relnamespace
+     where n.nspname = 'public' and c.relkind = 'r' and not c.relrowsecurity $$,
+  'Todas as tabelas de public têm RLS habilitada'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,155 @@
+-- Divisões das despesas do grupo: gravadas ao lançar, acompanham o valor e não mudam com entradas e saídas.
+-- Rodar com: supabase test db
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(14);
+
+-- Cenário (criado como postgres, sem RLS):
+--   A: dono do grupo G       B: membro de G       D: entra em G depois das despesas
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'a@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'b@example.com'),
+  ('00000000-0000-0000-0000-00000000000d', 'd@example.com');
+
+insert into public.financial_groups (id, name, created_by) values
+  ('00000000-0000-0000-0000-0000000000f1', 'Casa', '00000000-0000-0000-0000-00000000000a');
+
+insert into public.group_members (group_id, user_id, role, created_at) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'owner', '2024-01-01'),
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 'member', '2024-01-02');
+
+insert into public.transactions (id, user_id, group_id, type, date, description, amount, category) values
+  ('10000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-06-01', 'Mercado', 100.01, 'food'),
+  ('10000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-06-02', 'Luz', 80, 'utilities'),
+  ('10000000-0000-0000-0000-0000000000a3', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'income', '2024-06-03', 'Reembolso', 20, 'other');
+
+select results_eq(
+  $$ select user_id::text, paid_amount, owed_amount from public.transaction_splits
+     where transaction_id = '10000000-0000-0000-0000-0000000000a1' order by user_id $$,
+  $$ values ('00000000-0000-0000-0000-00000000000a', 100.01::numeric(12,2), 50.01::numeric(12,2)),
+            ('00000000-0000-0000-0000-00000000000b', 0::numeric(12,2), 50.00::numeric(12,2)) $$,
+  'A despesa do grupo nasce dividida igualmente, com o centavo que sobra para o membro mais antigo'
+);
+select is_empty(
+  $$ select 1 from public.transaction_splits where transaction_id = '10000000-0000-0000-0000-0000000000a3' $$,
+  'Receitas do grupo não são divididas'
+);
+
+-- Leitores acompanham o grupo sem dividir as despesas
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000e', 'v@example.com');
+insert into public.group_members (group_id, user_id, role) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000e', 'viewer');
+insert into public.transactions (id, user_id, group_id, type, date, description, amount, category) values
+  ('10000000-0000-0000-0000-0000000000a4', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000f1', 'expense', '2024-06-04', 'Gás', 60, 'utilities');
+
+select results_eq(
+  $$ select user_id::text, owed_amount from public.transaction_splits
+     where transaction_id = '10000000-0000-0000-0000-0000000000a4' order by user_id $$,
+  $$ values ('00000000-0000-0000-0000-00000000000a', 30.00::numeric(12,2)),
+            ('00000000-0000-0000-0000-00000000000b', 30.00::numeric(12,2)) $$,
+  'O leitor não deve parte da despesa'
+);
+
+delete from public.transactions where id = '10000000-0000-0000-0000-0000000000a4';
+delete from public.group_members
+where group_id = '00000000-0000-0000-0000-0000000000f1' and user_id = '00000000-0000-0000-0000-00000000000e';
+
+-- Entradas e saídas não mexem nas despesas já lançadas
+insert into public.group_members (group_id, user_id, role) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000d', 'member');
+
+select is_empty(
+  $$ select 1 from public.transaction_splits where user_id = '00000000-0000-0000-0000-00000000000d' $$,
+  'Quem entra depois não deve as despesas anteriores'
+);
+
+delete from public.group_members
+where group_id = '00000000-0000-0000-0000-0000000000f1' and user_id = '00000000-0000-0000-0000-00000000000b';
+
+select is(
+  (select owed_amount from public.transaction_splits
+   where transaction_id = '10000000-0000-0000-0000-0000000000a2' and user_id = '00000000-0000-0000-0000-00000000000b'),
+  40.00::numeric(12,2),
+  'Quem sai continua devendo a parte das despesas do seu tempo'
+);
+
+insert into public.group_members (group_id, user_id, role, created_at) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 'member', '2024-01-02');
+
+-- Mudar o valor refaz as partes na mesma proporção
+update public.transactions set amount = 90 where id = '10000000-0000-0000-0000-0000000000a2';
+
+select results_eq(
+  $$ select user_id::text, paid_amount, owed_amount from public.transaction_splits
+     where transaction_id = '10000000-0000-0000-0000-0000000000a2' order by user_id $$,
+  $$ values ('00000000-0000-0000-0000-00000000000a', 90.00::numeric(12,2), 45.00::numeric(12,2)),
+            ('00000000-0000-0000-0000-00000000000b', 0::numeric(12,2), 45.00::numeric(12,2)) $$,
+  'Com o novo valor, quem pagou pagou tudo e as partes continuam meio a meio'
+);
+
+-- Virar transação pessoal apaga a divisão
+update public.transactions set group_id = null where id = '10000000-0000-0000-0000-0000000000a1';
+
+select is_empty(
+  $$ select 1 from public.transaction_splits where transaction_id = '10000000-0000-0000-0000-0000000000a1' $$,
+  'Transação que sai do grupo perde a divisão'
+);
+
+-- Do navegador, a divisão escolhida troca a padrão numa chamada só
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "email": "a@example.com", "role": "authenticated"}';
+
+select throws_ok(
+  $$ select public.replace_transaction_splits('[
+       {"transaction_id": "10000000-0000-0000-0000-0000000000a2", "user_id": "00000000-0000-0000-0000-00000000000a", "paid_amount": 90, "owed_amount": 10, "split_method": "exact", "share": 10},
+       {"transaction_id": "10000000-0000-0000-0000-0000000000a2", "user_id": "00000000-0000-0000-0000-00000000000b", "paid_amount": 0, "owed_amount": 10, "split_method": "exact", "share": 10}
+     ]'::jsonb) $$,
+  '22023',
+  'invalid_split',
+  'Partes que não fecham com o valor são recusadas'
+);
+select is(
+  (select count(*)::int from public.transaction_splits where transaction_id = '10000000-0000-0000-0000-0000000000a2'),
+  2,
+  'A divisão anterior continua lá quando a troca é recusada'
+);
+
+select lives_ok(
+  $$ select public.replace_transaction_splits('[
+       {"transaction_id": "10000000-0000-0000-0000-0000000000a2", "user_id": "00000000-0000-0000-0000-00000000000a", "paid_amount": 90, "owed_amount": 30, "split_method": "exact", "share": 30},
+       {"transaction_id": "10000000-0000-0000-0000-0000000000a2", "user_id": "00000000-0000-0000-0000-00000000000b", "paid_amount": 0, "owed_amount": 60, "split_method": "exact", "share": 60}
+     ]'::jsonb) $$,
+  'A divisão escolhida substitui a padrão'
+);
+select is(
+  (select owed_amount from public.transaction_splits
+   where transaction_id = '10000000-0000-0000-0000-0000000000a2' and user_id = '00000000-0000-0000-0000-00000000000b'),
+  60.00::numeric(12,2),
+  'B passa a dever o valor escolhido'
+);
+
+select throws_ok(
+  $$ select public.insert_equal_splits('10000000-0000-0000-0000-0000000000a2') $$,
+  '42501',
+  NULL,
+  'A divisão padrão não é chamada direto do navegador'
+);
+
+-- O painel usa as mesmas linhas: quem entrou depois não deve nada do que já foi lançado
+select is(
+  (select (b ->> 'net')::numeric from public.get_group_dashboards() g, jsonb_array_elements(g.member_balances) b
+   where g.id = '00000000-0000-0000-0000-0000000000f1' and b ->> 'user_id' = '00000000-0000-0000-0000-00000000000b'),
+  -60.00,
+  'No painel, B deve a parte gravada na divisão'
+);
+select is(
+  (select (b ->> 'net')::numeric from public.get_group_dashboards() g, jsonb_array_elements(g.member_balances) b
+   where g.id = '00000000-0000-0000-0000-0000000000f1' and b ->> 'user_id' = '00000000-0000-0000-0000-00000000000d'),
+  0::numeric,
+  'No painel, D aparece quite'
+);
+
+select * from finish();
+rollback;